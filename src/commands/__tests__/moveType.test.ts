@@ -0,0 +1,429 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ts from 'typescript';
+import { createMemoryVscode, memoryWorkspace } from '../../utils/__tests__/test-utils';
+
+vi.mock('vscode', () => ({
+    ...createMemoryVscode(),
+    window: {
+        activeTextEditor: undefined,
+        showErrorMessage: vi.fn(),
+        showInformationMessage: vi.fn(),
+        showWarningMessage: vi.fn(),
+        showQuickPick: vi.fn(async (items: unknown[]) => items),
+        showInputBox: vi.fn(),
+        withProgress: vi.fn((_options: unknown, task: () => unknown) => task())
+    },
+    commands: {
+        executeCommand: vi.fn()
+    },
+    ProgressLocation: { Window: 10 }
+}));
+
+import * as vscode from 'vscode';
+import { moveType } from '../moveType';
+
+describe('moveType', () => {
+    const settings = (vscode.workspace as unknown as { settings: Record<string, unknown> }).settings;
+    const typesUri = vscode.Uri.file('/project/src/types.ts');
+    const modelsUri = vscode.Uri.file('/project/src/models.ts');
+    const { directoryExists } = ts.sys;
+
+    /** Moves the declaration of types.ts with the given name to models.ts, as if invoked at its name */
+    const move = async (name: string) => {
+        const document = await vscode.workspace.openTextDocument(typesUri);
+        const position = document.positionAt(document.getText().indexOf(name));
+        return moveType({ uri: typesUri, range: new vscode.Range(position, position), destinationUri: modelsUri });
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        Object.keys(settings).forEach(key => delete settings[key]);
+        Object.assign(settings, { previewChanges: false, checkTypesAfterMove: false });
+        vi.spyOn(ts.sys, 'directoryExists').mockImplementation(dirPath => dirPath.startsWith('/project') || directoryExists(dirPath));
+    });
+
+    describe('name collisions', () => {
+        const files = {
+            '/project/src/types.ts': 'export interface User { id: string }\nexport interface Order { user: User }\n',
+            '/project/src/app.ts': 'import { User } from \'./types\';\nexport let user: User;\n'
+        };
+
+        /** Resolves the collisions with the given choice of the warning */
+        const choose = (choice?: string) => vi.mocked(vscode.window.showWarningMessage).mockResolvedValue(choice as any);
+
+        it('should leave every file untouched when the move is aborted', async () => {
+            memoryWorkspace.reset({ ...files, '/project/src/models.ts': 'export interface User { name: string }\n' });
+            choose(undefined);
+
+            expect(await move('User')).toBe(false);
+
+            expect(Object.fromEntries(memoryWorkspace.files)).toEqual({ ...files, '/project/src/models.ts': 'export interface User { name: string }\n' });
+        });
+
+        it('should only offer merging when the declarations are identical', async () => {
+            memoryWorkspace.reset({ ...files, '/project/src/models.ts': 'export interface User { name: string }\n' });
+            choose(undefined);
+
+            await move('User');
+
+            expect(vi.mocked(vscode.window.showWarningMessage).mock.calls[0].slice(2)).toEqual(['Rename']);
+        });
+
+        it('should keep the destination\'s declaration when merging identical ones', async () => {
+            memoryWorkspace.reset({ ...files, '/project/src/models.ts': 'interface User {\n    id: string;\n}\n' });
+            choose('Merge Identical');
+
+            expect(await move('User')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toBe('export interface User {\n    id: string;\n}\n');
+            expect(memoryWorkspace.files.get('/project/src/app.ts')).toBe('import { User } from \'./models\';\nexport let user: User;\n');
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).not.toContain('interface User');
+        });
+
+        describe('renaming', () => {
+            /** Renames every whole-word occurrence of the name at the position, in its file and those importing it */
+            const renameProvider = async (_command: string, uri: vscode.Uri, position: vscode.Position, newName: string) => {
+                const text = memoryWorkspace.getText(uri.fsPath)!;
+                const offset = (await vscode.workspace.openTextDocument(uri)).offsetAt(position);
+                const name = /^[\w$]+/.exec(text.slice(offset))![0];
+                const edit = new vscode.WorkspaceEdit();
+                for (const [filePath, fileText] of memoryWorkspace.files) {
+                    if (filePath !== uri.fsPath && !fileText.includes('from \'./types\'')) continue;
+                    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+                    for (const match of fileText.matchAll(new RegExp(`\\b${name}\\b`, 'g'))) {
+                        const range = new vscode.Range(document.positionAt(match.index!), document.positionAt(match.index! + name.length));
+                        edit.replace(document.uri, range, newName);
+                    }
+                }
+                return edit;
+            };
+
+            beforeEach(() => {
+                vi.mocked(vscode.commands.executeCommand).mockImplementation(renameProvider as any);
+            });
+
+            it('should rename the declaration and its references before moving it', async () => {
+                memoryWorkspace.reset({ ...files, '/project/src/models.ts': 'export interface User { name: string }\n' });
+                choose('Rename');
+                vi.mocked(vscode.window.showInputBox).mockResolvedValue('Account');
+
+                expect(await move('User')).toBe(true);
+
+                expect(memoryWorkspace.files.get('/project/src/models.ts')).toContain('export interface User { name: string }');
+                expect(memoryWorkspace.files.get('/project/src/models.ts')).toContain('export interface Account { id: string }');
+                expect(memoryWorkspace.files.get('/project/src/app.ts')).toBe('import { Account } from \'./models\';\nexport let user: Account;\n');
+                expect(memoryWorkspace.files.get('/project/src/types.ts')).toContain('export interface Order { user: Account }');
+            });
+
+            it('should undo the rename when the move with the new name is aborted', async () => {
+                memoryWorkspace.reset({
+                    ...files,
+                    '/project/src/models.ts': 'export interface User { name: string }\nexport interface Account { name: string }\n'
+                });
+                // The new name collides as well, and that collision is aborted
+                vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce('Rename' as any).mockResolvedValueOnce(undefined);
+                vi.mocked(vscode.window.showInputBox).mockResolvedValue('Account');
+
+                expect(await move('User')).toBe(false);
+
+                expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe(files['/project/src/types.ts']);
+                expect(memoryWorkspace.files.get('/project/src/app.ts')).toBe(files['/project/src/app.ts']);
+            });
+
+            it('should leave every file untouched when no new name is entered', async () => {
+                memoryWorkspace.reset({ ...files, '/project/src/models.ts': 'export interface User { name: string }\n' });
+                choose('Rename');
+                vi.mocked(vscode.window.showInputBox).mockResolvedValue(undefined);
+
+                expect(await move('User')).toBe(false);
+
+                expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe(files['/project/src/types.ts']);
+                expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+            });
+        });
+    });
+
+    describe('destination', () => {
+        it('should end a new destination with a newline', async () => {
+            memoryWorkspace.reset({ '/project/src/types.ts': 'export interface User { id: string }\nexport interface Order {}\n' });
+
+            expect(await move('User')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toBe('export interface User { id: string }\n');
+        });
+
+        it('should replace the destination\'s import of the moved declaration without leaving a blank line', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export enum Status { A }\nexport interface Other {}\n',
+                '/project/src/models.ts': 'import { Status } from \'./types\';\n\nexport class Order { status = Status.A }\n'
+            });
+
+            expect(await move('Status')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toBe('export enum Status { A }\n\nexport class Order { status = Status.A }\n');
+        });
+
+        it('should keep the destination\'s other imports when replacing its import of the moved declaration', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export enum Status { A }\nexport interface Other {}\n',
+                '/project/src/models.ts': 'import { Money } from \'./money\';\nimport { Status } from \'./types\';\n\nexport class Order { status = Status.A; total?: Money }\n'
+            });
+
+            expect(await move('Status')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toBe(
+                'import { Money } from \'./money\';\n\nexport enum Status { A }\n\nexport class Order { status = Status.A; total?: Money }\n'
+            );
+        });
+    });
+
+    describe('source file', () => {
+        it('should remove the imports only the moved declaration used', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': [
+                    'import { Currency, Money } from \'./money\';',
+                    'export interface Price { amount: Money }',
+                    'export interface Cart { currency: Currency }',
+                    ''
+                ].join('\n'),
+                '/project/src/models.ts': 'export interface Base {}\n'
+            });
+
+            expect(await move('Price')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe('import { Currency } from \'./money\';\nexport interface Cart { currency: Currency }\n');
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toContain('import { Money } from "./money";');
+        });
+
+        it('should replace an import only the moved declaration used with the import of the declaration', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'import { Money } from \'./money\';\n\nexport interface Price { amount: Money }\nexport interface Cart { price: Price }\n',
+                '/project/src/models.ts': 'export interface Base {}\n'
+            });
+
+            expect(await move('Price')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe('import { Price } from \'./models\';\n\nexport interface Cart { price: Price }\n');
+        });
+
+        it('should remove an import only the moved declaration used without leaving a blank line', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'import { Money } from \'./money\';\n\nexport interface Price { amount: Money }\n\nexport interface Cart { id: string }\n',
+                '/project/src/models.ts': 'export interface Base {}\n'
+            });
+
+            expect(await move('Price')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe('export interface Cart { id: string }\n');
+        });
+
+        it('should import the moved declaration back when the remaining code uses it', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\nexport interface Order { user: User }\n',
+                '/project/src/models.ts': 'export interface Base {}\n'
+            });
+
+            expect(await move('User')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe('import { User } from "./models";\nexport interface Order { user: User }\n');
+        });
+
+        it('should not import the moved declaration back when the remaining code doesn\'t use it', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\nexport interface Order { id: string }\n',
+                '/project/src/models.ts': 'export interface Base {}\n'
+            });
+
+            expect(await move('User')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe('export interface Order { id: string }\n');
+        });
+
+        it('should export a moved declaration the remaining code imports back', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'interface User { id: string }\nexport interface Order { user: User }\n',
+                '/project/src/models.ts': 'export interface Base {}\n'
+            });
+
+            expect(await move('User')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toContain('export interface User { id: string }');
+        });
+
+        it('should export a namespace the moved declaration uses and import it from the source file', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'namespace Models { export interface User { id: string } }\nexport interface Order { user: Models.User }\n',
+                '/project/src/models.ts': 'export interface Base {}\n'
+            });
+
+            expect(await move('Order')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe('export namespace Models { export interface User { id: string } }\n');
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toBe(
+                'import { Models } from "./types";\nexport interface Base {}\n\nexport interface Order { user: Models.User }\n'
+            );
+        });
+
+        it('should export a declaration left behind that the moved declaration uses', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'interface User { id: string }\nexport interface Order { user: User }\n',
+                '/project/src/models.ts': 'export interface Base {}\n'
+            });
+            // Leave the dependencies behind
+            vi.mocked(vscode.window.showQuickPick).mockResolvedValueOnce([] as any);
+
+            expect(await move('Order')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe('export interface User { id: string }\n');
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toContain('import { User } from "./types";');
+        });
+    });
+
+    describe('consumers', () => {
+        it('should rewrite import types in annotations and JSDoc comments', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\nexport interface Order {}\n',
+                '/project/src/models.ts': 'export interface Base {}\n',
+                '/project/src/app.ts': 'let user: import(\'./types\').User;\nlet order: import(\'./types\').Order;\n',
+                '/project/src/legacy/user.js': '/** @type {import("../types").User} */\nlet user;\n'
+            });
+
+            expect(await move('User')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/app.ts')).toBe('let user: import(\'./models\').User;\nlet order: import(\'./types\').Order;\n');
+            expect(memoryWorkspace.files.get('/project/src/legacy/user.js')).toBe('/** @type {import("../models").User} */\nlet user;\n');
+        });
+    });
+
+    describe('barrels', () => {
+        const files = {
+            '/project/src/types.ts': 'export interface User { id: string }\nexport interface Order {}\n',
+            '/project/src/models.ts': 'export interface Base {}\n',
+            '/project/src/index.ts': 'export * from \'./types\';\n'
+        };
+
+        it('should re-export the moved declaration from barrels with `export *` of the source file', async () => {
+            memoryWorkspace.reset(files);
+
+            expect(await move('User')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/index.ts')).toBe('export * from \'./types\';\nexport type { User } from \'./models\';\n');
+        });
+
+        it('should leave the barrels alone when a re-export stub keeps exposing the moved declaration', async () => {
+            memoryWorkspace.reset(files);
+            settings.reExportStub = 'deprecated';
+
+            expect(await move('User')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/index.ts')).toBe(files['/project/src/index.ts']);
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe([
+                '/** @deprecated Moved to "./models" */',
+                'export type { User } from "./models";',
+                'export interface Order {}',
+                ''
+            ].join('\n'));
+        });
+    });
+
+    describe('import cycles', () => {
+        // app.ts would import models.ts, which imports app.ts
+        const files = {
+            '/project/src/types.ts': 'export class Order {}\nexport interface Item {}\n',
+            '/project/src/app.ts': 'import { Order } from \'./types\';\nexport const order = new Order();\n',
+            '/project/src/models.ts': 'import { order } from \'./app\';\nexport const orders = [order];\n'
+        };
+
+        it('should suggest a new file avoiding the cycle', async () => {
+            memoryWorkspace.reset(files);
+            vi.mocked(vscode.window.showWarningMessage).mockResolvedValue(undefined);
+
+            expect(await move('Order')).toBe(false);
+
+            const [message, , ...choices] = vi.mocked(vscode.window.showWarningMessage).mock.calls[0];
+            expect(message).toBe('Moving \'Order\' would create an import cycle: src/app.ts → src/models.ts → src/app.ts');
+            expect(choices).toEqual(['Move to \'Order.ts\'', 'Continue']);
+            expect(Object.fromEntries(memoryWorkspace.files)).toEqual(files);
+        });
+
+        it('should move to the suggested file instead', async () => {
+            memoryWorkspace.reset(files);
+            vi.mocked(vscode.window.showWarningMessage).mockResolvedValue('Move to \'Order.ts\'' as any);
+
+            expect(await move('Order')).toBe(true);
+
+            expect(memoryWorkspace.files.get('/project/src/Order.ts')).toContain('export class Order {}');
+            expect(memoryWorkspace.files.get('/project/src/app.ts')).toBe('import { Order } from \'./Order\';\nexport const order = new Order();\n');
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toBe(files['/project/src/models.ts']);
+        });
+    });
+
+    describe('workspace packages', () => {
+        const sharedTypesUri = vscode.Uri.file('/project/packages/shared/src/types.ts');
+        const sharedUserUri = vscode.Uri.file('/project/packages/shared/src/user.ts');
+        const packageJsonPath = '/project/packages/shared/package.json';
+        const files = {
+            '/project/packages/app/package.json': JSON.stringify({ name: '@acme/app', dependencies: { '@acme/shared': 'workspace:*' } }),
+            [packageJsonPath]: JSON.stringify({ name: '@acme/shared', exports: { './types': './src/types.ts' } }, null, 2),
+            '/project/packages/shared/src/types.ts': 'export interface User { id: string }\nexport interface Order {}\n',
+            '/project/packages/shared/src/user.ts': 'export interface Base {}\n',
+            '/project/packages/app/src/app.ts': 'import { User } from \'../../shared/src/types\';\nexport let user: User;\n'
+        };
+
+        const moveUser = async () => {
+            const document = await vscode.workspace.openTextDocument(sharedTypesUri);
+            const position = document.positionAt(document.getText().indexOf('User'));
+            return moveType({ uri: sharedTypesUri, range: new vscode.Range(position, position), destinationUri: sharedUserUri });
+        };
+
+        beforeEach(() => {
+            memoryWorkspace.reset(files);
+            // Package.json files are read from disk by the package resolver
+            const { fileExists, readFile } = ts.sys;
+            vi.spyOn(ts.sys, 'fileExists').mockImplementation(filePath => memoryWorkspace.exists(filePath) || fileExists(filePath));
+            vi.spyOn(ts.sys, 'readFile').mockImplementation((filePath, encoding) => memoryWorkspace.getText(filePath) ?? readFile(filePath, encoding));
+        });
+
+        afterEach(() => {
+            vi.mocked(ts.sys.fileExists).mockRestore();
+            vi.mocked(ts.sys.readFile).mockRestore();
+        });
+
+        it('should add the destination to the package\'s exports and import it through the new entry', async () => {
+            vi.mocked(vscode.window.showWarningMessage).mockResolvedValue('Add Export' as any);
+
+            expect(await moveUser()).toBe(true);
+
+            expect(vi.mocked(vscode.window.showWarningMessage).mock.calls[0][0]).toContain('\'@acme/shared\' doesn\'t export');
+            expect(JSON.parse(memoryWorkspace.files.get(packageJsonPath)!).exports).toEqual({ './types': './src/types.ts', './user': './src/user.ts' });
+            expect(memoryWorkspace.files.get('/project/packages/app/src/app.ts')).toBe('import { User } from \'@acme/shared/user\';\nexport let user: User;\n');
+        });
+
+        it('should import the destination with a relative path when continuing without an export', async () => {
+            vi.mocked(vscode.window.showWarningMessage).mockResolvedValue('Continue Without' as any);
+
+            expect(await moveUser()).toBe(true);
+
+            expect(memoryWorkspace.files.get(packageJsonPath)).toBe(files[packageJsonPath]);
+            expect(memoryWorkspace.files.get('/project/packages/app/src/app.ts')).toBe('import { User } from \'../../shared/src/user\';\nexport let user: User;\n');
+        });
+
+        it('should leave every file untouched when the warning is dismissed', async () => {
+            vi.mocked(vscode.window.showWarningMessage).mockResolvedValue(undefined);
+
+            expect(await moveUser()).toBe(false);
+
+            expect(Object.fromEntries(memoryWorkspace.files)).toEqual(files);
+        });
+
+        it('should import a destination the package exports already through its subpath without asking', async () => {
+            const packageJson = JSON.stringify({ name: '@acme/shared', exports: { './*': './src/*.ts' } });
+            memoryWorkspace.reset({ ...files, [packageJsonPath]: packageJson });
+
+            expect(await moveUser()).toBe(true);
+
+            expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+            expect(memoryWorkspace.files.get('/project/packages/app/src/app.ts')).toBe('import { User } from \'@acme/shared/user\';\nexport let user: User;\n');
+        });
+    });
+});
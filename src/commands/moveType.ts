@@ -1,113 +1,728 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { TypeAnalyzer } from '../utils/typeAnalyzer';
-import { ImportManager } from '../utils/importManager';
+import * as ts from 'typescript';
+import { TypeAnalyzer, TypeInfo } from '../utils/typeAnalyzer';
+import { Changes, ImportChange, ImportManager, NameCollision } from '../utils/importManager';
 import { FileManager } from '../utils/fileManager';
 import { TypeFinder } from '../utils/typeFinder';
+import { ReferenceAnalyzer } from '../utils/referenceAnalyzer';
+import { MoveTransaction, MoveTransactionError } from '../utils/moveTransaction';
+import { WorkspaceScanner } from '../utils/workspaceScanner';
+import { ReExportStubMode } from '../utils/reExportStubManager';
+import { CompileError, DiagnosticsChecker, MovedLines } from '../utils/diagnosticsChecker';
 
-export async function moveType() {
+/**
+ * How the destination of a move is chosen
+ * - `prompt`: ask for the destination path
+ * - `newFile`: a new file named after the type, next to the source file, numbered if the name is taken
+ * - `existingFile`: pick one of the workspace's TypeScript files
+ * - `mostUsed`: the file that references the type most often
+ */
+export type MoveDestination = 'prompt' | 'newFile' | 'existingFile' | 'mostUsed';
+
+/**
+ * Arguments of the `typeMover.moveType` command, passed by the refactor code actions
+ */
+export interface MoveTypeOptions {
+    /** The document containing the type, defaults to the active editor's document */
+    uri?: vscode.Uri;
+    /** The range inside the type declaration, defaults to the active editor's selections */
+    range?: vscode.Range;
+    /** How to choose the destination, defaults to `prompt` */
+    destination?: MoveDestination;
+    /** Pick the declarations to move from a list of every declaration in the file */
+    pickDeclarations?: boolean;
+    /** Move exactly the declarations of these names, without asking about their dependencies */
+    declarationNames?: string[];
+    /** The destination file, instead of choosing one as `destination` says */
+    destinationUri?: vscode.Uri;
+}
+
+/**
+ * How a move resolves names that are already taken where it puts the moved declarations
+ * - `rename`: rename the moved declarations everywhere, then move them
+ * - `alias`: import the moved declarations under an alias in the consumers that collide
+ * - `merge`: keep the destination's identical declarations and drop the moved ones
+ */
+type CollisionResolution = 'rename' | 'alias' | 'merge';
+
+/**
+ * Moves the selected declarations to another file and updates every import of them
+ * @returns Whether the declarations were moved, false if the move was cancelled, failed or reverted
+ */
+export async function moveType(options: MoveTypeOptions = {}): Promise<boolean> {
     const editor = vscode.window.activeTextEditor;
-    if (!editor) {
+    if (!options.uri && !editor) {
         vscode.window.showErrorMessage('No active editor');
-        return;
+        return false;
     }
 
-    // Get the selected type
-    const selection = editor.selection;
-    const document = editor.document;
+    // Get the selected types, one or more per selection
+    const document = options.uri
+        ? await vscode.workspace.openTextDocument(options.uri)
+        : editor!.document;
     const typeFinder = new TypeFinder();
-    const selectedType = await typeFinder.findTypeAtSelection(document, selection);
+    let selectedTypes: TypeInfo[];
+    if (options.declarationNames) {
+        const names = options.declarationNames;
+        selectedTypes = (await typeFinder.findAllTypesInDocument(document)).filter(typeInfo => names.includes(typeInfo.name));
+    } else {
+        const selections = options.range
+            ? [new vscode.Selection(options.range.start, options.range.end)]
+            : editor!.selections;
+        selectedTypes = await typeFinder.findTypesAtSelections(document, selections);
+    }
 
-    if (!selectedType) {
+    if (options.pickDeclarations) {
+        const picked = await pickDeclarations(document, typeFinder, selectedTypes);
+        if (!picked) {
+            return false;
+        }
+        selectedTypes = picked;
+    }
+
+    if (selectedTypes.length === 0) {
         vscode.window.showErrorMessage('No type found at cursor position');
-        return;
+        return false;
     }
 
     // Get workspace folder
     const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
     if (!workspaceFolder) {
         vscode.window.showErrorMessage('No workspace folder found');
-        return;
+        return false;
     }
 
-    // Show input box for destination path
-    const defaultPath = path.join(workspaceFolder.uri.fsPath, 'types', `${selectedType.name}.ts`);
-    const destinationPath = await vscode.window.showInputBox({
-        prompt: `Enter the full path for moving type '${selectedType.name}'`,
-        value: defaultPath,
-        validateInput: (value) => {
-            if (!value) {
-                return 'Path cannot be empty';
-            }
-            if (!value.endsWith('.ts') && !value.endsWith('.tsx')) {
-                return 'File must have a .ts or .tsx extension';
-            }
-            return null;
-        }
-    });
-
-    if (!destinationPath) {
-        return;
+    const destinationUri = options.destinationUri ||
+        await pickDestination(options.destination || 'prompt', document, selectedTypes, workspaceFolder);
+    if (!destinationUri) {
+        return false;
     }
 
-    const destinationUri = vscode.Uri.file(destinationPath);
+    const selectedNames = selectedTypes.map(typeInfo => `'${typeInfo.name}'`).join(', ');
 
     try {
         const typeAnalyzer = new TypeAnalyzer();
         const importManager = new ImportManager();
         const fileManager = new FileManager();
 
-        // Analyze dependencies
-        const dependencies = await typeAnalyzer.analyzeDependencies(selectedType);
+        // Analyze dependencies of all selected types and let the user choose which ones move along
+        const dependencies: TypeInfo[] = [];
+        for (const selectedType of selectedTypes) {
+            for (const dependency of await typeAnalyzer.findLocalDependencies(selectedType)) {
+                const isKnown = [...selectedTypes, ...dependencies].some(typeInfo => typeInfo.name === dependency.name);
+                if (!isKnown) {
+                    dependencies.push(dependency);
+                }
+            }
+        }
 
-        // Find all references
-        const references = await vscode.commands.executeCommand<vscode.Location[]>(
-            'vscode.executeReferenceProvider',
-            document.uri,
-            selection.start
-        );
+        let movedDependencies: TypeInfo[] = [];
+        if (dependencies.length > 0 && !options.declarationNames) {
+            const picked = await vscode.window.showQuickPick(
+                dependencies.map(dependency => ({
+                    label: dependency.name,
+                    description: typeAnalyzer.isExported(dependency.node) ? 'exported' : 'not exported',
+                    picked: true,
+                    dependency
+                })),
+                {
+                    canPickMany: true,
+                    title: `Dependencies of ${selectedNames}`,
+                    placeHolder: 'Select the declarations to move along; the others will be imported from the source file'
+                }
+            );
+            if (!picked) {
+                return false;
+            }
+            movedDependencies = picked.map(item => item.dependency);
+        }
 
-        if (!references) {
-            vscode.window.showErrorMessage('Could not find references');
-            return;
+        const movedTypes = [...selectedTypes, ...movedDependencies]
+            .sort((a, b) => a.node.getStart() - b.node.getStart());
+        const importedTypes = [
+            ...dependencies.filter(dependency => !movedDependencies.includes(dependency)),
+            ...await typeAnalyzer.findNamespaceDependencies(movedTypes)
+        ];
+
+        // A module can only have one default export
+        const defaultExports = movedTypes.filter(typeInfo => typeInfo.isDefaultExport);
+        if (defaultExports.length > 1 ||
+            (defaultExports.length === 1 && await typeAnalyzer.hasDefaultExport(destinationUri))) {
+            vscode.window.showErrorMessage(`'${vscode.workspace.asRelativePath(destinationUri)}' can only have one default export`);
+            return false;
+        }
+
+        // Find all references of every moved declaration, including inline `import('./types').User` types
+        const referenceAnalyzer = new ReferenceAnalyzer();
+        const referencesByType = new Map<TypeInfo, vscode.Location[]>();
+        for (const typeInfo of movedTypes) {
+            const namePosition = document.positionAt(getNameNode(typeInfo).getStart());
+            const references = await referenceAnalyzer.findReferences(document.uri, namePosition);
+
+            if (references.length === 0) {
+                vscode.window.showErrorMessage(`Could not find references for '${typeInfo.name}'`);
+                return false;
+            }
+            referencesByType.set(typeInfo, referenceAnalyzer.mergeReferences(
+                references,
+                await referenceAnalyzer.findImportTypeReferences(document.uri, typeInfo)
+            ));
         }
 
-        // Remove the type definition from the source file
-        const edit = new vscode.WorkspaceEdit();
-        edit.delete(
+        // Compose the whole move into a single edit so it applies, and undoes, at once
+        const config = vscode.workspace.getConfiguration('typeMover');
+        const transaction = new MoveTransaction({ preview: config.get<boolean>('previewChanges', true) });
+        const movedNames = movedTypes.map(typeInfo => typeInfo.name).join(', ');
+
+        // Consumers in other workspace packages import the destination through the package name,
+        // which needs the package to export it
+        const importingUris = [document.uri, ...[...referencesByType.values()].flat().map(reference => reference.uri)];
+        const packageExport = importManager.findMissingPackageExport(importingUris, destinationUri);
+        if (packageExport) {
+            const choice = await vscode.window.showWarningMessage(
+                `'${packageExport.package.name}' doesn't export '${vscode.workspace.asRelativePath(destinationUri)}', ` +
+                `so other packages would import it through a path alias or relative path. Add '${packageExport.subpath}' to the package's exports?`,
+                { modal: true },
+                'Add Export',
+                'Continue Without'
+            );
+            if (!choice) {
+                return false;
+            }
+            if (choice === 'Add Export') {
+                await importManager.addPackageExport(
+                    packageExport,
+                    transaction.edit,
+                    transaction.createMetadata('Export the destination from its package', packageExport.package.name)
+                );
+            }
+        }
+
+        // Calculate import changes before touching any file. Changes to the same file
+        // are merged, so consumers get a single `import { A, B, C }` per path.
+        const changes: Changes = {
+            importChanges: await calculateImportChanges(importManager, movedTypes, document, destinationUri, referencesByType),
+            typeContent: ''
+        };
+
+        // Names already taken in the destination or a consumer are resolved before recording any edit
+        let mergedCollisions: NameCollision[] = [];
+        const collisions = await importManager.findNameCollisions(movedTypes, document.uri, destinationUri, changes.importChanges);
+        if (collisions.length > 0) {
+            const resolution = await pickCollisionResolution(collisions, destinationUri);
+            if (!resolution) {
+                return false;
+            }
+            if (resolution === 'rename') {
+                const rename = await renameDeclarations(document, typeFinder, movedTypes, collisions);
+                if (!rename) {
+                    return false;
+                }
+                // The rename changed the references, so the move starts over with the new names. The
+                // rename is undone if the move is cancelled, fails or is reverted.
+                if (!await moveType({ uri: document.uri, declarationNames: rename.names, destinationUri })) {
+                    await rename.rollback();
+                    return false;
+                }
+                return true;
+            }
+            if (resolution === 'alias') {
+                await importManager.aliasCollidingImports(collisions);
+            } else {
+                mergedCollisions = collisions;
+            }
+        }
+        // Merged declarations leave the source file, but the destination keeps its own
+        const placedTypes = movedTypes.filter(typeInfo => !mergedCollisions.some(collision => collision.typeInfo === typeInfo));
+
+        // An existing destination gets the imports of the moved code merged into its own, a new
+        // one starts with them
+        const destinationExists = await fileManager.exists(destinationUri);
+        const destinationImports = destinationExists
+            ? ''
+            : importManager.calculateDestinationImports(placedTypes, importedTypes, document.uri, destinationUri);
+        if (destinationExists) {
+            changes.importChanges.push(...await importManager.calculateDestinationImportChanges(
+                placedTypes,
+                importedTypes,
+                document.uri,
+                destinationUri
+            ));
+        }
+
+        // Declarations the source file imports back must be exported from the destination
+        const remainingNames = typeAnalyzer.getNamesUsedOutside(movedTypes, document.getText());
+        changes.typeContent = [
+            destinationImports,
+            ...placedTypes.map(typeInfo => typeAnalyzer.getDeclarationText(typeInfo, remainingNames.has(typeInfo.name)))
+        ].filter(Boolean).join('\n\n');
+
+        const reExportStubMode = config.get<ReExportStubMode>('reExportStub', 'off');
+        const reExportStub = importManager.calculateReExportStub(movedTypes, document.uri, destinationUri, reExportStubMode);
+        if (reExportStub) {
+            changes.importChanges = withoutBarrelReExports(changes.importChanges);
+        }
+
+        // Import cycles are confirmed before recording any edit, with a new file avoiding them suggested
+        const cycle = await importManager.findImportCycle(
+            changes.importChanges,
             document.uri,
-            new vscode.Range(
-                document.positionAt(selectedType.node.getStart()),
-                document.positionAt(selectedType.node.getEnd())
-            )
+            destinationUri,
+            destinationImports,
+            reExportStub
         );
-        await vscode.workspace.applyEdit(edit);
+        const cycleDescription = cycle?.map(filePath => vscode.workspace.asRelativePath(filePath)).join(' → ');
+        if (cycleDescription) {
+            const leafUri = await findLeafDestination(
+                importManager, fileManager, selectedTypes[0].name, movedTypes, importedTypes, document, referencesByType, reExportStubMode
+            );
+            const moveToLeaf = leafUri && `Move to '${path.basename(leafUri.fsPath)}'`;
+            const choice = await vscode.window.showWarningMessage(
+                `Moving ${selectedNames} would create an import cycle: ${cycleDescription}`,
+                {
+                    modal: true,
+                    detail: 'Modules in a cycle can see each other\'s exports as undefined while they load.' +
+                        (leafUri ? ` A new file '${vscode.workspace.asRelativePath(leafUri)}' avoids the cycle.` : '')
+                },
+                ...(moveToLeaf ? [moveToLeaf, 'Continue'] : ['Continue'])
+            );
+            if (!choice) {
+                return false;
+            }
+            if (choice === moveToLeaf) {
+                return moveType({ uri: document.uri, declarationNames: movedTypes.map(typeInfo => typeInfo.name), destinationUri: leafUri });
+            }
+        }
 
-        // Calculate import changes
-        const changes = await importManager.calculateChanges(
-            selectedType,
+        // Remove the moved declarations from the source file, optionally leaving a re-export in
+        // their place, and export the declarations left behind that the destination imports
+        const sourceMetadata = transaction.createMetadata('Remove moved declarations', movedNames);
+        await fileManager.deleteTypeFromSource(
+            transaction.edit,
             document.uri,
-            destinationUri,
-            references
+            movedTypes.map(typeInfo => typeAnalyzer.getDeclarationRange(typeInfo)),
+            sourceMetadata,
+            reExportStub
         );
+        for (const typeInfo of importedTypes) {
+            if (typeAnalyzer.isExported(typeInfo.node)) continue;
+            // Every overload signature needs the modifier
+            for (const node of typeAnalyzer.getDeclarationNodes(typeInfo)) {
+                transaction.edit.insert(
+                    document.uri,
+                    document.positionAt(typeAnalyzer.getExportPosition(node)),
+                    'export ',
+                    transaction.createMetadata('Export declarations used by the destination', typeInfo.name)
+                );
+            }
+        }
 
-        // Apply changes
-        await fileManager.createDestinationFile(destinationUri, selectedType.node.getText());
-        await importManager.updateImports(changes);
+        // The destination's declarations replacing merged ones get exported like the moved ones were
+        if (mergedCollisions.length > 0) {
+            const destinationDocument = await vscode.workspace.openTextDocument(destinationUri);
+            for (const { typeInfo, existing } of mergedCollisions) {
+                const isImported = typeAnalyzer.isExported(typeInfo.node) || remainingNames.has(typeInfo.name);
+                if (!existing || !isImported || typeAnalyzer.isExported(existing.node)) continue;
+                for (const node of typeAnalyzer.getDeclarationNodes(existing)) {
+                    transaction.edit.insert(
+                        destinationUri,
+                        destinationDocument.positionAt(typeAnalyzer.getExportPosition(node)),
+                        'export ',
+                        transaction.createMetadata('Export merged declarations', existing.name)
+                    );
+                }
+            }
+        }
 
-        // Save all modified documents
-        const modifiedDocuments = new Set([
-            document,
-            await vscode.workspace.openTextDocument(destinationUri),
-            ...(await Promise.all(changes.importChanges.map(change => 
-                vscode.workspace.openTextDocument(change.uri)
-            )))
-        ]);
+        // Imports go first, so new import statements precede declarations inserted at the same line
+        // A confirmed cycle is pointed out in the preview, next to the imports creating it
+        await importManager.addImportEdits(
+            changes,
+            transaction.edit,
+            cycleDescription
+                ? transaction.createWarningMetadata('Update imports, creating an import cycle', cycleDescription)
+                : transaction.createMetadata('Update imports', movedNames)
+        );
+        if (changes.typeContent) {
+            await fileManager.createDestinationFile(
+                transaction.edit,
+                destinationUri,
+                changes.typeContent,
+                transaction.createMetadata('Add moved declarations', vscode.workspace.asRelativePath(destinationUri)),
+                placedTypes
+            );
+        }
 
-        await Promise.all([...modifiedDocuments].map(doc => doc.save()));
+        // The changed files and every consumer, including those the move couldn't update, are
+        // type-checked before and after the move to find the errors it introduces
+        const checkTypes = config.get<boolean>('checkTypesAfterMove', true);
+        const diagnosticsChecker = new DiagnosticsChecker();
+        const checkedUris = [...new Map(
+            [...transaction.getAffectedUris(), ...importingUris].map(uri => [uri.fsPath, uri])
+        ).values()];
+        const checkErrors = () => vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'Type-checking moved declarations' },
+            async () => diagnosticsChecker.collectErrors(checkedUris)
+        );
+        const errorsBefore = checkTypes ? await checkErrors() : [];
+        // Errors inside the moved declarations are expected in the destination afterwards
+        const movedLines: MovedLines[] = placedTypes.map(typeInfo => {
+            const range = typeAnalyzer.getDeclarationRange(typeInfo);
+            return {
+                filePath: document.uri.fsPath,
+                startLine: document.positionAt(range.start).line + 1,
+                endLine: document.positionAt(range.end).line + 1,
+                destinationPath: destinationUri.fsPath
+            };
+        });
 
-        vscode.window.showInformationMessage(`Type '${selectedType.name}' moved successfully`);
+        // Apply and save everything, restoring the workspace if anything fails
+        if (!await transaction.commit()) {
+            vscode.window.showInformationMessage(`Move of ${selectedNames} was cancelled`);
+            return false;
+        }
+
+        const newErrors = checkTypes ? diagnosticsChecker.findNewErrors(errorsBefore, await checkErrors(), movedLines) : [];
+        if (newErrors.length > 0) {
+            const choice = await vscode.window.showWarningMessage(
+                `Moved ${selectedNames}, but the move introduced ${newErrors.length === 1 ? 'a type error' : `${newErrors.length} type errors`}: ` +
+                describeErrors(newErrors),
+                'Revert'
+            );
+            if (choice === 'Revert') {
+                await transaction.rollback();
+                vscode.window.showInformationMessage(`Move of ${selectedNames} was reverted`);
+                return false;
+            }
+            return true;
+        }
+
+        vscode.window.showInformationMessage(
+            selectedTypes.length === 1
+                ? `Type ${selectedNames} moved successfully`
+                : `Types ${selectedNames} moved successfully`
+        );
+        return true;
     } catch (error) {
+        if (error instanceof MoveTransactionError) {
+            vscode.window.showErrorMessage(`Failed to move type, all changes were reverted: ${error.message}`);
+            return false;
+        }
         vscode.window.showErrorMessage(`Failed to move type: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return false;
+    }
+}
+
+/**
+ * Lists every declaration in the file, with the ones under the cursors preselected
+ * @returns The picked declarations, or undefined if the user cancelled
+ */
+async function pickDeclarations(
+    document: vscode.TextDocument,
+    typeFinder: TypeFinder,
+    selectedTypes: TypeInfo[]
+): Promise<TypeInfo[] | undefined> {
+    const declarations = await typeFinder.findAllTypesInDocument(document);
+    if (declarations.length === 0) {
+        vscode.window.showErrorMessage('No declarations found in this file');
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        declarations.map(typeInfo => ({
+            label: typeInfo.name,
+            description: `line ${document.positionAt(typeInfo.node.getStart()).line + 1}`,
+            picked: selectedTypes.some(selected => selected.name === typeInfo.name),
+            typeInfo
+        })),
+        {
+            canPickMany: true,
+            title: 'Move declarations to file',
+            placeHolder: 'Select the declarations to move to one destination'
+        }
+    );
+
+    return picked?.map(item => item.typeInfo);
+}
+
+/**
+ * Lists errors grouped by file, e.g. `src/app.ts: line 3 Cannot find name 'User'.; src/api.ts: ...`.
+ * Only the first few are listed, as notifications don't fit more.
+ */
+function describeErrors(errors: CompileError[]): string {
+    const maxErrors = 5;
+    const errorsByFile = new Map<string, CompileError[]>();
+    for (const error of errors.slice(0, maxErrors)) {
+        errorsByFile.set(error.filePath, [...(errorsByFile.get(error.filePath) || []), error]);
+    }
+
+    const description = [...errorsByFile].map(([filePath, fileErrors]) =>
+        `${vscode.workspace.asRelativePath(filePath)}: ${fileErrors.map(error => `line ${error.line} ${error.message}`).join(', ')}`
+    ).join('; ');
+    return errors.length > maxErrors ? `${description}; and ${errors.length - maxErrors} more` : description;
+}
+
+/**
+ * Calculates the import changes of moving declarations to a destination: consumers importing them
+ * from there, the source file importing back what it still uses, and the source file's imports
+ * only the moved declarations used being removed
+ */
+async function calculateImportChanges(
+    importManager: ImportManager,
+    movedTypes: TypeInfo[],
+    document: vscode.TextDocument,
+    destinationUri: vscode.Uri,
+    referencesByType: Map<TypeInfo, vscode.Location[]>
+): Promise<ImportChange[]> {
+    const importChanges: ImportChange[] = [];
+    for (const typeInfo of movedTypes) {
+        const typeChanges = await importManager.calculateChanges(
+            typeInfo,
+            document.uri,
+            destinationUri,
+            referencesByType.get(typeInfo) || [],
+            movedTypes
+        );
+        importChanges.push(...typeChanges.importChanges);
+    }
+    importChanges.push(...await importManager.calculateSourceImportRemovals(movedTypes, document.uri));
+    return importChanges;
+}
+
+/**
+ * Finds a new file next to the source file, named after the moved declaration, that the
+ * declarations can move to without creating an import cycle
+ * @returns The file's URI, numbered if the name is taken, or undefined if the move would create a cycle as well
+ */
+async function findLeafDestination(
+    importManager: ImportManager,
+    fileManager: FileManager,
+    name: string,
+    movedTypes: TypeInfo[],
+    importedTypes: TypeInfo[],
+    document: vscode.TextDocument,
+    referencesByType: Map<TypeInfo, vscode.Location[]>,
+    reExportStubMode: ReExportStubMode
+): Promise<vscode.Uri | undefined> {
+    const leafUri = await fileManager.getNewFileUri(document.uri, name);
+    const reExportStub = importManager.calculateReExportStub(movedTypes, document.uri, leafUri, reExportStubMode);
+    const importChanges = await calculateImportChanges(importManager, movedTypes, document, leafUri, referencesByType);
+    const cycle = await importManager.findImportCycle(
+        reExportStub ? withoutBarrelReExports(importChanges) : importChanges,
+        document.uri,
+        leafUri,
+        importManager.calculateDestinationImports(movedTypes, importedTypes, document.uri, leafUri),
+        reExportStub
+    );
+    return cycle ? undefined : leafUri;
+}
+
+/**
+ * Drops the explicit re-exports of the destination added to barrels with `export *` of the source
+ * file. A re-export stub keeps those barrels exposing the moved declarations through the source file.
+ */
+function withoutBarrelReExports(importChanges: ImportChange[]): ImportChange[] {
+    return importChanges.filter(change => !change.isReExport || change.oldImportPath !== '');
+}
+
+/**
+ * Explains the name collisions of a move and asks how to resolve them. Aliasing only applies to
+ * consumers, and merging only to declarations the destination already has in the same shape.
+ * @returns The resolution, or undefined if the user aborted the move
+ */
+async function pickCollisionResolution(
+    collisions: NameCollision[],
+    destinationUri: vscode.Uri
+): Promise<CollisionResolution | undefined> {
+    const destination = vscode.workspace.asRelativePath(destinationUri);
+    const details = collisions.map(({ typeInfo, uri, existing, isIdentical, change }) => {
+        if (change) {
+            return `'${typeInfo.name}' is already declared or imported in '${vscode.workspace.asRelativePath(uri)}'`;
+        }
+        if (existing) {
+            return `'${destination}' already declares ${isIdentical ? 'an identical' : 'a different'} '${typeInfo.name}'`;
+        }
+        return `'${destination}' already imports a different '${typeInfo.name}'`;
+    });
+
+    const choices = new Map<string, CollisionResolution>([['Rename', 'rename']]);
+    if (collisions.every(collision => collision.change)) {
+        choices.set('Alias Imports', 'alias');
+    } else if (collisions.every(collision => collision.isIdentical)) {
+        choices.set('Merge Identical', 'merge');
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+        'The moved declarations would clash with names already in use',
+        { modal: true, detail: details.join('\n') },
+        ...choices.keys()
+    );
+    return choice ? choices.get(choice) : undefined;
+}
+
+/**
+ * Asks for new names of the colliding declarations and renames them, and every reference to them,
+ * with the language's rename provider. Each rename is applied as a transaction of its own, since
+ * the next one is looked up in the renamed document.
+ * @returns The names of the moved declarations after renaming, with a function undoing the renames,
+ *          or undefined if the user cancelled or a rename failed, which undoes those applied already
+ */
+async function renameDeclarations(
+    document: vscode.TextDocument,
+    typeFinder: TypeFinder,
+    movedTypes: TypeInfo[],
+    collisions: NameCollision[]
+): Promise<{ names: string[]; rollback: () => Promise<void> } | undefined> {
+    const names = movedTypes.map(typeInfo => typeInfo.name);
+    const transactions: MoveTransaction[] = [];
+    const rollback = async () => {
+        for (const transaction of [...transactions].reverse()) {
+            await transaction.rollback();
+        }
+    };
+    for (const name of new Set(collisions.map(collision => collision.typeInfo.name))) {
+        const newName = await vscode.window.showInputBox({
+            title: `Rename '${name}'`,
+            prompt: 'The new name, applied to the declaration and everything referencing it',
+            value: name,
+            validateInput: value => {
+                if (!/^[A-Za-z_$][\w$]*$/.test(value)) return 'Enter a valid identifier';
+                if (value === name) return 'Enter a new name';
+                if (names.includes(value)) return `'${value}' is already moved`;
+                return undefined;
+            }
+        });
+        if (!newName) {
+            await rollback();
+            return undefined;
+        }
+
+        // Earlier renames shift the declarations, so they are looked up again
+        const typeInfo = (await typeFinder.findAllTypesInDocument(document)).find(declaration => declaration.name === name);
+        const edit = typeInfo && await vscode.commands.executeCommand<vscode.WorkspaceEdit>(
+            'vscode.executeDocumentRenameProvider',
+            document.uri,
+            document.positionAt(getNameNode(typeInfo).getStart()),
+            newName
+        );
+        const transaction = new MoveTransaction();
+        for (const [uri, textEdits] of edit?.entries() || []) {
+            textEdits.forEach(textEdit => transaction.edit.replace(uri, textEdit.range, textEdit.newText));
+        }
+        // A failed commit restores the files of its own rename
+        const renamed = transaction.getAffectedUris().length > 0 && await transaction.commit().catch(() => false);
+        if (!renamed) {
+            await rollback();
+            vscode.window.showErrorMessage(`Could not rename '${name}'`);
+            return undefined;
+        }
+        transactions.push(transaction);
+        names[names.indexOf(name)] = newName;
+    }
+    return { names, rollback };
+}
+
+/**
+ * Returns the identifier naming a declaration, used as the position for reference lookups
+ */
+function getNameNode(typeInfo: TypeInfo): ts.Node {
+    const node = typeInfo.node as ts.Node & { name?: ts.Node };
+    return node.name || node;
+}
+
+/**
+ * Determines the destination file of a move
+ * @returns The destination URI, or undefined if the user cancelled or none could be determined
+ */
+async function pickDestination(
+    destination: MoveDestination,
+    document: vscode.TextDocument,
+    selectedTypes: TypeInfo[],
+    workspaceFolder: vscode.WorkspaceFolder
+): Promise<vscode.Uri | undefined> {
+    switch (destination) {
+        case 'newFile':
+            return new FileManager().getNewFileUri(document.uri, selectedTypes[0].name);
+        case 'existingFile':
+            return pickExistingFile(document);
+        case 'mostUsed':
+            return findMostUsedFile(document, selectedTypes);
+        default:
+            return promptForDestination(selectedTypes, workspaceFolder);
+    }
+}
+
+/**
+ * Asks for the full path of the destination file
+ */
+async function promptForDestination(
+    selectedTypes: TypeInfo[],
+    workspaceFolder: vscode.WorkspaceFolder
+): Promise<vscode.Uri | undefined> {
+    const defaultPath = path.join(workspaceFolder.uri.fsPath, 'types', `${selectedTypes[0].name}.ts`);
+    const destinationPath = await vscode.window.showInputBox({
+        prompt: selectedTypes.length === 1
+            ? `Enter the full path for moving type '${selectedTypes[0].name}'`
+            : `Enter the full path for moving ${selectedTypes.length} types`,
+        value: defaultPath,
+        validateInput: (value) => {
+            if (!value) {
+                return 'Path cannot be empty';
+            }
+            if (!value.endsWith('.ts') && !value.endsWith('.tsx')) {
+                return 'File must have a .ts or .tsx extension';
+            }
+            return null;
+        }
+    });
+
+    return destinationPath ? vscode.Uri.file(destinationPath) : undefined;
+}
+
+/**
+ * Lets the user pick one of the workspace's TypeScript files, skipping ignored folders
+ */
+async function pickExistingFile(document: vscode.TextDocument): Promise<vscode.Uri | undefined> {
+    const files = await new WorkspaceScanner().findFiles('**/*.{ts,tsx}');
+    const picked = await vscode.window.showQuickPick(
+        files
+            .filter(uri => uri.fsPath !== document.uri.fsPath && !uri.fsPath.endsWith('.d.ts'))
+            .map(uri => ({ label: vscode.workspace.asRelativePath(uri), uri }))
+            .sort((a, b) => a.label.localeCompare(b.label)),
+        { placeHolder: 'Select the file to move the type to', matchOnDescription: true }
+    );
+
+    return picked?.uri;
+}
+
+/**
+ * Finds the TypeScript file, other than the source file, that references the types most often
+ */
+async function findMostUsedFile(document: vscode.TextDocument, selectedTypes: TypeInfo[]): Promise<vscode.Uri | undefined> {
+    const referenceAnalyzer = new ReferenceAnalyzer();
+    const references: vscode.Location[] = [];
+    for (const selectedType of selectedTypes) {
+        references.push(...await referenceAnalyzer.findReferences(
+            document.uri,
+            document.positionAt(getNameNode(selectedType).getStart())
+        ));
+    }
+
+    const counts = new Map<string, { uri: vscode.Uri; count: number }>();
+    for (const reference of references) {
+        if (reference.uri.fsPath === document.uri.fsPath) continue;
+        if (!/\.tsx?$/.test(reference.uri.fsPath) || reference.uri.fsPath.endsWith('.d.ts')) continue;
+        const entry = counts.get(reference.uri.fsPath) || { uri: reference.uri, count: 0 };
+        entry.count++;
+        counts.set(reference.uri.fsPath, entry);
+    }
+
+    const mostUsed = [...counts.values()].sort((a, b) => b.count - a.count)[0];
+    if (!mostUsed) {
+        const names = selectedTypes.map(typeInfo => `'${typeInfo.name}'`).join(', ');
+        vscode.window.showInformationMessage(`No references to ${names} were found outside of the source file`);
+        return undefined;
     }
+    return mostUsed.uri;
 }
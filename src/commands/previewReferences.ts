@@ -22,7 +22,10 @@ export async function previewReferences() {
 
     try {
         const referenceAnalyzer = new ReferenceAnalyzer();
-        const references = await referenceAnalyzer.findReferences(document.uri, selection.start);
+        const references = referenceAnalyzer.mergeReferences(
+            await referenceAnalyzer.findReferences(document.uri, selection.start),
+            await referenceAnalyzer.findImportTypeReferences(document.uri, selectedType)
+        );
 
         if (!references || references.length === 0) {
             vscode.window.showInformationMessage('No references found');
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { ReExportStubManager } from '../utils/reExportStubManager';
+import { MoveTransaction, MoveTransactionError } from '../utils/moveTransaction';
+
+/**
+ * Removes the re-export stubs left behind by moves, or the names of them, that no workspace file
+ * imports through anymore. Stubs still in use are kept and reported.
+ */
+export async function removeReExportStubs() {
+    try {
+        const stubManager = new ReExportStubManager();
+        const stubs = await stubManager.findStubs();
+        if (stubs.length === 0) {
+            vscode.window.showInformationMessage('No re-export stubs found');
+            return;
+        }
+
+        const unusedStubs = stubs.filter(stub => stub.unusedNames.length > 0);
+        const keptCount = stubs.length - unusedStubs.length;
+        // Stubs whose file is used as a whole can't tell which names are still needed
+        const wholeModuleUsers = [...new Set(stubs.flatMap(stub => stub.wholeModuleUsers)
+            .map(uri => `'${vscode.workspace.asRelativePath(uri)}'`))];
+        const wholeModuleNote = wholeModuleUsers.length > 0
+            ? ` (some in use via ${wholeModuleUsers.join(', ')}, which use every name)`
+            : '';
+        if (unusedStubs.length === 0) {
+            vscode.window.showInformationMessage(`All ${stubs.length} re-export stubs are still imported in the workspace${wholeModuleNote}`);
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('typeMover');
+        const transaction = new MoveTransaction({ preview: config.get<boolean>('previewChanges', true) });
+        const removedNames = unusedStubs.flatMap(stub => stub.unusedNames).join(', ');
+        await stubManager.addRemovalEdits(
+            unusedStubs,
+            transaction.edit,
+            transaction.createMetadata('Remove re-export stubs', removedNames)
+        );
+
+        if (!await transaction.commit()) {
+            vscode.window.showInformationMessage('Removal of re-export stubs was cancelled');
+            return;
+        }
+
+        vscode.window.showInformationMessage(
+            keptCount > 0
+                ? `Removed re-exports of ${removedNames}, ${keptCount} stubs are still imported and were kept${wholeModuleNote}`
+                : `Removed re-exports of ${removedNames}`
+        );
+    } catch (error) {
+        if (error instanceof MoveTransactionError) {
+            vscode.window.showErrorMessage(`Failed to remove re-export stubs, all changes were reverted: ${error.message}`);
+            return;
+        }
+        vscode.window.showErrorMessage(`Failed to remove re-export stubs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
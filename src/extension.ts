@@ -1,19 +1,34 @@
 import * as vscode from 'vscode';
-import { moveType } from './commands/moveType';
+import { moveType, MoveTypeOptions } from './commands/moveType';
 import { previewReferences } from './commands/previewReferences';
+import { removeReExportStubs } from './commands/removeReExportStubs';
+import { MoveTypeCodeActionProvider } from './providers/moveTypeCodeActionProvider';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('TypeScript Type Mover is now active');
 
     // Register commands
     context.subscriptions.push(
-        vscode.commands.registerCommand('typeMover.moveType', async () => {
+        vscode.commands.registerCommand('typeMover.moveType', async (options?: MoveTypeOptions | vscode.Uri) => {
+            // The editor context menu passes the document's URI, code actions pass MoveTypeOptions
+            const moveOptions = options instanceof vscode.Uri ? undefined : options;
+            const editor = vscode.window.activeTextEditor;
+            if (!editor && !moveOptions?.uri) {
+                vscode.window.showErrorMessage('No active editor');
+                return;
+            }
+            await moveType(moveOptions);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('typeMover.moveDeclarations', async () => {
             const editor = vscode.window.activeTextEditor;
             if (!editor) {
                 vscode.window.showErrorMessage('No active editor');
                 return;
             }
-            await moveType();
+            await moveType({ pickDeclarations: true });
         })
     );
 
@@ -27,6 +42,25 @@ export function activate(context: vscode.ExtensionContext) {
             await previewReferences();
         })
     );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('typeMover.removeReExportStubs', async () => {
+            await removeReExportStubs();
+        })
+    );
+
+    // Register refactor code actions
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            [
+                { language: 'typescript' },
+                { language: 'typescriptreact' },
+                { language: 'vue' }
+            ],
+            new MoveTypeCodeActionProvider(),
+            { providedCodeActionKinds: MoveTypeCodeActionProvider.providedCodeActionKinds }
+        )
+    );
 }
 
 export function deactivate() {}
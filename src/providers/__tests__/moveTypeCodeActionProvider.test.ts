@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMemoryVscode, memoryWorkspace } from '../../utils/__tests__/test-utils';
+
+vi.mock('vscode', () => {
+    class CodeActionKind {
+        static readonly Refactor = new CodeActionKind('refactor');
+        static readonly RefactorMove = new CodeActionKind('refactor.move');
+        static readonly QuickFix = new CodeActionKind('quickfix');
+
+        constructor(public value: string) {}
+
+        intersects(other: CodeActionKind) {
+            return `${this.value}.`.startsWith(`${other.value}.`) || `${other.value}.`.startsWith(`${this.value}.`);
+        }
+    }
+
+    return {
+        ...createMemoryVscode(),
+        CodeActionKind,
+        CodeAction: class {
+            command?: unknown;
+            constructor(public title: string, public kind: CodeActionKind) {}
+        }
+    };
+});
+
+import * as vscode from 'vscode';
+import { MoveTypeCodeActionProvider } from '../moveTypeCodeActionProvider';
+
+describe('MoveTypeCodeActionProvider', () => {
+    const typesUri = vscode.Uri.file('/project/src/types.ts');
+    const typesFile = 'import { Id } from \'./id\';\n\nexport interface User { id: Id }\n';
+
+    /** Asks for the code actions at an offset of types.ts */
+    const provideAt = async (offset: number, only?: vscode.CodeActionKind) => {
+        const document = await vscode.workspace.openTextDocument(typesUri);
+        const position = document.positionAt(offset);
+        return new MoveTypeCodeActionProvider().provideCodeActions(
+            document,
+            new vscode.Range(position, position),
+            { only, diagnostics: [], triggerKind: 1 } as vscode.CodeActionContext
+        );
+    };
+
+    beforeEach(() => {
+        memoryWorkspace.reset({ '/project/src/types.ts': typesFile });
+    });
+
+    it('should offer every move of the declaration under the cursor', async () => {
+        const actions = await provideAt(typesFile.indexOf('User'));
+
+        expect(actions.map(action => action.title)).toEqual([
+            'Move to new file \'User.ts\'',
+            'Move to existing file...',
+            'Move to the file it is most used from'
+        ]);
+        expect(actions.map(action => action.command?.arguments?.[0].destination)).toEqual(['newFile', 'existingFile', 'mostUsed']);
+        expect(actions[0].command).toMatchObject({
+            command: 'typeMover.moveType',
+            arguments: [{ uri: typesUri, destinationUri: vscode.Uri.file('/project/src/User.ts') }]
+        });
+    });
+
+    it('should number the new file if a file of the declaration\'s name exists', async () => {
+        memoryWorkspace.files.set('/project/src/User.ts', 'export const user = {};\n');
+        memoryWorkspace.files.set('/project/src/User2.ts', 'export const user2 = {};\n');
+
+        const [newFileAction] = await provideAt(typesFile.indexOf('User'));
+
+        expect(newFileAction.title).toBe('Move to new file \'User3.ts\'');
+        expect(newFileAction.command?.arguments?.[0].destinationUri.fsPath).toBe('/project/src/User3.ts');
+    });
+
+    it('should offer nothing outside of a declaration', async () => {
+        expect(await provideAt(typesFile.indexOf('\n\n') + 1)).toEqual([]);
+    });
+
+    it('should offer nothing when other kinds of code actions are requested', async () => {
+        expect(await provideAt(typesFile.indexOf('User'), vscode.CodeActionKind.QuickFix)).toEqual([]);
+        expect(await provideAt(typesFile.indexOf('User'), vscode.CodeActionKind.Refactor)).toHaveLength(3);
+    });
+});
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TypeFinder } from '../utils/typeFinder';
+import { FileManager } from '../utils/fileManager';
+import { MoveDestination, MoveTypeOptions } from '../commands/moveType';
+
+/**
+ * Offers "Move to file" refactorings for the declaration under the cursor, so moves show up in
+ * the lightbulb menu and the "Refactor..." picker like the built-in refactorings do.
+ *
+ * Each action runs the `typeMover.moveType` command with the destination mode preselected:
+ * - Move to new file `<Name>.ts`, numbered as `<Name>2.ts` if the file exists
+ * - Move to existing file...
+ * - Move to the file it is most used from
+ */
+export class MoveTypeCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.RefactorMove];
+
+    private typeFinder = new TypeFinder();
+    private fileManager = new FileManager();
+
+    public async provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): Promise<vscode.CodeAction[]> {
+        if (context.only && !context.only.intersects(vscode.CodeActionKind.RefactorMove)) {
+            return [];
+        }
+
+        const selection = new vscode.Selection(range.start, range.end);
+        const typeInfo = await this.typeFinder.findTypeAtSelection(document, selection);
+        if (!typeInfo) {
+            return [];
+        }
+
+        // The action names the file it creates, so it is picked here rather than when the move runs
+        const newFileUri = await this.fileManager.getNewFileUri(document.uri, typeInfo.name);
+        return [
+            this.createAction(`Move to new file '${path.basename(newFileUri.fsPath)}'`, 'newFile', document, range, newFileUri),
+            this.createAction('Move to existing file...', 'existingFile', document, range),
+            this.createAction('Move to the file it is most used from', 'mostUsed', document, range)
+        ];
+    }
+
+    private createAction(
+        title: string,
+        destination: MoveDestination,
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        destinationUri?: vscode.Uri
+    ): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.RefactorMove);
+        const options: MoveTypeOptions = { uri: document.uri, range, destination, destinationUri };
+        action.command = {
+            command: 'typeMover.moveType',
+            title,
+            arguments: [options]
+        };
+        return action;
+    }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as ts from 'typescript';
+
+let documents: Record<string, string> = {};
+
+vi.mock('vscode', () => ({
+    workspace: {
+        get textDocuments() {
+            return Object.entries(documents).map(([fsPath, text]) => ({ uri: { fsPath }, getText: () => text }));
+        }
+    }
+}));
+
+// Check every file without a project, with the default compiler options
+vi.mock('../projectResolver', () => ({
+    ProjectResolver: vi.fn().mockImplementation(() => ({
+        getConfigPath: () => undefined,
+        getCompilerOptions: () => ({})
+    }))
+}));
+
+import { DiagnosticsChecker } from '../diagnosticsChecker';
+
+describe('DiagnosticsChecker', () => {
+    let checker: DiagnosticsChecker;
+    const uri = (fsPath: string) => ({ fsPath }) as any;
+    const { fileExists, directoryExists } = ts.sys;
+
+    beforeEach(() => {
+        documents = {
+            '/project/src/types.ts': 'export interface User { id: string }\n',
+            '/project/src/app.ts': 'import { User } from \'./types\';\nconst user: User = { id: 1 };\n'
+        };
+        vi.spyOn(ts.sys, 'fileExists').mockImplementation(filePath => filePath in documents || fileExists(filePath));
+        vi.spyOn(ts.sys, 'directoryExists').mockImplementation(dirPath => dirPath.startsWith('/project') || directoryExists(dirPath));
+        checker = new DiagnosticsChecker();
+    });
+
+    it('should report the errors of open documents with their line', async () => {
+        const errors = await checker.collectErrors([uri('/project/src/app.ts'), uri('/project/src/app.vue')]);
+
+        expect(errors).toEqual([expect.objectContaining({
+            filePath: '/project/src/app.ts',
+            line: 2,
+            code: 2322,
+            message: 'Type \'number\' is not assignable to type \'string\'.'
+        })]);
+    });
+
+    it('should only report the errors a change introduced', async () => {
+        const uris = [uri('/project/src/types.ts'), uri('/project/src/app.ts'), uri('/project/src/models.ts')];
+        const before = await checker.collectErrors(uris);
+
+        documents['/project/src/models.ts'] = 'export interface User { id: string }\n';
+        documents['/project/src/types.ts'] = '\n';
+        documents['/project/src/app.ts'] = 'import { User } from \'./models\';\nimport { Order } from \'./types\';\nconst user: User = { id: 1 };\n';
+        const newErrors = checker.findNewErrors(before, await checker.collectErrors(uris));
+
+        expect(newErrors.map(error => [error.filePath, error.line, error.code])).toEqual([['/project/src/app.ts', 2, 2306]]);
+    });
+
+    it('should report an error another file already had', async () => {
+        documents['/project/src/api.ts'] = 'export const user: User = { id: \'1\' };\n';
+        const uris = [uri('/project/src/types.ts'), uri('/project/src/app.ts'), uri('/project/src/api.ts')];
+        const before = await checker.collectErrors(uris);
+
+        documents['/project/src/types.ts'] = '\n';
+        documents['/project/src/app.ts'] = 'const user: User = { id: \'1\' };\n';
+        const newErrors = checker.findNewErrors(before, await checker.collectErrors(uris));
+
+        expect(newErrors.map(error => [error.filePath, error.code])).toEqual([['/project/src/app.ts', 2304]]);
+    });
+
+    it('should expect the errors of moved lines in their destination', async () => {
+        documents['/project/src/types.ts'] = 'export interface User { id: string }\nexport const admin: User = { id: 1 };\n';
+        const uris = [uri('/project/src/types.ts'), uri('/project/src/models.ts')];
+        const before = await checker.collectErrors(uris);
+
+        documents['/project/src/types.ts'] = 'export interface User { id: string }\n';
+        documents['/project/src/models.ts'] = 'import { User } from \'./types\';\n\nexport const admin: User = { id: 1 };\n';
+        const after = await checker.collectErrors(uris);
+        const movedLines = [{ filePath: '/project/src/types.ts', startLine: 2, endLine: 2, destinationPath: '/project/src/models.ts' }];
+
+        expect(checker.findNewErrors(before, after, movedLines)).toEqual([]);
+        expect(checker.findNewErrors(before, after).map(error => [error.filePath, error.line, error.code]))
+            .toEqual([['/project/src/models.ts', 3, 2322]]);
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMemoryVscode, memoryWorkspace } from './test-utils';
+
+vi.mock('vscode', () => createMemoryVscode());
+
+import * as vscode from 'vscode';
+import { FileManager } from '../fileManager';
+
+describe('FileManager', () => {
+    let fileManager: FileManager;
+    const modelsUri = vscode.Uri.file('/project/src/models.ts');
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        memoryWorkspace.reset({ '/project/src/types.ts': 'export interface User { id: string }\n' });
+        fileManager = new FileManager();
+    });
+
+    describe('createDestinationFile', () => {
+        it('should create a new destination without overwriting', async () => {
+            const edit = new vscode.WorkspaceEdit();
+
+            await fileManager.createDestinationFile(edit, modelsUri, 'export interface User { id: string }\n');
+
+            expect((edit as any).operations[0]).toMatchObject({ kind: 'create', options: { overwrite: false } });
+            memoryWorkspace.applyEdit(edit as any);
+            expect(memoryWorkspace.getText('/project/src/models.ts')).toBe('export interface User { id: string }\n');
+        });
+
+        it('should record every operation with the metadata of the refactor preview', async () => {
+            const metadata = { label: 'Move User', needsConfirmation: true };
+            const edit = new vscode.WorkspaceEdit();
+
+            await fileManager.createDestinationFile(edit, modelsUri, 'export interface User { id: string }\n', metadata);
+            memoryWorkspace.files.set('/project/src/models.ts', 'export interface Order {}\n');
+            await fileManager.createDestinationFile(edit, modelsUri, 'export interface Account {}\n', metadata);
+
+            expect((edit as any).operations.map((operation: { metadata: unknown }) => operation.metadata)).toEqual([metadata, metadata, metadata]);
+        });
+
+        it('should append to an existing destination, keeping its content', async () => {
+            memoryWorkspace.files.set('/project/src/models.ts', 'export interface Order {}\n');
+            const edit = new vscode.WorkspaceEdit();
+
+            await fileManager.createDestinationFile(edit, modelsUri, 'export interface User { id: string }');
+
+            expect((edit as any).operations.map((operation: { kind: string }) => operation.kind)).toEqual(['text']);
+            memoryWorkspace.applyEdit(edit as any);
+            expect(memoryWorkspace.getText('/project/src/models.ts')).toBe(
+                'export interface Order {}\n\nexport interface User { id: string }\n'
+            );
+        });
+
+        it('should throw rather than overwrite an existing destination it can\'t place the content in', async () => {
+            memoryWorkspace.files.set('/project/src/models.ts', 'export interface Order {}\n');
+            vi.spyOn(memoryWorkspace, 'openTextDocument').mockImplementation(() => {
+                throw new Error('File is too large');
+            });
+            const edit = new vscode.WorkspaceEdit();
+
+            await expect(fileManager.createDestinationFile(edit, modelsUri, 'export interface User {}\n')).rejects.toThrow('File is too large');
+            expect((edit as any).operations).toEqual([]);
+        });
+    });
+});
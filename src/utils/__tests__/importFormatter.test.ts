@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ImportFormatter } from '../importFormatter';
+import * as ts from 'typescript';
+
+describe('ImportFormatter', () => {
+    let formatter: ImportFormatter;
+    let configFiles: Record<string, string>;
+
+    const parse = (text: string, fileName: string = '/project/src/app.ts') =>
+        ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+
+    beforeEach(() => {
+        configFiles = {};
+        vi.spyOn(ts.sys, 'fileExists').mockImplementation((filePath: string) => filePath in configFiles);
+        vi.spyOn(ts.sys, 'readFile').mockImplementation((filePath: string) => configFiles[filePath]);
+        formatter = new ImportFormatter();
+    });
+
+    describe('getFormat', () => {
+        it('should detect the format of the existing imports', () => {
+            const format = formatter.getFormat(parse([
+                'import {',
+                '\tOrder,',
+                '\tUser,',
+                '} from \'./models\'',
+                'import {Api} from \'./api\'',
+                ''
+            ].join('\n')));
+
+            expect(format).toEqual({
+                quote: '\'',
+                semicolon: false,
+                bracketSpacing: false,
+                sortSpecifiers: true,
+                indent: '\t',
+                trailingComma: true,
+                printWidth: 80
+            });
+        });
+
+        it('should detect unsorted specifiers', () => {
+            const format = formatter.getFormat(parse('import { User, Order } from "./models";\n'));
+            expect(format.sortSpecifiers).toBe(false);
+        });
+
+        it('should read a Prettier config for files without imports', () => {
+            configFiles['/project/.prettierrc'] = 'singleQuote: true\nsemi: false\nprintWidth: 100 # wide\n';
+
+            const format = formatter.getFormat(parse('export interface User {}\n'));
+
+            expect(format.quote).toBe('\'');
+            expect(format.semicolon).toBe(false);
+            expect(format.printWidth).toBe(100);
+            expect(format.trailingComma).toBe(true);
+        });
+
+        it('should read the prettier field of package.json', () => {
+            configFiles['/project/package.json'] = JSON.stringify({ name: 'app', prettier: { tabWidth: 4, trailingComma: 'none' } });
+
+            const format = formatter.getFormat(parse('export interface User {}\n'));
+
+            expect(format.indent).toBe('    ');
+            expect(format.trailingComma).toBe(false);
+        });
+
+        it('should read an .editorconfig for TypeScript files', () => {
+            configFiles['/project/.editorconfig'] = [
+                'root = true',
+                '[*.md]',
+                'max_line_length = off',
+                '[*.{js,ts}]',
+                'indent_style = tab',
+                'max_line_length = 120',
+                'quote_type = single'
+            ].join('\n');
+
+            const format = formatter.getFormat(parse('export interface User {}\n'));
+
+            expect(format.indent).toBe('\t');
+            expect(format.printWidth).toBe(120);
+            expect(format.quote).toBe('\'');
+        });
+
+        it('should prefer the file over config files', () => {
+            configFiles['/project/.prettierrc.json'] = JSON.stringify({ singleQuote: true });
+
+            const format = formatter.getFormat(parse('import { User } from "./models";\n'));
+
+            expect(format.quote).toBe('"');
+        });
+    });
+
+    describe('formatDeclaration', () => {
+        const format = {
+            quote: '\'' as const,
+            semicolon: false,
+            bracketSpacing: true,
+            sortSpecifiers: true,
+            indent: '  ',
+            trailingComma: true,
+            printWidth: 45
+        };
+
+        it('should write a declaration in the format', () => {
+            expect(formatter.formatDeclaration('import', true, undefined, ['User', 'Order'], './models', format))
+                .toBe('import type { Order, User } from \'./models\'');
+            expect(formatter.formatDeclaration('export', false, undefined, ['User', 'Order'], './models', { ...format, sortSpecifiers: false }))
+                .toBe('export { User, Order } from \'./models\'');
+            expect(formatter.formatDeclaration('import', false, 'Api', [], './api', format))
+                .toBe('import Api from \'./api\'');
+            expect(formatter.formatDeclaration('import', false, undefined, '* as Models', './models', format))
+                .toBe('import * as Models from \'./models\'');
+        });
+
+        it('should wrap declarations longer than the print width', () => {
+            expect(formatter.formatDeclaration('import', false, undefined, ['Customer', 'Order', 'User'], './models', format))
+                .toBe('import {\n  Customer,\n  Order,\n  User,\n} from \'./models\'');
+        });
+    });
+
+    describe('rewriteDeclaration', () => {
+        const format = {
+            quote: '"' as const,
+            semicolon: true,
+            bracketSpacing: true,
+            sortSpecifiers: true,
+            indent: '    ',
+            trailingComma: false,
+            printWidth: Infinity
+        };
+
+        it('should keep the layout of a multi-line declaration', () => {
+            const declaration = 'import type {\n\tOrder,\n\tUser,\n} from \'./models\'';
+
+            expect(formatter.rewriteDeclaration(declaration, 'import', true, undefined, ['Customer', 'Order', 'User'], format))
+                .toBe('import type {\n\tCustomer,\n\tOrder,\n\tUser,\n} from \'./models\'');
+        });
+
+        it('should keep the spacing, quotes and semicolon of a single-line declaration', () => {
+            expect(formatter.rewriteDeclaration('export {Order, User} from \'./models\'', 'export', false, undefined, ['Order'], format))
+                .toBe('export {Order} from \'./models\'');
+        });
+
+        it('should add and remove braces next to a default import', () => {
+            expect(formatter.rewriteDeclaration('import Api from \'./api\'', 'import', false, 'Api', ['fetchUser'], format))
+                .toBe('import Api, { fetchUser } from \'./api\'');
+            expect(formatter.rewriteDeclaration('import Api, { fetchUser } from \'./api\';', 'import', false, 'Api', [], format))
+                .toBe('import Api from \'./api\';');
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as path from 'path';
+
+let files: Record<string, string> = {};
+
+vi.mock('vscode', () => ({}));
+
+vi.mock('../workspaceScanner', () => ({
+    WorkspaceScanner: vi.fn().mockImplementation(() => ({
+        findFiles: async () => Object.keys(files).map(fsPath => ({ fsPath })),
+        readFile: async (uri: { fsPath: string }) => files[uri.fsPath]
+    }))
+}));
+
+// Resolve `@/` to /src, which is the only alias these tests use
+vi.mock('../projectResolver', () => ({
+    ProjectResolver: vi.fn().mockImplementation(() => ({
+        getPathResolver: () => ({
+            isImportPathFor: (importPath: string, _fromPath: string, targetPath: string) =>
+                path.join('/src', importPath.replace(/^@\//, '')) === targetPath.replace(/\.ts$/, '')
+        })
+    }))
+}));
+
+// Only packages/shared is a workspace package, whose index the other files import by its name
+vi.mock('../packageResolver', () => ({
+    PackageResolver: vi.fn().mockImplementation(() => ({
+        findPackage: (filePath: string) => filePath.startsWith('/packages/shared/') ? { name: '@acme/shared' } : undefined,
+        getPackageSpecifier: (_fromPath: string, toPath: string) => toPath === '/packages/shared/src/index.ts'
+            ? { specifier: '@acme/shared' }
+            : undefined
+    }))
+}));
+
+import { ImportGraph } from '../importGraph';
+
+describe('ImportGraph', () => {
+    let graph: ImportGraph;
+
+    beforeEach(async () => {
+        files = {
+            '/src/types.ts': 'import { Status } from \'./enums\';\nexport interface Order { status: Status }\n',
+            '/src/enums.ts': 'import type { Order } from \'./types\';\nexport enum Status { Open }\n',
+            '/src/models/index.ts': 'export * from \'@/enums\';\n',
+            '/src/app.ts': 'import { Status } from \'./models\';\nimport \'./types.js\';\n'
+        };
+        graph = new ImportGraph();
+        await graph.build();
+    });
+
+    it('should resolve relative, index and alias imports and leave out type-only ones', () => {
+        expect(graph.findPath('/src/app.ts', '/src/enums.ts')).toEqual(['/src/app.ts', '/src/models/index.ts', '/src/enums.ts']);
+        expect(graph.findPath('/src/app.ts', '/src/types.ts')).toEqual(['/src/app.ts', '/src/types.ts']);
+        expect(graph.findPath('/src/enums.ts', '/src/types.ts')).toBeUndefined();
+    });
+
+    it('should leave out imports of nothing but interfaces and type aliases', async () => {
+        files = {
+            '/src/types.ts': 'export interface Order { id: string }\nexport type Id = string;\nexport const Id = String;\n',
+            '/src/models.ts': 'export { Order as Purchase } from \'./types\';\nexport * from \'./types\';\n',
+            '/src/order.ts': 'import { Order } from \'./types\';\nexport type { Order };\n',
+            '/src/purchase.ts': 'import { Purchase } from \'./models\';\nexport let purchase: Purchase;\n',
+            '/src/id.ts': 'import { Id } from \'./models\';\nexport const id = Id(1);\n'
+        };
+        graph = new ImportGraph();
+        await graph.build();
+
+        expect(graph.findPath('/src/order.ts', '/src/types.ts')).toBeUndefined();
+        expect(graph.findPath('/src/purchase.ts', '/src/models.ts')).toBeUndefined();
+        // A type alias sharing its name with a value imports the value
+        expect(graph.findPath('/src/id.ts', '/src/types.ts')).toEqual(['/src/id.ts', '/src/models.ts', '/src/types.ts']);
+    });
+
+    it('should resolve imports through the name of a workspace package', async () => {
+        files = {
+            '/packages/shared/src/index.ts': 'export enum Status { Open }\n',
+            '/packages/app/src/app.ts': 'import { Status } from \'@acme/shared\';\nimport { render } from \'react\';\n'
+        };
+        graph = new ImportGraph();
+        await graph.build();
+
+        expect(graph.findPath('/packages/app/src/app.ts', '/packages/shared/src/index.ts')).toEqual([
+            '/packages/app/src/app.ts',
+            '/packages/shared/src/index.ts'
+        ]);
+        expect(graph.resolve('react', '/packages/app/src/app.ts')).toBeUndefined();
+    });
+
+    it('should find the cycles through imports a clone gains', () => {
+        const planned = graph.clone();
+        planned.addFile('/src/order.ts');
+        planned.addImport('/src/enums.ts', '/src/order.ts', 'Order');
+        planned.addImport('/src/order.ts', '/src/types.ts', 'Customer');
+
+        expect(planned.findNewCycle(graph)).toEqual(['/src/enums.ts', '/src/order.ts', '/src/types.ts', '/src/enums.ts']);
+        expect(graph.findPath('/src/enums.ts', '/src/types.ts')).toBeUndefined();
+    });
+
+    it('should keep imports of a moved interface out of cycles', () => {
+        const planned = graph.clone();
+        planned.moveDeclarations('/src/types.ts', '/src/order.ts', ['Order']);
+        planned.addImport('/src/enums.ts', '/src/order.ts', 'Order');
+        planned.addImport('/src/order.ts', '/src/enums.ts', 'Status');
+
+        expect(planned.findNewCycle(graph)).toBeUndefined();
+
+        planned.addImport('/src/enums.ts', '/src/order.ts', 'defaultOrder');
+        expect(planned.findNewCycle(graph)).toEqual(['/src/enums.ts', '/src/order.ts', '/src/enums.ts']);
+    });
+
+    it('should drop an import once its last name is removed', () => {
+        const planned = graph.clone();
+        planned.addImport('/src/enums.ts', '/src/types.ts', 'Customer');
+        planned.removeImport('/src/types.ts', '/src/enums.ts', 'Status');
+
+        expect(planned.findNewCycle(graph)).toBeUndefined();
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMemoryVscode, memoryWorkspace } from './test-utils';
+
+vi.mock('vscode', () => createMemoryVscode());
+
+import * as vscode from 'vscode';
+import { ImportChange, ImportManager } from '../importManager';
+
+// Builds the import graph of real files, unlike importManager.test.ts, which mocks TypeScript
+describe('ImportManager import cycles', () => {
+    let importManager: ImportManager;
+    const typesUri = vscode.Uri.file('/project/src/types.ts');
+    const modelsUri = vscode.Uri.file('/project/src/models.ts');
+
+    /** The change importing Order back into types.ts once it moved to models.ts */
+    const importBack = (isTypeOnly = false): ImportChange => ({
+        uri: typesUri,
+        oldImportPath: '',
+        newImportPath: './models',
+        typeName: 'Order',
+        isTypeOnly
+    });
+
+    beforeEach(() => {
+        importManager = new ImportManager();
+    });
+
+    describe('findImportCycle', () => {
+        it('should find a cycle between the source file and the destination', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export enum Status { Open }\nexport class Order { status = Status.Open }\nexport const orders = [new Order()];\n',
+                '/project/src/models.ts': 'import { Status } from \'./types\';\nexport const defaultStatus = Status.Open;\n'
+            });
+
+            const cycle = await importManager.findImportCycle([importBack()], typesUri, modelsUri);
+
+            expect(cycle).toEqual(['/project/src/types.ts', '/project/src/models.ts', '/project/src/types.ts']);
+        });
+
+        it('should find a cycle through another file', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export enum Status { Open }\nexport class Order { status = Status.Open }\nexport const orders = [new Order()];\n',
+                '/project/src/models.ts': 'import { defaultStatus } from \'./status\';\nexport const status = defaultStatus;\n',
+                '/project/src/status.ts': 'import { Status } from \'./types\';\nexport const defaultStatus = Status.Open;\n'
+            });
+
+            const cycle = await importManager.findImportCycle([importBack()], typesUri, modelsUri);
+
+            expect(cycle).toEqual(['/project/src/types.ts', '/project/src/models.ts', '/project/src/status.ts', '/project/src/types.ts']);
+        });
+
+        it('should ignore type-only imports, which leave nothing at runtime', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export enum Status { Open }\nexport class Order { status = Status.Open }\nexport let orders: Order[];\n',
+                '/project/src/models.ts': 'import type { Status } from \'./types\';\nexport let defaultStatus: Status;\n'
+            });
+
+            expect(await importManager.findImportCycle([importBack(true)], typesUri, modelsUri)).toBeUndefined();
+        });
+
+        it('should ignore imports of a moved interface', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export enum Status { Open }\nexport interface Order { status: Status }\nexport let orders: Order[];\n',
+                '/project/src/models.ts': 'import { Status } from \'./types\';\nexport const defaultStatus = Status.Open;\n'
+            });
+
+            expect(await importManager.findImportCycle([importBack()], typesUri, modelsUri)).toBeUndefined();
+        });
+
+        it('should find a cycle the imports of a new destination create', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export enum Status { Open }\nexport class Order { status = Status.Open }\nexport const orders = [new Order()];\n'
+            });
+
+            const cycle = await importManager.findImportCycle([importBack()], typesUri, modelsUri, 'import { Status } from \'./types\';');
+
+            expect(cycle).toEqual(['/project/src/types.ts', '/project/src/models.ts', '/project/src/types.ts']);
+        });
+    });
+});
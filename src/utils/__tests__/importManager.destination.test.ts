@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMemoryVscode, memoryWorkspace } from './test-utils';
+
+vi.mock('vscode', () => createMemoryVscode());
+
+import * as vscode from 'vscode';
+import { ImportManager } from '../importManager';
+import { TypeAnalyzer } from '../typeAnalyzer';
+import { ScriptParser } from '../scriptParser';
+
+// Parses the moved code with TypeScript itself, unlike importManager.test.ts, which mocks it
+describe('ImportManager destination imports', () => {
+    let importManager: ImportManager;
+    const settings = (vscode.workspace as unknown as { settings: Record<string, unknown> }).settings;
+    const sourceUri = vscode.Uri.file('/project/src/order.ts');
+    const destinationUri = vscode.Uri.file('/project/src/models/order.ts');
+
+    /** Parses the source file and picks the declarations to move and those left behind */
+    const declarations = (lines: string[], movedNames: string[], importedNames: string[]) => {
+        const sourceFile = new ScriptParser().parse(sourceUri.fsPath, lines.join('\n'));
+        const topLevel = new TypeAnalyzer().getTopLevelDeclarations(sourceFile);
+        return {
+            moved: topLevel.filter(typeInfo => movedNames.includes(typeInfo.name)),
+            imported: topLevel.filter(typeInfo => importedNames.includes(typeInfo.name))
+        };
+    };
+
+    beforeEach(() => {
+        Object.keys(settings).forEach(key => delete settings[key]);
+        memoryWorkspace.reset({});
+        importManager = new ImportManager();
+    });
+
+    describe('calculateDestinationImports', () => {
+        it('should copy the imports the moved code uses and import what stays behind', () => {
+            const { moved, imported } = declarations([
+                'import { Money } from \'./money\';',
+                'import { Customer } from \'./customer\';',
+                'interface OrderItem { price: Money }',
+                'export interface Order { items: OrderItem[]; total: Money }'
+            ], ['Order'], ['OrderItem']);
+
+            expect(importManager.calculateDestinationImports(moved, imported, sourceUri, destinationUri)).toBe([
+                'import { Money } from \'../money\';',
+                'import { OrderItem } from \'../order\';'
+            ].join('\n'));
+        });
+
+        it('should import what stays behind with the extensions of the source file\'s imports', () => {
+            const { moved, imported } = declarations([
+                'import { Money } from \'./money.js\';',
+                'interface OrderItem { price: Money }',
+                'export interface Order { items: OrderItem[]; total: Money }'
+            ], ['Order'], ['OrderItem']);
+
+            expect(importManager.calculateDestinationImports(moved, imported, sourceUri, destinationUri)).toBe([
+                'import { Money } from \'../money.js\';',
+                'import { OrderItem } from \'../order.js\';'
+            ].join('\n'));
+        });
+
+        it('should import what stays behind through a path alias and the import style', () => {
+            settings.pathAliases = { '@/*': 'src/*' };
+            settings.importStyle = 'type';
+            const { moved, imported } = declarations([
+                'interface OrderItem { price: number }',
+                'const currency = \'EUR\';',
+                'export interface Order { items: OrderItem[]; currency: typeof currency }'
+            ], ['Order'], ['OrderItem', 'currency']);
+
+            expect(importManager.calculateDestinationImports(moved, imported, sourceUri, destinationUri)).toBe([
+                'import { currency } from "@/order";',
+                'import type { OrderItem } from "@/order";'
+            ].join('\n'));
+        });
+    });
+
+    describe('calculateDestinationImportChanges', () => {
+        it('should import what stays behind in the style of the existing destination', async () => {
+            memoryWorkspace.reset({ '/project/src/models/order.ts': 'import { Customer } from \'./customer.js\';\n' });
+            const { moved, imported } = declarations([
+                'interface OrderItem { price: number }',
+                'export interface Order { items: OrderItem[]; customer: Customer }'
+            ], ['Order'], ['OrderItem']);
+
+            const changes = await importManager.calculateDestinationImportChanges(moved, imported, sourceUri, destinationUri);
+
+            expect(changes.map(change => [change.typeName, change.newImportPath])).toEqual([['OrderItem', '../order.js']]);
+        });
+    });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMemoryVscode, memoryWorkspace } from './test-utils';
+
+vi.mock('vscode', () => createMemoryVscode());
+
+import * as vscode from 'vscode';
+import { ImportChange, ImportManager } from '../importManager';
+import { ScriptParser } from '../scriptParser';
+import { TypeAnalyzer } from '../typeAnalyzer';
+
+// Records the edits of real consumer files, unlike importManager.test.ts, which mocks TypeScript
+describe('ImportManager import edits', () => {
+    let importManager: ImportManager;
+    const appUri = vscode.Uri.file('/project/src/app.ts');
+    const typesUri = vscode.Uri.file('/project/src/types.ts');
+    const modelsUri = vscode.Uri.file('/project/src/models.ts');
+
+    /** A change moving a name from './types' to './models' */
+    const moveChange = (uri: vscode.Uri, typeName: string, oldImportPath = './types'): ImportChange => ({
+        uri,
+        oldImportPath,
+        newImportPath: './models',
+        typeName,
+        isTypeOnly: false
+    });
+
+    /** Records and applies the edits of the changes, then returns the current text of a file */
+    const applyChanges = async (importChanges: ImportChange[], filePath: string) => {
+        const edit = new vscode.WorkspaceEdit();
+        await importManager.addImportEdits({ importChanges, typeContent: '' }, edit);
+        memoryWorkspace.applyEdit(edit as any);
+        return memoryWorkspace.getText(filePath) ?? '';
+    };
+
+    /** The top-level declarations of types.ts with the given names */
+    const movedTypes = (names: string[]) => {
+        const sourceFile = new ScriptParser().parse(typesUri.fsPath, memoryWorkspace.getText(typesUri.fsPath)!);
+        return new TypeAnalyzer().getTopLevelDeclarations(sourceFile).filter(typeInfo => names.includes(typeInfo.name));
+    };
+
+    beforeEach(() => {
+        importManager = new ImportManager();
+    });
+
+    describe('addImportEdits', () => {
+        it('should move several names of one import to a single import of the destination', async () => {
+            memoryWorkspace.reset({
+                '/project/src/app.ts': 'import { Order, Role, User } from \'./types\';\nlet user: User; let order: Order; let role: Role;\n'
+            });
+
+            const text = await applyChanges(['Order', 'Role', 'User'].map(name => moveChange(appUri, name)), '/project/src/app.ts');
+
+            expect(text).toBe('import { Order, Role, User } from \'./models\';\nlet user: User; let order: Order; let role: Role;\n');
+        });
+
+        it('should merge the names moved out of an import into one import of the destination', async () => {
+            memoryWorkspace.reset({
+                '/project/src/app.ts': 'import { Order, Status, User } from \'./types\';\nlet user: User; let order: Order; let status: Status;\n'
+            });
+
+            const text = await applyChanges([moveChange(appUri, 'Order'), moveChange(appUri, 'User')], '/project/src/app.ts');
+
+            expect(text.split('\n').filter(line => line.startsWith('import'))).toEqual([
+                'import { Status } from \'./types\';',
+                'import { Order, User } from \'./models\';'
+            ]);
+        });
+
+        it('should import several declarations back into the source file at once', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export const admin: User = { id: \'1\', role: Role.Admin };\n'
+            });
+
+            const text = await applyChanges(
+                [moveChange(typesUri, 'User', ''), moveChange(typesUri, 'Role', '')],
+                '/project/src/types.ts'
+            );
+
+            expect(text.split('\n').filter(line => line.startsWith('import'))).toEqual(['import { Role, User } from "./models";']);
+        });
+    });
+
+    describe('findNameCollisions', () => {
+        it('should find declarations of the moved names in the destination and tell identical ones apart', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\nexport enum Role { Admin }\n',
+                '/project/src/models.ts': 'export interface User { id: string }\nexport enum Role { Admin, Guest }\n'
+            });
+
+            const collisions = await importManager.findNameCollisions(movedTypes(['User', 'Role']), typesUri, modelsUri, []);
+
+            expect(collisions.map(({ typeInfo, uri, existing, isIdentical }) => [typeInfo.name, uri.fsPath, existing?.name, isIdentical]))
+                .toEqual([['User', '/project/src/models.ts', 'User', true], ['Role', '/project/src/models.ts', 'Role', false]]);
+        });
+
+        it('should find names the destination imports, except those it imports from the source file', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\nexport enum Role { Admin }\n',
+                '/project/src/models.ts': 'import { User } from \'./auth\';\nimport { Role } from \'./types\';\nlet user: User; let role: Role;\n'
+            });
+
+            const collisions = await importManager.findNameCollisions(movedTypes(['User', 'Role']), typesUri, modelsUri, []);
+
+            expect(collisions.map(({ typeInfo, existing }) => [typeInfo.name, existing])).toEqual([['User', undefined]]);
+        });
+
+        it('should find consumers getting an import of a name they already declare', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\n',
+                '/project/src/models.ts': '',
+                '/project/src/app.ts': 'interface User { name: string }\nlet user: User;\n'
+            });
+            const change = moveChange(appUri, 'User', '');
+
+            const collisions = await importManager.findNameCollisions(movedTypes(['User']), typesUri, modelsUri, [change]);
+
+            expect(collisions).toHaveLength(1);
+            expect(collisions[0].uri.fsPath).toBe('/project/src/app.ts');
+            expect(collisions[0].change).toBe(change);
+        });
+    });
+
+    describe('aliasCollidingImports', () => {
+        it('should import the moved declaration under an alias named after the destination', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\n',
+                '/project/src/models.ts': '',
+                '/project/src/app.ts': 'interface User { name: string }\nlet user: User;\n'
+            });
+            const change = moveChange(appUri, 'User', '');
+            const collisions = await importManager.findNameCollisions(movedTypes(['User']), typesUri, modelsUri, [change]);
+
+            await importManager.aliasCollidingImports(collisions);
+            const text = await applyChanges([change], '/project/src/app.ts');
+
+            expect(change.alias).toBe('ModelsUser');
+            expect(text.split('\n')[0]).toBe('import { User as ModelsUser } from "./models";');
+        });
+
+        it('should name the alias after the folder of a destination named after the declaration', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\n',
+                '/project/src/app.ts': 'interface User { name: string }\nlet user: User;\n'
+            });
+            const change = { ...moveChange(appUri, 'User', ''), newImportPath: './models/user' };
+
+            await importManager.aliasCollidingImports([{ typeInfo: movedTypes(['User'])[0], uri: appUri, change }]);
+
+            expect(change.alias).toBe('ModelsUser');
+        });
+    });
+
+    describe('calculateSourceImportRemovals', () => {
+        it('should remove the default, namespace and named imports only the moved declarations use', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': [
+                    'import Money from \'./money\';',
+                    'import * as Geo from \'./geo\';',
+                    'import { Currency as Code, Rate, Unused } from \'./currency\';',
+                    'export interface Price { amount: Money; code: Code; place: Geo.Point }',
+                    'export interface Cart { rate: Rate }',
+                    ''
+                ].join('\n')
+            });
+
+            const changes = await importManager.calculateSourceImportRemovals(movedTypes(['Price']), typesUri);
+
+            expect(changes.map(({ oldImportPath, typeName, alias, isDefault, namespaceName }) =>
+                ({ oldImportPath, typeName, alias, isDefault, namespaceName })
+            )).toEqual([
+                { oldImportPath: './money', typeName: 'Money', alias: undefined, isDefault: true, namespaceName: undefined },
+                { oldImportPath: './geo', typeName: 'Geo', alias: undefined, isDefault: undefined, namespaceName: 'Geo' },
+                { oldImportPath: './currency', typeName: 'Currency', alias: 'Code', isDefault: undefined, namespaceName: undefined }
+            ]);
+        });
+
+        it('should keep the imports the remaining code uses as well', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': [
+                    'import { Money } from \'./money\';',
+                    'export interface Price { amount: Money }',
+                    'export function total(prices: Price[]): Money { return prices[0].amount; }',
+                    ''
+                ].join('\n')
+            });
+
+            expect(await importManager.calculateSourceImportRemovals(movedTypes(['Price']), typesUri)).toEqual([]);
+        });
+
+        it('should remove the imports from the source file\'s text', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': [
+                    'import { Currency, Money } from \'./money\';',
+                    'export interface Price { amount: Money }',
+                    'export interface Cart { currency: Currency }',
+                    ''
+                ].join('\n')
+            });
+
+            const changes = await importManager.calculateSourceImportRemovals(movedTypes(['Price']), typesUri);
+            const text = await applyChanges(changes, '/project/src/types.ts');
+
+            expect(text.split('\n')[0]).toBe('import { Currency } from \'./money\';');
+        });
+    });
+
+    describe('calculateReExportStub', () => {
+        it('should re-export values and types from the destination in separate statements', () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\nexport function createUser(): User { return { id: \'\' }; }\nexport interface Order {}\n'
+            });
+
+            const stub = importManager.calculateReExportStub(movedTypes(['User', 'createUser']), typesUri, modelsUri, 'deprecated');
+
+            expect(stub).toBe([
+                '/** @deprecated Moved to "./models" */',
+                'export { createUser } from "./models";',
+                '/** @deprecated Moved to "./models" */',
+                'export type { User } from "./models";'
+            ].join('\n'));
+        });
+
+        it('should leave out the deprecation with the reExport mode', () => {
+            memoryWorkspace.reset({ '/project/src/types.ts': 'export interface User { id: string }\n' });
+
+            expect(importManager.calculateReExportStub(movedTypes(['User']), typesUri, modelsUri, 'reExport'))
+                .toBe('/** Moved to "./models" */\nexport type { User } from "./models";');
+        });
+
+        it('should leave no stub with the off mode or for declarations that weren\'t exported', () => {
+            memoryWorkspace.reset({ '/project/src/types.ts': 'export interface User { id: string }\ninterface Order {}\n' });
+
+            expect(importManager.calculateReExportStub(movedTypes(['User']), typesUri, modelsUri, 'off')).toBe('');
+            expect(importManager.calculateReExportStub(movedTypes(['Order']), typesUri, modelsUri, 'deprecated')).toBe('');
+        });
+    });
+
+    describe('calculateChanges', () => {
+        it('should re-export the moved declaration from barrels with `export *` of the source file', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\n',
+                '/project/src/index.ts': 'export * from \'./types\';\n',
+                '/project/src/all.ts': 'export * from \'./types\';\nexport * from \'./models\';\n'
+            });
+
+            const changes = await importManager.calculateChanges(movedTypes(['User'])[0], typesUri, modelsUri, []);
+
+            expect(changes.importChanges).toEqual([{
+                uri: vscode.Uri.file('/project/src/index.ts'),
+                oldImportPath: '',
+                newImportPath: './models',
+                typeName: 'User',
+                isTypeOnly: true,
+                isReExport: true
+            }]);
+        });
+    });
+});
@@ -11,6 +11,9 @@ vi.mock('typescript', () => {
         ScriptTarget: { Latest: 99 },
         isImportDeclaration: vi.fn(),
         isNamedImports: vi.fn(),
+        isNamespaceImport: vi.fn().mockReturnValue(false),
+        isExportDeclaration: vi.fn().mockReturnValue(false),
+        isNamedExports: vi.fn().mockReturnValue(true),
         forEachChild: vi.fn().mockImplementation((node, callback) => {
             if (node.statements) {
                 node.statements.forEach(callback);
@@ -44,7 +47,7 @@ vi.mock('typescript', () => {
 
 // Import after mocks are set up
 import { describe, it, expect, beforeEach, SpyInstance } from 'vitest';
-import { ImportManager } from '../importManager';
+import { ImportChange, ImportManager } from '../importManager';
 import * as vscode from 'vscode';
 import * as ts from 'typescript';
 
@@ -52,16 +55,31 @@ describe('ImportManager', () => {
     let importManager: ImportManager;
     let mockWorkspaceEdit: SpyInstance;
 
+    // Helper function to create a mock import specifier, e.g. `type User as ApiUser`
+    const createMockSpecifier = (name: string, alias?: string, isTypeOnly: boolean = false) => ({
+        name: { text: alias || name },
+        propertyName: alias ? { text: name } : undefined,
+        isTypeOnly,
+        getText: () => `${isTypeOnly ? 'type ' : ''}${name}${alias ? ` as ${alias}` : ''}`
+    });
+
     // Helper function to create a mock source file
-    const createMockSourceFile = (importStatement: string, isTypeOnly: boolean = false, importPath: string = './types') => ({
+    const createMockSourceFile = (
+        importStatement: string,
+        isTypeOnly: boolean = false,
+        importPath: string = './types',
+        elements: ReturnType<typeof createMockSpecifier>[] = [createMockSpecifier('Type1')],
+        defaultName?: string
+    ) => ({
         fileName: '/mock/workspace/src/file.ts',
         statements: [{
             kind: ts.SyntaxKind.ImportDeclaration,
             moduleSpecifier: { text: importPath },
             importClause: {
                 isTypeOnly,
+                name: defaultName ? { text: defaultName } : undefined,
                 namedBindings: {
-                    elements: [{ name: { text: 'Type1' } }]
+                    elements
                 }
             },
             getStart: () => 0,
@@ -71,6 +89,24 @@ describe('ImportManager', () => {
         getFullText: () => importStatement
     });
 
+    // Helper function to create a mock source file with a single re-export, e.g. `export type { Type1 } from './types'`
+    const createMockExportSourceFile = (
+        exportStatement: string,
+        isTypeOnly: boolean = false,
+        importPath: string = './types',
+        elements: ReturnType<typeof createMockSpecifier>[] = [createMockSpecifier('Type1')]
+    ) => ({
+        fileName: '/mock/workspace/src/file.ts',
+        statements: [{
+            moduleSpecifier: { text: importPath },
+            isTypeOnly,
+            exportClause: { elements },
+            getStart: () => 0,
+            getEnd: () => exportStatement.length
+        }],
+        getFullText: () => exportStatement
+    });
+
     // Helper function to create a mock document
     const createMockDocument = (content: string) => ({
         fileName: '/mock/workspace/src/file.ts',
@@ -79,8 +115,15 @@ describe('ImportManager', () => {
         uri: { fsPath: '/mock/workspace/src/file.ts' }
     });
 
+    let settings: Record<string, unknown>;
+
     beforeEach(() => {
         vi.resetModules();
+        vi.clearAllMocks();
+        settings = { tsconfig: './tsconfig.json', importStyle: 'type' };
+        vi.mocked(vscode.workspace.getConfiguration).mockReturnValue({
+            get: (key: string, defaultValue?: unknown) => settings[key] ?? defaultValue
+        } as any);
         importManager = new ImportManager();
         mockWorkspaceEdit = vi.spyOn(vscode.workspace, 'applyEdit').mockResolvedValue(true);
 
@@ -109,17 +152,27 @@ describe('ImportManager', () => {
                 isTypeOnly: true,
                 newTypeIsTypeOnly: true,
                 expected: 'import type { Type1, Type2 } from "@/types";',
-                runTest: false
+                runTest: true
             },
             {
-                name: 'should preserve type keyword when merging regular import with type-only import',
+                name: 'should keep a regular import regular when merging a type-only import',
                 sourceContent: 'import { Type1 } from "@/types";',
                 oldImportPath: '@/old-types',
                 newImportPath: '@/types',
                 isTypeOnly: false,
                 newTypeIsTypeOnly: true,
-                expected: 'import type { Type1, Type2 } from "@/types";',
-                runTest: false
+                expected: 'import { Type1, type Type2 } from "@/types";',
+                runTest: true
+            },
+            {
+                name: 'should not merge a value into a type-only import',
+                sourceContent: 'import type { Type1 } from "./types";',
+                oldImportPath: './old-types',
+                newImportPath: './types',
+                isTypeOnly: true,
+                newTypeIsTypeOnly: false,
+                expected: 'import { Type2 } from "./types";\n',
+                runTest: true
             }
         ];
 
@@ -151,6 +204,228 @@ describe('ImportManager', () => {
             });
         });
 
+        it('should combine several changes to the same file into a single edit', async () => {
+            const sourceContent = 'import { Type1 } from "./types";';
+            const mockSourceFile = createMockSourceFile(sourceContent, false, './types');
+            const mockDocument = createMockDocument(sourceContent);
+            vi.mocked(ts.createSourceFile).mockReturnValue(mockSourceFile as any);
+            vi.spyOn(vscode.workspace, 'openTextDocument').mockResolvedValue(mockDocument as any);
+
+            await importManager.updateImports({
+                importChanges: ['Type3', 'Type2'].map(typeName => ({
+                    uri: { fsPath: '/mock/workspace/src/file.ts' } as any,
+                    oldImportPath: './old-types',
+                    newImportPath: './types',
+                    typeName,
+                    isTypeOnly: false
+                })),
+                typeContent: ''
+            });
+
+            expect(mockWorkspaceEdit).toHaveBeenCalledTimes(1);
+            const edits = mockWorkspaceEdit.mock.calls[0][0].get(mockDocument.uri);
+            expect(edits).toHaveLength(1);
+            expect(edits[0].newText).toBe('import { Type1, Type2, Type3 } from "./types";');
+        });
+
+        const updateSingleImport = async (
+            mockSourceFile: ReturnType<typeof createMockSourceFile> | ReturnType<typeof createMockExportSourceFile>,
+            change: Omit<ImportChange, 'uri'>
+        ) => {
+            const mockDocument = createMockDocument(mockSourceFile.getFullText());
+            vi.mocked(ts.createSourceFile).mockReturnValue(mockSourceFile as any);
+            vi.spyOn(vscode.workspace, 'openTextDocument').mockResolvedValue(mockDocument as any);
+
+            await importManager.updateImports({
+                importChanges: [{ uri: { fsPath: '/mock/workspace/src/file.ts' } as any, ...change }],
+                typeContent: ''
+            });
+
+            return mockWorkspaceEdit.mock.calls[0][0].get(mockDocument.uri);
+        };
+
+        it('should not add inline type modifiers with the regular import style', async () => {
+            settings.importStyle = 'regular';
+
+            const edits = await updateSingleImport(
+                createMockSourceFile('import { Type1 } from "@/types";', false, '@/types'),
+                { oldImportPath: '@/old-types', newImportPath: '@/types', typeName: 'Type2', isTypeOnly: true }
+            );
+
+            expect(edits[0].newText).toBe('import { Type1, Type2 } from "@/types";');
+        });
+
+        it('should keep aliases and inline type modifiers of the remaining specifiers', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile(
+                    'import { type User as ApiUser, fetchUser, Order } from "./api";',
+                    false,
+                    './api',
+                    [createMockSpecifier('User', 'ApiUser', true), createMockSpecifier('fetchUser'), createMockSpecifier('Order')]
+                ),
+                { oldImportPath: './api', newImportPath: './models', typeName: 'Order', isTypeOnly: false }
+            );
+
+            expect(edits[0].newText).toBe('import { type User as ApiUser, fetchUser } from "./api";');
+        });
+
+        it('should remove a renamed import by its exported name', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile(
+                    'import { User as ApiUser, fetchUser } from "./api";',
+                    false,
+                    './api',
+                    [createMockSpecifier('User', 'ApiUser'), createMockSpecifier('fetchUser')]
+                ),
+                { oldImportPath: './api', newImportPath: './models', typeName: 'User', isTypeOnly: false, alias: 'ApiUser' }
+            );
+
+            const newTexts = edits.map((edit: { newText: string }) => edit.newText);
+            expect(newTexts).toHaveLength(2);
+            expect(newTexts).toContain('import { fetchUser } from "./api";');
+            expect(newTexts).toContain('import { User as ApiUser } from "./models";\n');
+        });
+
+        it('should merge a renamed import under its alias', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile('import { Type1 } from "./types";'),
+                { oldImportPath: './old-types', newImportPath: './types', typeName: 'Type2', isTypeOnly: false, alias: 'LocalType' }
+            );
+
+            expect(edits[0].newText).toBe('import { Type1, Type2 as LocalType } from "./types";');
+        });
+
+        it('should keep the default import when rewriting named imports', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile('import Api, { Type1 } from "./types";', false, './types', [createMockSpecifier('Type1')], 'Api'),
+                { oldImportPath: './old-types', newImportPath: './types', typeName: 'Type2', isTypeOnly: false }
+            );
+
+            expect(edits[0].newText).toBe('import Api, { Type1, Type2 } from "./types";');
+        });
+
+        it('should remove a namespace import only the moved code used', async () => {
+            const mockSourceFile = createMockSourceFile('import Api, * as Models from "./types";', false, './types', [], 'Api');
+            const namespaceImport = { name: { text: 'Models' }, getText: () => '* as Models' };
+            mockSourceFile.statements[0].importClause.namedBindings = namespaceImport as any;
+            vi.mocked(ts.isNamespaceImport).mockImplementation(node => node === (namespaceImport as any));
+            vi.mocked(ts.isNamedImports).mockImplementation(node => node !== (namespaceImport as any));
+
+            const edits = await updateSingleImport(
+                mockSourceFile,
+                { oldImportPath: './types', newImportPath: '', typeName: 'Models', namespaceName: 'Models', isTypeOnly: false }
+            );
+
+            expect(edits[0].newText).toBe('import Api from "./types";');
+        });
+
+        it('should append to imports that are not in alphabetical order', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile(
+                    'import { Type3, Type1 } from "./types";',
+                    false,
+                    './types',
+                    [createMockSpecifier('Type3'), createMockSpecifier('Type1')]
+                ),
+                { oldImportPath: './old-types', newImportPath: './types', typeName: 'Type2', isTypeOnly: false }
+            );
+
+            expect(edits[0].newText).toBe('import { Type3, Type1, Type2 } from "./types";');
+        });
+
+        it('should write new imports with the quotes and semicolons of the file', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile("import { Type1 } from './types'", false, './types'),
+                { oldImportPath: '', newImportPath: './models', typeName: 'User', isTypeOnly: false }
+            );
+
+            expect(edits[0].newText).toBe("import { User } from './models'\n");
+        });
+
+        it('should rewrite re-exports separately from imports', async () => {
+            const mockSourceFile = createMockExportSourceFile(
+                'export type { Type1, Type2 } from "./types";',
+                true,
+                './types',
+                [createMockSpecifier('Type1'), createMockSpecifier('Type2')]
+            );
+            vi.mocked(ts.isImportDeclaration).mockReturnValue(false);
+            vi.mocked(ts.isExportDeclaration).mockReturnValue(true);
+
+            const edits = await updateSingleImport(
+                mockSourceFile,
+                { oldImportPath: './types', newImportPath: './models', typeName: 'Type2', isTypeOnly: true, isReExport: true }
+            );
+
+            const newTexts = edits.map((edit: { newText: string }) => edit.newText);
+            expect(newTexts).toHaveLength(2);
+            expect(newTexts).toContain('export type { Type1 } from "./types";');
+            expect(newTexts).toContain('export type { Type2 } from "./models";\n');
+        });
+
+        it('should add a re-export without touching imports of the same path', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile('import { Type1 } from "./types";'),
+                { oldImportPath: '', newImportPath: './types', typeName: 'Type2', isTypeOnly: false, isReExport: true }
+            );
+
+            expect(edits).toHaveLength(1);
+            expect(edits[0].newText).toBe('export { Type2 } from "./types";\n');
+        });
+
+        it('should rewrite a qualified reference to a new named import', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile('import { Type1 } from "./types";'),
+                {
+                    oldImportPath: '',
+                    newImportPath: './models',
+                    typeName: 'User',
+                    isTypeOnly: true,
+                    qualifiedReference: new vscode.Range(new vscode.Position(2, 10), new vscode.Position(2, 21))
+                }
+            );
+
+            const newTexts = edits.map((edit: { newText: string }) => edit.newText);
+            expect(newTexts).toHaveLength(2);
+            expect(newTexts).toContain('User');
+            expect(newTexts).toContain('import type { User } from "./models";\n');
+        });
+
+        it('should rewrite a qualified reference to a new namespace import', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile('import { Type1 } from "./types";'),
+                {
+                    oldImportPath: '',
+                    newImportPath: './account',
+                    typeName: 'User',
+                    isTypeOnly: false,
+                    namespaceName: 'Account',
+                    qualifiedReference: new vscode.Range(new vscode.Position(2, 10), new vscode.Position(2, 21))
+                }
+            );
+
+            const newTexts = edits.map((edit: { newText: string }) => edit.newText);
+            expect(newTexts).toHaveLength(2);
+            expect(newTexts).toContain('Account.User');
+            expect(newTexts).toContain('import * as Account from "./account";\n');
+        });
+
+        it('should rewrite the module specifier of an inline import type in place', async () => {
+            const edits = await updateSingleImport(
+                createMockSourceFile('import { Type1 } from "./types";'),
+                {
+                    oldImportPath: './types',
+                    newImportPath: './models',
+                    typeName: 'Type1',
+                    isTypeOnly: true,
+                    importTypeSpecifier: new vscode.Range(new vscode.Position(2, 18), new vscode.Position(2, 25))
+                }
+            );
+
+            expect(edits).toHaveLength(1);
+            expect(edits[0].newText).toBe('./models');
+        });
+
         // Add error case tests
         it('should handle missing import clause gracefully', async () => {
             const mockSourceFile = {
@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMemoryVscode, memoryWorkspace } from './test-utils';
+
+vi.mock('vscode', () => createMemoryVscode());
+
+import * as vscode from 'vscode';
+import { MoveTransaction, MoveTransactionError } from '../moveTransaction';
+import { FileManager } from '../fileManager';
+import { ImportManager } from '../importManager';
+
+describe('MoveTransaction', () => {
+    const typesUri = vscode.Uri.file('/project/src/types.ts');
+    const appUri = vscode.Uri.file('/project/src/app.ts');
+    const modelsUri = vscode.Uri.file('/project/src/models.ts');
+
+    const typesFile = 'export interface User { id: string }\nexport interface Order {}\n';
+    const appFile = 'import { User } from \'./types\';\n';
+
+    /** Records a typical move of User from types.ts to a new models.ts */
+    const recordMove = (transaction: MoveTransaction) => {
+        const metadata = transaction.createMetadata('Move User');
+        transaction.edit.delete(typesUri, new vscode.Range(0, 0, 1, 0), metadata);
+        transaction.edit.replace(appUri, new vscode.Range(0, 22, 0, 29), './models', metadata);
+        transaction.edit.createFile(modelsUri, { overwrite: false }, metadata);
+        transaction.edit.insert(modelsUri, new vscode.Position(0, 0), 'export interface User { id: string }\n', metadata);
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.restoreAllMocks();
+        memoryWorkspace.reset({ '/project/src/types.ts': typesFile, '/project/src/app.ts': appFile });
+    });
+
+    describe('commit', () => {
+        it('should apply and save every edit at once', async () => {
+            const transaction = new MoveTransaction();
+            recordMove(transaction);
+
+            expect(await transaction.commit()).toBe(true);
+
+            expect(vscode.workspace.applyEdit).toHaveBeenCalledTimes(1);
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe('export interface Order {}\n');
+            expect(memoryWorkspace.files.get('/project/src/app.ts')).toBe('import { User } from \'./models\';\n');
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toBe('export interface User { id: string }\n');
+        });
+
+        it('should reject overlapping edits before applying anything', async () => {
+            const transaction = new MoveTransaction();
+            transaction.edit.delete(typesUri, new vscode.Range(0, 0, 1, 0));
+            transaction.edit.replace(typesUri, new vscode.Range(0, 17, 0, 21), 'Account');
+
+            await expect(transaction.commit()).rejects.toThrow(new MoveTransactionError('Overlapping edits', typesUri));
+            expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+        });
+
+        it('should import back a declaration moved from right after the imports', async () => {
+            // Directly after the imports, and at the top of a file without imports
+            for (const imports of ['import { Id } from "./id";\n', '']) {
+                memoryWorkspace.reset({
+                    '/project/src/types.ts': `${imports}export interface User { id: string }\nexport const admin: User = { id: '1' };\n`
+                });
+                const transaction = new MoveTransaction();
+                const userStart = imports.length;
+                await new FileManager().deleteTypeFromSource(
+                    transaction.edit,
+                    typesUri,
+                    [{ start: userStart, end: userStart + 'export interface User { id: string }'.length }]
+                );
+                await new ImportManager().addImportEdits({
+                    importChanges: [{ uri: typesUri, oldImportPath: '', newImportPath: './models', typeName: 'User', isTypeOnly: false }],
+                    typeContent: ''
+                }, transaction.edit);
+
+                expect(await transaction.commit()).toBe(true);
+                expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe(
+                    `${imports}import { User } from "./models";\nexport const admin: User = { id: '1' };\n`
+                );
+            }
+        });
+
+        it('should reject edits outside of the file before applying anything', async () => {
+            const transaction = new MoveTransaction();
+            transaction.edit.insert(appUri, new vscode.Position(0, 0), 'import { Order } from \'./types\';\n');
+            transaction.edit.insert(typesUri, new vscode.Position(5, 0), 'export type Id = string;\n');
+
+            await expect(transaction.commit()).rejects.toThrow(new MoveTransactionError('Edit is outside of the file', typesUri));
+            expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+        });
+
+        it('should reject edits of read-only files', async () => {
+            vi.mocked(vscode.workspace.fs.isWritableFileSystem).mockReturnValueOnce(false);
+            const transaction = new MoveTransaction();
+            recordMove(transaction);
+
+            await expect(transaction.commit()).rejects.toThrow('File is read-only');
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe(typesFile);
+        });
+
+        it('should restore every file and delete created ones if applying fails', async () => {
+            vi.mocked(vscode.workspace.applyEdit).mockImplementationOnce(async edit => {
+                // Some files change before the failure
+                memoryWorkspace.applyEdit(edit as any);
+                throw new Error('Disk full');
+            });
+            const transaction = new MoveTransaction();
+            recordMove(transaction);
+
+            await expect(transaction.commit()).rejects.toThrow('Failed to apply move: Disk full');
+
+            expect(memoryWorkspace.getText('/project/src/types.ts')).toBe(typesFile);
+            expect(memoryWorkspace.getText('/project/src/app.ts')).toBe(appFile);
+            expect(memoryWorkspace.exists('/project/src/models.ts')).toBe(false);
+        });
+
+        it('should restore every file if a changed file can\'t be saved', async () => {
+            const openTextDocument = memoryWorkspace.openTextDocument.bind(memoryWorkspace);
+            vi.spyOn(memoryWorkspace, 'openTextDocument').mockImplementation(uri => {
+                const document = openTextDocument(uri);
+                if (uri.fsPath === appUri.fsPath) {
+                    document.save = async () => false;
+                }
+                return document;
+            });
+            const transaction = new MoveTransaction();
+            recordMove(transaction);
+
+            await expect(transaction.commit()).rejects.toThrow(new MoveTransactionError('Failed to save file', appUri));
+
+            expect(memoryWorkspace.getText('/project/src/types.ts')).toBe(typesFile);
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe(typesFile);
+            expect(memoryWorkspace.getText('/project/src/app.ts')).toBe(appFile);
+            expect(memoryWorkspace.exists('/project/src/models.ts')).toBe(false);
+        });
+
+        it('should return false and leave every file untouched if the preview is discarded', async () => {
+            vi.mocked(vscode.workspace.applyEdit).mockResolvedValueOnce(false);
+            const transaction = new MoveTransaction({ preview: true });
+            recordMove(transaction);
+
+            expect(await transaction.commit()).toBe(false);
+
+            expect(memoryWorkspace.getText('/project/src/types.ts')).toBe(typesFile);
+            expect(memoryWorkspace.exists('/project/src/models.ts')).toBe(false);
+        });
+
+        it('should throw if the edit isn\'t applied without a preview', async () => {
+            vi.mocked(vscode.workspace.applyEdit).mockResolvedValueOnce(false);
+            const transaction = new MoveTransaction();
+            recordMove(transaction);
+
+            await expect(transaction.commit()).rejects.toThrow('Failed to apply move');
+        });
+    });
+
+    describe('preview', () => {
+        it('should only ask for confirmation of edits with the preview enabled', () => {
+            expect(new MoveTransaction().createMetadata('Move User')).toEqual({
+                label: 'Move User',
+                description: undefined,
+                needsConfirmation: false
+            });
+            expect(new MoveTransaction({ preview: true }).createMetadata('Update imports', 'app.ts')).toEqual({
+                label: 'Update imports',
+                description: 'app.ts',
+                needsConfirmation: true
+            });
+        });
+
+        it('should show the preview for the whole move once an edit needs attention', () => {
+            const transaction = new MoveTransaction();
+
+            expect(transaction.createWarningMetadata('Update imports, creating an import cycle').needsConfirmation).toBe(true);
+            expect(transaction.createMetadata('Move User').needsConfirmation).toBe(true);
+        });
+
+        it('should apply the move as a refactoring and only save the files kept in the preview', async () => {
+            // The user unchecks the import update of app.ts
+            vi.mocked(vscode.workspace.applyEdit).mockImplementationOnce(async edit => {
+                const kept = new vscode.WorkspaceEdit();
+                (kept as any).operations.push(...(edit as any).operations.filter(
+                    (operation: { uri: vscode.Uri }) => operation.uri.fsPath !== appUri.fsPath
+                ));
+                return memoryWorkspace.applyEdit(kept as any);
+            });
+            const saved: string[] = [];
+            const openTextDocument = memoryWorkspace.openTextDocument.bind(memoryWorkspace);
+            vi.spyOn(memoryWorkspace, 'openTextDocument').mockImplementation(uri => {
+                const document = openTextDocument(uri);
+                const save = document.save.bind(document);
+                document.save = async () => {
+                    saved.push(uri.fsPath);
+                    return save();
+                };
+                return document;
+            });
+            const transaction = new MoveTransaction({ preview: true });
+            recordMove(transaction);
+
+            expect(await transaction.commit()).toBe(true);
+
+            expect(vscode.workspace.applyEdit).toHaveBeenCalledWith(transaction.edit, { isRefactoring: true });
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe('export interface Order {}\n');
+            expect(memoryWorkspace.files.get('/project/src/models.ts')).toBe('export interface User { id: string }\n');
+            expect(memoryWorkspace.files.get('/project/src/app.ts')).toBe(appFile);
+            expect(saved.sort()).toEqual(['/project/src/models.ts', '/project/src/types.ts']);
+        });
+    });
+
+    describe('rollback', () => {
+        it('should undo a committed move, deleting the files it created', async () => {
+            const transaction = new MoveTransaction();
+            recordMove(transaction);
+            await transaction.commit();
+
+            await transaction.rollback();
+
+            expect(memoryWorkspace.files.get('/project/src/types.ts')).toBe(typesFile);
+            expect(memoryWorkspace.files.get('/project/src/app.ts')).toBe(appFile);
+            expect(memoryWorkspace.exists('/project/src/models.ts')).toBe(false);
+        });
+
+        it('should keep files that had unsaved changes unsaved', async () => {
+            const unsaved = new vscode.WorkspaceEdit();
+            unsaved.insert(appUri, new vscode.Position(1, 0), 'let user: User;\n');
+            await vscode.workspace.applyEdit(unsaved);
+            const transaction = new MoveTransaction();
+            recordMove(transaction);
+            await transaction.commit();
+
+            await transaction.rollback();
+
+            expect(memoryWorkspace.getText('/project/src/app.ts')).toBe(appFile + 'let user: User;\n');
+            expect(memoryWorkspace.isDirty('/project/src/app.ts')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PackageResolver } from '../packageResolver';
+import * as ts from 'typescript';
+
+vi.mock('typescript', () => ({
+    sys: {
+        fileExists: vi.fn(),
+        readFile: vi.fn()
+    }
+}));
+
+const mockTs = vi.mocked(ts, true);
+
+describe('PackageResolver', () => {
+    let packageResolver: PackageResolver;
+    let packageJsons: Record<string, object>;
+
+    const appFile = '/repo/packages/app/src/app.ts';
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        packageJsons = {
+            '/repo/package.json': { name: 'acme-monorepo', private: true },
+            '/repo/packages/app/package.json': { name: '@acme/app', dependencies: { '@acme/shared': 'workspace:*' } }
+        };
+        mockTs.sys.fileExists.mockImplementation((filePath: string) => filePath in packageJsons);
+        mockTs.sys.readFile.mockImplementation((filePath: string) => JSON.stringify(packageJsons[filePath]));
+
+        packageResolver = new PackageResolver();
+    });
+
+    describe('getPackageSpecifier', () => {
+        it('should use the package name for its entry point', () => {
+            packageJsons['/repo/packages/shared/package.json'] = {
+                name: '@acme/shared',
+                exports: { '.': { types: './src/index.ts', default: './dist/index.js' } }
+            };
+
+            const result = packageResolver.getPackageSpecifier(appFile, '/repo/packages/shared/src/index.ts');
+
+            expect(result?.package.name).toBe('@acme/shared');
+            expect(result?.specifier).toBe('@acme/shared');
+        });
+
+        it('should use a subpath from the exports map', () => {
+            packageJsons['/repo/packages/shared/package.json'] = {
+                name: '@acme/shared',
+                exports: { '.': './src/index.ts', './user': './src/user.ts' }
+            };
+
+            const result = packageResolver.getPackageSpecifier(appFile, '/repo/packages/shared/src/user.ts');
+
+            expect(result?.specifier).toBe('@acme/shared/user');
+        });
+
+        it('should match wildcard exports', () => {
+            packageJsons['/repo/packages/shared/package.json'] = {
+                name: '@acme/shared',
+                exports: { './models/*': { types: './src/models/*.ts' } }
+            };
+
+            const result = packageResolver.getPackageSpecifier(appFile, '/repo/packages/shared/src/models/user.ts');
+
+            expect(result?.specifier).toBe('@acme/shared/models/user');
+        });
+
+        it('should treat a top-level conditions object as the entry point', () => {
+            packageJsons['/repo/packages/shared/package.json'] = {
+                name: '@acme/shared',
+                exports: { types: './src/index.d.ts', import: './src/index.js' }
+            };
+
+            const result = packageResolver.getPackageSpecifier(appFile, '/repo/packages/shared/src/index.ts');
+
+            expect(result?.specifier).toBe('@acme/shared');
+        });
+
+        it('should report files the exports map does not include', () => {
+            packageJsons['/repo/packages/shared/package.json'] = {
+                name: '@acme/shared',
+                exports: { '.': './src/index.ts' }
+            };
+
+            const result = packageResolver.getPackageSpecifier(appFile, '/repo/packages/shared/src/user.ts');
+
+            expect(result?.package.name).toBe('@acme/shared');
+            expect(result?.specifier).toBeUndefined();
+        });
+
+        it('should use the types field of packages without exports', () => {
+            packageJsons['/repo/packages/shared/package.json'] = { name: '@acme/shared', types: './src/index.ts' };
+
+            expect(packageResolver.getPackageSpecifier(appFile, '/repo/packages/shared/src/index.ts')?.specifier)
+                .toBe('@acme/shared');
+            expect(packageResolver.getPackageSpecifier(appFile, '/repo/packages/shared/src/user.ts')?.specifier)
+                .toBe('@acme/shared/src/user');
+        });
+
+        it('should use the name of a package installed in node_modules without a dependency on it', () => {
+            packageJsons['/repo/packages/tools/package.json'] = { name: '@acme/tools' };
+            packageJsons['/repo/node_modules/@acme/tools/package.json'] = { name: '@acme/tools' };
+
+            expect(packageResolver.getPackageSpecifier(appFile, '/repo/packages/tools/src/index.ts')?.specifier)
+                .toBe('@acme/tools/src');
+        });
+
+        it('should not use the name of a nested package the importing file can\'t resolve', () => {
+            packageJsons['/repo/client/package.json'] = { name: 'my-client' };
+            packageJsons['/repo/server/package.json'] = { name: 'my-server' };
+
+            expect(packageResolver.getPackageSpecifier('/repo/client/src/app.ts', '/repo/server/src/types.ts')).toBeUndefined();
+        });
+
+        it('should not use package names within the same package', () => {
+            expect(packageResolver.getPackageSpecifier(appFile, '/repo/packages/app/src/types/user.ts')).toBeUndefined();
+        });
+
+        it('should not use the name of a package containing the importing file', () => {
+            expect(packageResolver.getPackageSpecifier(appFile, '/repo/scripts/types.ts')).toBeUndefined();
+        });
+    });
+
+    describe('addExport', () => {
+        it('should suggest a subpath without the src directory', () => {
+            packageJsons['/repo/packages/shared/package.json'] = { name: '@acme/shared', exports: './src/index.ts' };
+            const workspacePackage = packageResolver.findPackage('/repo/packages/shared/src/user.ts')!;
+
+            const packageExport = packageResolver.suggestExport(workspacePackage, '/repo/packages/shared/src/user.ts');
+
+            expect(packageExport.subpath).toBe('./user');
+            expect(packageExport.target).toBe('./src/user.ts');
+        });
+
+        it('should add the entry keeping the indentation and use it for later specifiers', () => {
+            packageJsons['/repo/packages/shared/package.json'] = { name: '@acme/shared', exports: './src/index.ts' };
+            const userFile = '/repo/packages/shared/src/user.ts';
+            const packageExport = packageResolver.suggestExport(packageResolver.findPackage(userFile)!, userFile);
+
+            const text = packageResolver.addExport(
+                packageExport,
+                JSON.stringify(packageJsons['/repo/packages/shared/package.json'], null, 4) + '\n'
+            );
+
+            expect(JSON.parse(text).exports).toEqual({ '.': './src/index.ts', './user': './src/user.ts' });
+            expect(text).toContain('\n    "name"');
+            expect(text.endsWith('}\n')).toBe(true);
+            expect(packageResolver.getPackageSpecifier(appFile, userFile)?.specifier).toBe('@acme/shared/user');
+        });
+    });
+});
@@ -14,7 +14,13 @@ vi.mock('typescript', () => ({
     },
     readConfigFile: vi.fn(),
     parseJsonConfigFileContent: vi.fn(),
-    findConfigFile: vi.fn()
+    findConfigFile: vi.fn(),
+    isImportDeclaration: (node: any) => node.kind === 'ImportDeclaration',
+    isExportDeclaration: (node: any) => node.kind === 'ExportDeclaration',
+    isStringLiteral: (node: any) => typeof node.text === 'string',
+    ModuleKind: { CommonJS: 1, ESNext: 99, Node16: 100, NodeNext: 199 },
+    ModuleResolutionKind: { Node10: 2, Node16: 3, NodeNext: 99, Bundler: 100 },
+    JsxEmit: { Preserve: 1, ReactJSX: 4 }
 }));
 
 // Get the mocked typescript module
@@ -58,6 +64,16 @@ describe('PathResolver', () => {
             }
         });
 
+        // Resolve compiler options like TypeScript does for a config without `extends`
+        mockTs.parseJsonConfigFileContent.mockImplementation((json: any, _host: any, basePath: string) => ({
+            options: {
+                ...json.compilerOptions,
+                baseUrl: json.compilerOptions?.baseUrl && path.resolve(basePath, json.compilerOptions.baseUrl)
+            },
+            errors: [],
+            fileNames: []
+        }) as any);
+
         // Setup default workspace configuration
         vi.mocked(vscode.workspace.getConfiguration).mockReturnValue({
             get: vi.fn().mockReturnValue('./tsconfig.json')
@@ -117,13 +133,13 @@ describe('PathResolver', () => {
         const testCases = [
             {
                 name: 'should match root alias',
-                input: '/mock/workspace/src/utils/helper.ts',
-                expected: '@/utils/helper'
+                input: '/mock/workspace/src/models/user.ts',
+                expected: '@/models/user'
             },
             {
-                name: 'should match root alias for utils path',
+                name: 'should prefer the most specific alias for utils path',
                 input: '/mock/workspace/src/utils/types.ts',
-                expected: '@/utils/types'
+                expected: '@utils/types'
             },
             {
                 name: 'should not match paths outside baseUrl',
@@ -140,25 +156,101 @@ describe('PathResolver', () => {
         });
     });
 
+    describe('tryMatchPathAlias with advanced tsconfig paths', () => {
+        const createResolver = (compilerOptions: ts.CompilerOptions & { pathsBasePath?: string }) => {
+            mockTs.parseJsonConfigFileContent.mockReturnValue({ options: compilerOptions, errors: [], fileNames: [] } as any);
+            return new PathResolver(mockWorkspaceRoot);
+        };
+
+        it('should use paths resolved from an extended config', () => {
+            const resolver = createResolver({
+                paths: { '@shared/*': ['shared/*'] },
+                pathsBasePath: '/mock/workspace/configs'
+            });
+            expect(mockTs.parseJsonConfigFileContent).toHaveBeenCalledWith(
+                expect.anything(), mockTs.sys, '/mock/workspace', undefined, '/mock/workspace/tsconfig.json'
+            );
+            expect(resolver.tryMatchPathAlias('/mock/workspace/configs/shared/date.ts')).toBe('@shared/date');
+        });
+
+        it('should try every target of an alias', () => {
+            const resolver = createResolver({
+                baseUrl: '/mock/workspace',
+                paths: { '@lib/*': ['src/lib/*', 'generated/lib/*'] }
+            });
+            expect(resolver.tryMatchPathAlias('/mock/workspace/generated/lib/api.ts')).toBe('@lib/api');
+        });
+
+        it('should match a wildcard in the middle of a pattern', () => {
+            const resolver = createResolver({
+                baseUrl: '/mock/workspace',
+                paths: { '@/*': ['src/*'], '@app/*/types': ['src/app/*/types'] }
+            });
+            expect(resolver.tryMatchPathAlias('/mock/workspace/src/app/users/types.ts')).toBe('@app/users/types');
+        });
+
+        it('should match an exact alias', () => {
+            const resolver = createResolver({
+                baseUrl: '/mock/workspace',
+                paths: { '@/*': ['src/*'], '@config': ['src/config/index.ts'] }
+            });
+            expect(resolver.tryMatchPathAlias('/mock/workspace/src/config/index.ts')).toBe('@config');
+        });
+    });
+
+    describe('tryMatchPathAlias with typeMover.pathAliases', () => {
+        const createResolver = (pathAliases: unknown) => {
+            vi.mocked(vscode.workspace.getConfiguration).mockReturnValue({
+                get: vi.fn((key: string) => key === 'pathAliases' ? pathAliases : './tsconfig.json')
+            } as any);
+            return new PathResolver(mockWorkspaceRoot);
+        };
+
+        it('should match an alias from the settings', () => {
+            const resolver = createResolver({ '@models/*': 'lib/models/*' });
+            expect(resolver.tryMatchPathAlias('/mock/workspace/lib/models/user.ts')).toBe('@models/user');
+        });
+
+        it('should prefer settings aliases over tsconfig paths', () => {
+            const resolver = createResolver({ '~utils/*': ['src/utils/*'] });
+            expect(resolver.tryMatchPathAlias('/mock/workspace/src/utils/helper.ts')).toBe('~utils/helper');
+        });
+
+        it('should match an alias naming a single file', () => {
+            const resolver = createResolver({ '@config': 'src/config.ts' });
+            expect(resolver.tryMatchPathAlias('/mock/workspace/src/config.ts')).toBe('@config');
+        });
+
+        it('should fall back to tsconfig paths', () => {
+            const resolver = createResolver({ '@models/*': 'lib/models/*' });
+            expect(resolver.tryMatchPathAlias('/mock/workspace/src/utils/helper.ts')).toBe('@utils/helper');
+        });
+
+        it('should ignore invalid settings', () => {
+            const resolver = createResolver({ '@models/*': 42 });
+            expect(resolver.tryMatchPathAlias('/mock/workspace/lib/models/user.ts')).toBeUndefined();
+        });
+    });
+
     describe('resolveImportPath', () => {
         const testCases = [
             {
-                name: 'should use root alias for paths under baseUrl',
+                name: 'should use the most specific alias for paths under baseUrl',
                 fromPath: '/mock/workspace/src/components/Button.ts',
                 toPath: '/mock/workspace/src/utils/helper.ts',
-                expected: '@/utils/helper'
+                expected: '@utils/helper'
             },
             {
                 name: 'should use relative path when outside baseUrl',
                 fromPath: '/mock/workspace/src/components/Button.ts',
                 toPath: '/mock/workspace/outside/helper.ts',
-                expected: '../../outside/helper.ts'
+                expected: '../../outside/helper'
             },
             {
-                name: 'should use root alias for same directory imports',
+                name: 'should use the most specific alias for same directory imports',
                 fromPath: '/mock/workspace/src/components/Button.ts',
                 toPath: '/mock/workspace/src/components/Input.ts',
-                expected: '@/components/Input'
+                expected: '@components/Input'
             }
         ];
 
@@ -170,6 +262,127 @@ describe('PathResolver', () => {
         });
     });
 
+    describe('resolveImportPath with module resolution settings', () => {
+        const fromPath = '/mock/workspace/outside/app.ts';
+        const createResolver = (compilerOptions: ts.CompilerOptions) => {
+            mockTs.parseJsonConfigFileContent.mockReturnValue({ options: compilerOptions, errors: [], fileNames: [] } as any);
+            return new PathResolver(mockWorkspaceRoot);
+        };
+        const createSourceFile = (...specifiers: string[]) => ({
+            statements: specifiers.map(text => ({ kind: 'ImportDeclaration', moduleSpecifier: { text } }))
+        }) as unknown as ts.SourceFile;
+
+        it('should add .js extensions with moduleResolution nodenext', () => {
+            const resolver = createResolver({ module: ts.ModuleKind.NodeNext, moduleResolution: ts.ModuleResolutionKind.NodeNext });
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/outside/models/user.ts')).toBe('./models/user.js');
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/outside/models/index.ts')).toBe('./models/index.js');
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/outside/models/user.mts')).toBe('./models/user.mjs');
+        });
+
+        it('should add .js extensions to path aliases with module node16', () => {
+            const resolver = createResolver({ module: ts.ModuleKind.Node16, baseUrl: './src', paths: { '@/*': ['*'] } });
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/src/models/user.ts')).toBe('@/models/user.js');
+        });
+
+        it('should keep .ts extensions with allowImportingTsExtensions', () => {
+            const resolver = createResolver({ moduleResolution: ts.ModuleResolutionKind.Bundler, allowImportingTsExtensions: true });
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/outside/models/user.ts')).toBe('./models/user.ts');
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/outside/Card.tsx')).toBe('./Card.tsx');
+        });
+
+        it('should import index files through their folder without extensions', () => {
+            const resolver = createResolver({ moduleResolution: ts.ModuleResolutionKind.Bundler, baseUrl: './src', paths: { '@/*': ['*'] } });
+            mockTs.sys.fileExists.mockImplementation((filePath: string) => filePath === '/mock/workspace/src/models.ts');
+
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/outside/models/index.ts')).toBe('./models');
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/src/models/index.ts')).toBe('@/models/index');
+        });
+
+        it('should keep the .vue extension', () => {
+            const resolver = createResolver({});
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/outside/UserCard.vue')).toBe('./UserCard.vue');
+        });
+
+        it('should follow the style of the importing file', () => {
+            const resolver = createResolver({});
+            const extensionStyle = resolver.getExtensionStyle(createSourceFile('./api.js', './helpers/format.js', 'vue'));
+            expect(extensionStyle).toBe('js');
+            expect(resolver.resolveImportPath(fromPath, '/mock/workspace/outside/models/user.ts', extensionStyle))
+                .toBe('./models/user.js');
+        });
+
+        it('should use the project style for files without relative imports', () => {
+            const resolver = createResolver({ moduleResolution: ts.ModuleResolutionKind.NodeNext });
+            expect(resolver.getExtensionStyle(createSourceFile('zod', './App.vue'))).toBe('js');
+        });
+    });
+
+    describe('isImportPathFor', () => {
+        const fromPath = '/mock/workspace/src/app.ts';
+        const testCases = [
+            {
+                name: 'should match a relative path without extension',
+                importPath: './models/user',
+                targetPath: '/mock/workspace/src/models/user.ts',
+                expected: true
+            },
+            {
+                name: 'should match a relative path with a .js extension',
+                importPath: './models/user.js',
+                targetPath: '/mock/workspace/src/models/user.ts',
+                expected: true
+            },
+            {
+                name: 'should match a folder import of an index file',
+                importPath: './models',
+                targetPath: '/mock/workspace/src/models/index.ts',
+                expected: true
+            },
+            {
+                name: 'should match a path alias',
+                importPath: '@/models',
+                targetPath: '/mock/workspace/src/models/index.ts',
+                expected: true
+            },
+            {
+                name: 'should match a less specific path alias',
+                importPath: '@/utils/helper',
+                targetPath: '/mock/workspace/src/utils/helper.ts',
+                expected: true
+            },
+            {
+                name: 'should match a path alias with a .js extension',
+                importPath: '@utils/helper.js',
+                targetPath: '/mock/workspace/src/utils/helper.ts',
+                expected: true
+            },
+            {
+                name: 'should not match a path alias of another file',
+                importPath: '@/utils/format',
+                targetPath: '/mock/workspace/src/utils/helper.ts',
+                expected: false
+            },
+            {
+                name: 'should not match a package',
+                importPath: 'lodash',
+                targetPath: '/mock/workspace/src/lodash.ts',
+                expected: false
+            },
+            {
+                name: 'should not match another file',
+                importPath: './models/order',
+                targetPath: '/mock/workspace/src/models/user.ts',
+                expected: false
+            }
+        ];
+
+        testCases.forEach(({ name, importPath, targetPath, expected }) => {
+            it(name, () => {
+                expect(pathResolver.isImportPathFor(importPath, fromPath, targetPath)).toBe(expected);
+            });
+        });
+    });
+
     describe('shouldPreserveImportType', () => {
         const testCases = [
             {
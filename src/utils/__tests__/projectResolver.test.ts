@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ProjectResolver } from '../projectResolver';
+import * as vscode from 'vscode';
+import * as ts from 'typescript';
+
+vi.mock('typescript', () => ({
+    sys: {
+        fileExists: vi.fn(),
+        readFile: vi.fn()
+    },
+    readConfigFile: vi.fn(),
+    parseJsonConfigFileContent: vi.fn(),
+    findConfigFile: vi.fn()
+}));
+
+// Record the config each resolver is created for instead of reading it
+vi.mock('../pathResolver', () => ({
+    PathResolver: vi.fn().mockImplementation((workspaceRoot: string, configPath?: string) => ({
+        workspaceRoot,
+        configPath
+    }))
+}));
+
+vi.mock('vscode', () => ({
+    workspace: {
+        workspaceFolders: [{
+            uri: { fsPath: '/repo' },
+            name: 'repo',
+            index: 0
+        }],
+        getWorkspaceFolder: vi.fn(() => ({ uri: { fsPath: '/repo' } })),
+        getConfiguration: vi.fn()
+    },
+    Uri: {
+        file: (path: string) => ({ fsPath: path })
+    }
+}));
+
+const mockTs = vi.mocked(ts, true);
+
+describe('ProjectResolver', () => {
+    let projectResolver: ProjectResolver;
+    let explicitTsconfig: string | undefined;
+
+    /** Config files by path, with the files they include and their references */
+    const configs: Record<string, { files: string[]; references?: string[] }> = {
+        '/repo/tsconfig.json': {
+            files: [],
+            references: ['/repo/packages/api', '/repo/packages/web/tsconfig.json']
+        },
+        '/repo/packages/api/tsconfig.json': { files: ['/repo/packages/api/src/user.ts'] },
+        '/repo/packages/web/tsconfig.json': { files: ['/repo/packages/web/src/app.ts', '/repo/packages/web/src/page.ts'] }
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        explicitTsconfig = undefined;
+
+        vi.mocked(vscode.workspace.getConfiguration).mockReturnValue({
+            inspect: vi.fn(() => ({ key: 'typeRefactor.tsconfig', defaultValue: './tsconfig.json', workspaceValue: explicitTsconfig }))
+        } as any);
+        mockTs.readConfigFile.mockImplementation((configPath: string) => ({ config: { configPath } }));
+        mockTs.parseJsonConfigFileContent.mockImplementation((config: any) => {
+            const { files, references = [] } = configs[config.configPath];
+            return {
+                options: {},
+                fileNames: files,
+                projectReferences: references.map(reference => ({ path: reference })),
+                errors: []
+            } as any;
+        });
+
+        projectResolver = new ProjectResolver();
+    });
+
+    it('should use the nearest tsconfig of each file', () => {
+        mockTs.findConfigFile.mockImplementation((searchPath: string) =>
+            searchPath.startsWith('/repo/packages/api') ? '/repo/packages/api/tsconfig.json' : '/repo/packages/web/tsconfig.json'
+        );
+
+        const apiResolver = projectResolver.getPathResolver('/repo/packages/api/src/user.ts') as any;
+        const webResolver = projectResolver.getPathResolver('/repo/packages/web/src/app.ts') as any;
+
+        expect(apiResolver.configPath).toBe('/repo/packages/api/tsconfig.json');
+        expect(webResolver.configPath).toBe('/repo/packages/web/tsconfig.json');
+    });
+
+    it('should follow references of a solution-style tsconfig', () => {
+        mockTs.findConfigFile.mockReturnValue('/repo/tsconfig.json');
+
+        const apiResolver = projectResolver.getPathResolver('/repo/packages/api/src/user.ts') as any;
+        const webResolver = projectResolver.getPathResolver('/repo/packages/web/src/app.ts') as any;
+
+        expect(apiResolver.configPath).toBe('/repo/packages/api/tsconfig.json');
+        expect(webResolver.configPath).toBe('/repo/packages/web/tsconfig.json');
+    });
+
+    it('should fall back to the nearest tsconfig if no reference includes the file', () => {
+        mockTs.findConfigFile.mockReturnValue('/repo/tsconfig.json');
+
+        const resolver = projectResolver.getPathResolver('/repo/scripts/build.ts') as any;
+
+        expect(resolver.configPath).toBe('/repo/tsconfig.json');
+    });
+
+    it('should cache resolvers and parsed configs per config file', () => {
+        mockTs.findConfigFile.mockReturnValue('/repo/tsconfig.json');
+
+        const appResolver = projectResolver.getPathResolver('/repo/packages/web/src/app.ts');
+        const pageResolver = projectResolver.getPathResolver('/repo/packages/web/src/page.ts');
+
+        expect(appResolver).toBe(pageResolver);
+        expect(mockTs.readConfigFile).toHaveBeenCalledTimes(3);
+    });
+
+    it('should prefer an explicitly configured tsconfig', () => {
+        explicitTsconfig = './tsconfig.app.json';
+        mockTs.findConfigFile.mockReturnValue('/repo/packages/web/tsconfig.json');
+
+        const resolver = projectResolver.getPathResolver('/repo/packages/web/src/app.ts') as any;
+
+        expect(resolver.configPath).toBe('/repo/tsconfig.app.json');
+        expect(mockTs.findConfigFile).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as path from 'path';
+
+let files: Record<string, string> = {};
+
+vi.mock('vscode', () => ({
+    workspace: {
+        openTextDocument: vi.fn(async (uri: { fsPath: string }) => ({
+            getText: () => files[uri.fsPath],
+            positionAt: (offset: number) => offset
+        }))
+    },
+    Range: class {
+        constructor(public start: number, public end: number) {}
+    }
+}));
+
+vi.mock('../workspaceScanner', () => ({
+    WorkspaceScanner: vi.fn().mockImplementation(() => ({
+        findFiles: async () => Object.keys(files).map(fsPath => ({ fsPath })),
+        readFile: async (uri: { fsPath: string }) => files[uri.fsPath]
+    }))
+}));
+
+// Resolve relative specifiers only, which is all these tests use
+vi.mock('../projectResolver', () => ({
+    ProjectResolver: vi.fn().mockImplementation(() => ({
+        getPathResolver: () => ({
+            isImportPathFor: (importPath: string, fromPath: string, targetPath: string) => {
+                const modulePath = path.resolve(path.dirname(fromPath), importPath);
+                return [modulePath, path.join(modulePath, 'index')].includes(targetPath.replace(/\.ts$/, ''));
+            }
+        })
+    }))
+}));
+
+import { ReExportStubManager } from '../reExportStubManager';
+
+describe('ReExportStubManager', () => {
+    let stubManager: ReExportStubManager;
+
+    const stubFile = [
+        'export interface Order {}',
+        '',
+        '/** @deprecated Moved to \'./models/user\' */',
+        'export type { User, Account } from \'./models/user\';',
+        '/** Moved to \'./format\' */',
+        'export { formatDate } from \'./format\';',
+        'export { Api } from \'./api\';',
+        ''
+    ].join('\n');
+
+    /** Applies the recorded edits to the file's text */
+    const applyEdits = (edits: { range: { start: number; end: number }; newText: string }[]) => {
+        let text = stubFile;
+        for (const { range, newText } of [...edits].sort((a, b) => b.range.start - a.range.start)) {
+            text = text.slice(0, range.start) + newText + text.slice(range.end);
+        }
+        return text;
+    };
+
+    beforeEach(() => {
+        files = { '/src/types.ts': stubFile };
+        stubManager = new ReExportStubManager();
+    });
+
+    it('should find marked stubs with the names no file imports through them', async () => {
+        files['/src/app.ts'] = 'import type { User } from \'./types\';\nlet account: import(\'./types\').Account;\n';
+
+        const stubs = await stubManager.findStubs();
+
+        expect(stubs.map(stub => stub.unusedNames)).toEqual([[], ['formatDate']]);
+    });
+
+    it('should count the members a namespace import is used through', async () => {
+        files['/src/app.ts'] = 'import * as Types from \'./types\';\nlet user: Types.User;\nconst date = Types.formatDate(new Date());\n';
+
+        const stubs = await stubManager.findStubs();
+
+        expect(stubs.map(stub => stub.unusedNames)).toEqual([['Account'], []]);
+    });
+
+    it('should keep every name of a namespace used as a whole and report its file', async () => {
+        files['/src/app.ts'] = 'import * as Types from \'./types\';\nconsole.log(Object.keys(Types));\n';
+
+        const stubs = await stubManager.findStubs();
+
+        expect(stubs.map(stub => stub.unusedNames)).toEqual([[], []]);
+        expect(stubs[0].wholeModuleUsers).toEqual([{ fsPath: '/src/app.ts' }]);
+    });
+
+    it('should follow barrels to the names their consumers import', async () => {
+        files['/src/index.ts'] = 'export * from \'./types\';\n';
+        files['/src/models/index.ts'] = 'export * from \'..\';\n';
+        files['/src/app.ts'] = 'import { formatDate } from \'./models\';\nimport type { Account } from \'.\';\n';
+
+        const stubs = await stubManager.findStubs();
+
+        expect(stubs.map(stub => stub.unusedNames)).toEqual([['User'], []]);
+    });
+
+    it('should keep every name of a barrel used as a whole and report the barrel', async () => {
+        files['/src/index.ts'] = 'export * from \'./types\';\nexport * from \'./app\';\n';
+        files['/src/app.ts'] = 'import * as Models from \'.\';\nexport const models = { ...Models };\n';
+
+        const stubs = await stubManager.findStubs();
+
+        expect(stubs.map(stub => stub.unusedNames)).toEqual([[], []]);
+        expect(stubs[0].wholeModuleUsers).toEqual([{ fsPath: '/src/index.ts' }]);
+    });
+
+    it('should remove unused stubs with their JSDoc and unused names of the others', async () => {
+        files['/src/app.ts'] = 'import { User } from \'./types\';\n';
+        const edits: { range: { start: number; end: number }; newText: string }[] = [];
+        const edit = {
+            delete: (_uri: unknown, range: { start: number; end: number }) => edits.push({ range, newText: '' }),
+            replace: (_uri: unknown, range: { start: number; end: number }, newText: string) => edits.push({ range, newText })
+        };
+
+        await stubManager.addRemovalEdits(await stubManager.findStubs(), edit as any);
+
+        expect(applyEdits(edits)).toBe([
+            'export interface Order {}',
+            '',
+            '/** @deprecated Moved to \'./models/user\' */',
+            'export type { User } from \'./models/user\';',
+            'export { Api } from \'./api\';',
+            ''
+        ].join('\n'));
+    });
+});
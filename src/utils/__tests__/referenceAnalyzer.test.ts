@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMemoryVscode, memoryWorkspace } from './test-utils';
+
+vi.mock('vscode', () => createMemoryVscode());
+
+import * as vscode from 'vscode';
+import { ReferenceAnalyzer } from '../referenceAnalyzer';
+import { ScriptParser } from '../scriptParser';
+import { TypeAnalyzer } from '../typeAnalyzer';
+
+describe('ReferenceAnalyzer', () => {
+    let referenceAnalyzer: ReferenceAnalyzer;
+    const typesUri = vscode.Uri.file('/project/src/types.ts');
+
+    /** The declaration of types.ts with the given name */
+    const findDeclaration = (name: string) => {
+        const sourceFile = new ScriptParser().parse(typesUri.fsPath, memoryWorkspace.getText(typesUri.fsPath)!);
+        return new TypeAnalyzer().getTopLevelDeclarations(sourceFile).find(typeInfo => typeInfo.name === name)!;
+    };
+
+    beforeEach(() => {
+        referenceAnalyzer = new ReferenceAnalyzer();
+    });
+
+    describe('findImportTypeReferences', () => {
+        it('should find the names of import types in annotations and JSDoc comments', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\n',
+                '/project/src/app.ts': 'let user: import(\'./types\').User;\n',
+                '/project/src/legacy/user.js': '/** @type {import("../types").User} */\nlet user;\n'
+            });
+
+            const locations = await referenceAnalyzer.findImportTypeReferences(typesUri, findDeclaration('User'));
+
+            expect(locations.map(({ uri, range }) => [uri.fsPath, range.start.line, range.start.character, range.end.character])).toEqual([
+                ['/project/src/app.ts', 0, 28, 32],
+                ['/project/src/legacy/user.js', 0, 30, 34]
+            ]);
+        });
+
+        it('should skip import types of other files and other names', async () => {
+            memoryWorkspace.reset({
+                '/project/src/types.ts': 'export interface User { id: string }\nexport interface Order {}\n',
+                '/project/src/models.ts': 'export interface User { name: string }\n',
+                '/project/src/app.ts': 'let user: import(\'./models\').User;\nlet order: import(\'./types\').Order;\n'
+            });
+
+            expect(await referenceAnalyzer.findImportTypeReferences(typesUri, findDeclaration('User'))).toEqual([]);
+        });
+    });
+});
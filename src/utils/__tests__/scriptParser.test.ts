@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as ts from 'typescript';
+import { ScriptParser } from '../scriptParser';
+
+describe('ScriptParser', () => {
+    let parser: ScriptParser;
+
+    const sfc = [
+        '<template>',
+        '  <UserCard :user="user" />',
+        '</template>',
+        '',
+        '<script setup lang="ts">',
+        'import type { User } from "./types";',
+        'interface Props { user: User }',
+        'defineProps<Props>();',
+        '</script>',
+        '',
+        '<style scoped>',
+        '.card { color: red; }',
+        '</style>'
+    ].join('\n');
+
+    beforeEach(() => {
+        parser = new ScriptParser();
+    });
+
+    describe('extractScriptBlocks', () => {
+        it('should find script setup blocks with their language', () => {
+            const blocks = parser.extractScriptBlocks(sfc);
+
+            expect(blocks).toHaveLength(1);
+            expect(blocks[0].setup).toBe(true);
+            expect(blocks[0].lang).toBe('ts');
+            expect(sfc.slice(blocks[0].start, blocks[0].end)).toContain('defineProps<Props>();');
+        });
+
+        it('should find both script and script setup blocks', () => {
+            const text = '<script lang="ts">\nexport default {}\n</script>\n<script setup>\nconst a = 1;\n</script>';
+            const blocks = parser.extractScriptBlocks(text);
+
+            expect(blocks.map(block => block.setup)).toEqual([false, true]);
+            expect(blocks[1].lang).toBe('js');
+        });
+
+        it('should skip self-closing script tags', () => {
+            expect(parser.extractScriptBlocks('<script src="./card.ts" />')).toHaveLength(0);
+        });
+    });
+
+    describe('parse', () => {
+        it('should keep offsets of Vue script content', () => {
+            const sourceFile = parser.parse('/src/UserCard.vue', sfc);
+            const importDeclaration = sourceFile.statements.find(ts.isImportDeclaration)!;
+            const interfaceDeclaration = sourceFile.statements.find(ts.isInterfaceDeclaration)!;
+
+            expect(sourceFile.text.length).toBe(sfc.length);
+            expect(sfc.slice(importDeclaration.getStart(), importDeclaration.getEnd()))
+                .toBe('import type { User } from "./types";');
+            expect(sfc.slice(interfaceDeclaration.getStart(), interfaceDeclaration.getEnd()))
+                .toBe('interface Props { user: User }');
+        });
+
+        it('should parse template and style blocks as whitespace', () => {
+            const sourceFile = parser.parse('/src/UserCard.vue', sfc);
+
+            expect(sourceFile.statements).toHaveLength(3);
+            expect(sourceFile.text).not.toContain('<template>');
+            expect(sourceFile.text).not.toContain('.card');
+        });
+
+        it('should parse TypeScript files as-is', () => {
+            const text = 'export interface User { id: string }';
+            expect(parser.parse('/src/user.ts', text).text).toBe(text);
+        });
+    });
+
+    describe('getImportInsertOffset', () => {
+        it('should insert at the start of the script setup block in Vue files', () => {
+            const offset = parser.getImportInsertOffset('/src/UserCard.vue', sfc);
+            expect(sfc.slice(offset).startsWith('import type { User }')).toBe(true);
+        });
+
+        it('should insert at the start of other files', () => {
+            expect(parser.getImportInsertOffset('/src/user.ts', 'const a = 1;')).toBe(0);
+        });
+    });
+});
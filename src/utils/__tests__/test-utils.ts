@@ -54,3 +54,307 @@ export const createMockVscode = (workspaceRoot: string = '/mock/workspace', tsco
     },
     WorkspaceEdit: MockWorkspaceEdit
 });
+
+class MemoryPosition {
+    constructor(public readonly line: number, public readonly character: number) {}
+
+    compareTo(other: MemoryPosition) {
+        return this.line - other.line || this.character - other.character;
+    }
+
+    isBefore(other: MemoryPosition) {
+        return this.compareTo(other) < 0;
+    }
+
+    isAfter(other: MemoryPosition) {
+        return this.compareTo(other) > 0;
+    }
+
+    isEqual(other: MemoryPosition) {
+        return this.compareTo(other) === 0;
+    }
+}
+
+class MemoryRange {
+    public readonly start: MemoryPosition;
+    public readonly end: MemoryPosition;
+
+    constructor(start: MemoryPosition | number, end: MemoryPosition | number, endLine?: number, endCharacter?: number) {
+        if (typeof start === 'number') {
+            this.start = new MemoryPosition(start, end as number);
+            this.end = new MemoryPosition(endLine!, endCharacter!);
+        } else {
+            this.start = start;
+            this.end = end as MemoryPosition;
+        }
+    }
+
+    get isEmpty() {
+        return this.start.isEqual(this.end);
+    }
+
+    isEqual(other: MemoryRange) {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+}
+
+class MemoryUri {
+    public readonly scheme = 'file';
+
+    constructor(public readonly fsPath: string) {}
+
+    toString() {
+        return `file://${this.fsPath}`;
+    }
+}
+
+type MemoryEditOperation =
+    | { kind: 'text'; uri: MemoryUri; range: MemoryRange; newText: string; metadata?: unknown }
+    | { kind: 'create'; uri: MemoryUri; options: { overwrite?: boolean; ignoreIfExists?: boolean }; metadata?: unknown }
+    | { kind: 'delete'; uri: MemoryUri; options: { ignoreIfNotExists?: boolean }; metadata?: unknown };
+
+class MemoryWorkspaceEdit {
+    /** Every recorded operation, in order */
+    public readonly operations: MemoryEditOperation[] = [];
+
+    replace(uri: MemoryUri, range: MemoryRange, newText: string, metadata?: unknown) {
+        this.operations.push({ kind: 'text', uri, range, newText, metadata });
+    }
+
+    insert(uri: MemoryUri, position: MemoryPosition, newText: string, metadata?: unknown) {
+        this.replace(uri, new MemoryRange(position, position), newText, metadata);
+    }
+
+    delete(uri: MemoryUri, range: MemoryRange, metadata?: unknown) {
+        this.replace(uri, range, '', metadata);
+    }
+
+    createFile(uri: MemoryUri, options: { overwrite?: boolean; ignoreIfExists?: boolean } = {}, metadata?: unknown) {
+        this.operations.push({ kind: 'create', uri, options, metadata });
+    }
+
+    deleteFile(uri: MemoryUri, options: { ignoreIfNotExists?: boolean } = {}, metadata?: unknown) {
+        this.operations.push({ kind: 'delete', uri, options, metadata });
+    }
+
+    /** The text edits of each file, like `vscode.WorkspaceEdit.entries()` without file operations */
+    entries(): [MemoryUri, { range: MemoryRange; newText: string }[]][] {
+        const entries = new Map<string, [MemoryUri, { range: MemoryRange; newText: string }[]]>();
+        for (const operation of this.operations) {
+            if (operation.kind !== 'text') continue;
+            const entry = entries.get(operation.uri.toString()) || [operation.uri, []];
+            entry[1].push({ range: operation.range, newText: operation.newText });
+            entries.set(operation.uri.toString(), entry);
+        }
+        return [...entries.values()];
+    }
+}
+
+/**
+ * Files of an in-memory workspace, which `createMemoryVscode` opens, edits and saves like the
+ * editor does: edits leave documents dirty until they are saved.
+ */
+export class MemoryWorkspace {
+    /** The saved text of each file, by path */
+    public readonly files = new Map<string, string>();
+
+    /** The text of documents changed since they were saved, by path */
+    private unsaved = new Map<string, string>();
+
+    /** Replaces every file, discarding unsaved changes */
+    public reset(files: Record<string, string>) {
+        this.files.clear();
+        this.unsaved.clear();
+        Object.entries(files).forEach(([filePath, text]) => this.files.set(filePath, text));
+    }
+
+    public exists(filePath: string) {
+        return this.files.has(filePath);
+    }
+
+    /** The current text of a file, including unsaved changes */
+    public getText(filePath: string): string | undefined {
+        return this.unsaved.get(filePath) ?? this.files.get(filePath);
+    }
+
+    public isDirty(filePath: string) {
+        return this.unsaved.has(filePath);
+    }
+
+    public openTextDocument(uri: MemoryUri) {
+        if (!this.exists(uri.fsPath)) {
+            throw new Error(`File not found: ${uri.fsPath}`);
+        }
+        return new MemoryDocument(this, uri);
+    }
+
+    public save(filePath: string) {
+        const text = this.unsaved.get(filePath);
+        if (text !== undefined) {
+            this.files.set(filePath, text);
+            this.unsaved.delete(filePath);
+        }
+    }
+
+    /**
+     * Applies a workspace edit. Like the editor, it rejects overlapping text edits of a file, and
+     * creating or deleting files it can't.
+     */
+    public applyEdit(edit: MemoryWorkspaceEdit): boolean {
+        const textEdits = new Map<string, MemoryEditOperation[]>();
+        for (const operation of edit.operations) {
+            const filePath = operation.uri.fsPath;
+            if (operation.kind === 'text') {
+                textEdits.set(filePath, [...(textEdits.get(filePath) || []), operation]);
+                continue;
+            }
+            this.applyTextEdits(textEdits);
+            textEdits.clear();
+
+            if (operation.kind === 'create') {
+                if (this.exists(filePath) && !operation.options.overwrite) {
+                    if (operation.options.ignoreIfExists) continue;
+                    return false;
+                }
+                this.files.set(filePath, '');
+                this.unsaved.delete(filePath);
+            } else {
+                if (!this.exists(filePath)) {
+                    if (operation.options.ignoreIfNotExists) continue;
+                    return false;
+                }
+                this.files.delete(filePath);
+                this.unsaved.delete(filePath);
+            }
+        }
+        this.applyTextEdits(textEdits);
+        return true;
+    }
+
+    private applyTextEdits(textEdits: Map<string, MemoryEditOperation[]>) {
+        for (const [filePath, operations] of textEdits) {
+            const document = this.openTextDocument(new MemoryUri(filePath));
+            const edits = (operations as Extract<MemoryEditOperation, { kind: 'text' }>[])
+                .map(operation => ({ start: document.offsetAt(operation.range.start), end: document.offsetAt(operation.range.end), newText: operation.newText }))
+                .sort((a, b) => a.start - b.start || a.end - b.end);
+            edits.forEach((textEdit, index) => {
+                if (index > 0 && textEdit.start < edits[index - 1].end) {
+                    throw new Error('Overlapping ranges are not allowed!');
+                }
+            });
+
+            let text = document.getText();
+            for (const { start, end, newText } of [...edits].reverse()) {
+                text = text.slice(0, start) + newText + text.slice(end);
+            }
+            this.unsaved.set(filePath, text);
+        }
+    }
+}
+
+class MemoryDocument {
+    constructor(private workspace: MemoryWorkspace, public readonly uri: MemoryUri) {}
+
+    get fileName() {
+        return this.uri.fsPath;
+    }
+
+    get isDirty() {
+        return this.workspace.isDirty(this.uri.fsPath);
+    }
+
+    get lineCount() {
+        return this.getText().split('\n').length;
+    }
+
+    getText() {
+        return this.workspace.getText(this.uri.fsPath) ?? '';
+    }
+
+    positionAt(offset: number) {
+        const before = this.getText().slice(0, Math.max(0, offset));
+        const lineStart = before.lastIndexOf('\n') + 1;
+        return new MemoryPosition(before.split('\n').length - 1, before.length - lineStart);
+    }
+
+    offsetAt(position: MemoryPosition) {
+        const lines = this.getText().split('\n');
+        const line = Math.min(position.line, lines.length - 1);
+        const lineStart = lines.slice(0, line).reduce((offset, lineText) => offset + lineText.length + 1, 0);
+        return lineStart + Math.min(position.character, lines[line].length);
+    }
+
+    lineAt(line: number) {
+        const text = this.getText().split('\n')[line].replace(/\r$/, '');
+        return { text, range: new MemoryRange(line, 0, line, text.length) };
+    }
+
+    validateRange(range: MemoryRange) {
+        const validate = (position: MemoryPosition) => this.positionAt(this.offsetAt(position));
+        return new MemoryRange(validate(range.start), validate(range.end));
+    }
+
+    async save() {
+        this.workspace.save(this.uri.fsPath);
+        return true;
+    }
+}
+
+/** The workspace behind `createMemoryVscode`, shared with the tests using it */
+export const memoryWorkspace = new MemoryWorkspace();
+
+/**
+ * Mocks vscode with the in-memory `memoryWorkspace`, whose files the workspace functions open,
+ * find, edit and save
+ * @param workspaceRoot - The path of the only workspace folder
+ * @example
+ * vi.mock('vscode', () => createMemoryVscode());
+ * memoryWorkspace.reset({ '/project/src/types.ts': 'export interface User {}\n' });
+ */
+export const createMemoryVscode = (workspaceRoot: string = '/project') => {
+    const settings: Record<string, unknown> = {};
+    const toPath = (pathOrUri: string | MemoryUri) => typeof pathOrUri === 'string' ? pathOrUri : pathOrUri.fsPath;
+
+    const workspaceFolder = { uri: new MemoryUri(workspaceRoot), name: path.basename(workspaceRoot), index: 0 };
+
+    return {
+        workspace: {
+            workspaceFolders: [workspaceFolder],
+            getWorkspaceFolder: (uri: MemoryUri) => uri.fsPath.startsWith(workspaceRoot + '/') ? workspaceFolder : undefined,
+            settings,
+            getConfiguration: vi.fn(() => ({
+                get: (key: string, defaultValue?: unknown) => settings[key] ?? defaultValue,
+                inspect: (key: string) => ({ key, workspaceValue: settings[key] })
+            })),
+            asRelativePath: (pathOrUri: string | MemoryUri) => path.relative(workspaceRoot, toPath(pathOrUri)),
+            openTextDocument: vi.fn(async (uri: MemoryUri) => memoryWorkspace.openTextDocument(uri)),
+            applyEdit: vi.fn(async (edit: MemoryWorkspaceEdit) => memoryWorkspace.applyEdit(edit)),
+            findFiles: vi.fn(async () => [...memoryWorkspace.files.keys()].map(filePath => new MemoryUri(filePath))),
+            get textDocuments() {
+                return [...memoryWorkspace.files.keys()]
+                    .filter(filePath => memoryWorkspace.isDirty(filePath))
+                    .map(filePath => memoryWorkspace.openTextDocument(new MemoryUri(filePath)));
+            },
+            fs: {
+                isWritableFileSystem: vi.fn(() => true),
+                stat: vi.fn(async (uri: MemoryUri) => {
+                    if (!memoryWorkspace.exists(uri.fsPath)) {
+                        throw new Error(`File not found: ${uri.fsPath}`);
+                    }
+                    return { type: 1 };
+                }),
+                readFile: vi.fn(async (uri: MemoryUri) => Buffer.from(memoryWorkspace.openTextDocument(uri).getText()))
+            }
+        },
+        Uri: {
+            file: (filePath: string) => new MemoryUri(filePath)
+        },
+        Position: MemoryPosition,
+        Range: MemoryRange,
+        Selection: class extends MemoryRange {},
+        Location: class {
+            constructor(public uri: MemoryUri, public range: MemoryRange) {}
+        },
+        WorkspaceEdit: MemoryWorkspaceEdit
+    };
+};
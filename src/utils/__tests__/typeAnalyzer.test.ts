@@ -0,0 +1,314 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as ts from 'typescript';
+import { TypeAnalyzer } from '../typeAnalyzer';
+import { ScriptParser } from '../scriptParser';
+
+vi.mock('vscode', () => ({}));
+
+describe('TypeAnalyzer', () => {
+    let typeAnalyzer: TypeAnalyzer;
+
+    const parse = (lines: string[]) =>
+        ts.createSourceFile('/project/src/types.ts', lines.join('\n'), ts.ScriptTarget.Latest, true);
+
+    const findDeclaration = (sourceFile: ts.SourceFile, name: string) =>
+        typeAnalyzer.getTopLevelDeclarations(sourceFile).find(typeInfo => typeInfo.name === name)!;
+
+    beforeEach(() => {
+        typeAnalyzer = new TypeAnalyzer();
+    });
+
+    describe('getDeclarationText', () => {
+        it('should include the JSDoc, line comments and trailing comment of a declaration', () => {
+            const sourceFile = parse([
+                'import { Id } from "./id"; // ids',
+                '',
+                '// Models',
+                '',
+                '/**',
+                ' * A registered user',
+                ' * @deprecated Use Account',
+                ' */',
+                '// eslint-disable-next-line @typescript-eslint/naming-convention',
+                'export interface User { id: Id } // keep in sync with the API',
+                'export interface Order {}'
+            ]);
+            const user = findDeclaration(sourceFile, 'User');
+
+            expect(typeAnalyzer.getDeclarationText(user)).toBe([
+                '/**',
+                ' * A registered user',
+                ' * @deprecated Use Account',
+                ' */',
+                '// eslint-disable-next-line @typescript-eslint/naming-convention',
+                'export interface User { id: Id } // keep in sync with the API'
+            ].join('\n'));
+        });
+
+        it('should leave the comment ending the previous statement\'s line', () => {
+            const sourceFile = parse([
+                'export type Id = string; // opaque',
+                'export interface User { id: Id }'
+            ]);
+            const user = findDeclaration(sourceFile, 'User');
+
+            expect(typeAnalyzer.getDeclarationText(user)).toBe('export interface User { id: Id }');
+        });
+    });
+
+    describe('getDeclarationText with exported', () => {
+        it('should export every overload after the decorators and comments', () => {
+            const sourceFile = parse([
+                '/** Parses a date */',
+                'function parse(value: string): Date;',
+                'function parse(value: string | number): Date { return new Date(value); }',
+                '@Injectable() abstract class Service {}'
+            ]);
+
+            expect(typeAnalyzer.getDeclarationText(findDeclaration(sourceFile, 'parse'), true)).toBe([
+                '/** Parses a date */',
+                'export function parse(value: string): Date;',
+                'export function parse(value: string | number): Date { return new Date(value); }'
+            ].join('\n'));
+            expect(typeAnalyzer.getDeclarationText(findDeclaration(sourceFile, 'Service'), true))
+                .toBe('@Injectable() export abstract class Service {}');
+        });
+    });
+
+    describe('isStructurallyIdentical', () => {
+        it('should ignore comments, formatting, modifiers and member order', () => {
+            const moved = parse([
+                'interface User<T> extends Base { id: string; data: T }',
+                'type Status = "active" | "inactive";',
+                'enum Role { Admin, User }'
+            ]);
+            const existing = parse([
+                'export interface User<T> extends Base {',
+                '    /** The payload */',
+                '    data: T;',
+                '    id: string;',
+                '}',
+                'export type Status = \'active\' | \'inactive\';',
+                'export enum Role { Admin, User, }'
+            ]);
+
+            for (const name of ['User', 'Status', 'Role']) {
+                expect(typeAnalyzer.isStructurallyIdentical(
+                    findDeclaration(moved, name).node,
+                    findDeclaration(existing, name).node
+                )).toBe(true);
+            }
+        });
+
+        it('should tell apart different shapes and never match values', () => {
+            const moved = parse([
+                'interface User { id: string }',
+                'enum Role { Admin, User }',
+                'function format() {}'
+            ]);
+            const existing = parse([
+                'interface User { id: number }',
+                'enum Role { User, Admin }',
+                'function format() {}'
+            ]);
+
+            for (const name of ['User', 'Role', 'format']) {
+                expect(typeAnalyzer.isStructurallyIdentical(
+                    findDeclaration(moved, name).node,
+                    findDeclaration(existing, name).node
+                )).toBe(false);
+            }
+        });
+    });
+
+    describe('findLocalDependencies', () => {
+        it('should collect the transitive closure of local declarations in source order', async () => {
+            const sourceFile = parse([
+                'import { Money } from "./money";',
+                'interface Product { id: string; price: Money }',
+                'interface Customer { name: string }',
+                'interface Order { items: OrderItem[] }',
+                'interface OrderItem { product: Product; discount: typeof defaultDiscount }',
+                'const defaultDiscount = 0;'
+            ]);
+
+            const dependencies = await typeAnalyzer.findLocalDependencies(findDeclaration(sourceFile, 'Order'));
+
+            expect(dependencies.map(dependency => dependency.name)).toEqual(['Product', 'OrderItem', 'defaultDiscount']);
+        });
+
+        it('should stop at declarations referencing each other', async () => {
+            const sourceFile = parse([
+                'interface Category { parent?: Category; products: Product[] }',
+                'interface Product { category: Category }'
+            ]);
+
+            const dependencies = await typeAnalyzer.findLocalDependencies(findDeclaration(sourceFile, 'Product'));
+
+            expect(dependencies.map(dependency => dependency.name)).toEqual(['Category']);
+        });
+    });
+
+    describe('getNamesUsedOutside', () => {
+        it('should only collect names used outside of imports and the moved declarations', () => {
+            const sourceFile = parse([
+                'import { Money, Currency } from "./money";',
+                'interface Order { total: Money; item: OrderItem }',
+                'interface OrderItem { price: number }',
+                'export interface Cart { order: Order; currency: Currency }'
+            ]);
+            const moved = [findDeclaration(sourceFile, 'Order'), findDeclaration(sourceFile, 'OrderItem')];
+
+            const names = typeAnalyzer.getNamesUsedOutside(moved);
+
+            expect(names.has('Order')).toBe(true);
+            expect(names.has('Currency')).toBe(true);
+            expect(names.has('Money')).toBe(false);
+            expect(names.has('OrderItem')).toBe(false);
+        });
+
+        it('should count the names used in a Vue template', () => {
+            const text = [
+                '<template><user-card :status="Status.Active" /></template>',
+                '<script setup lang="ts">',
+                'import UserCard from "./UserCard.vue";',
+                'enum Status { Active }',
+                '</script>'
+            ].join('\n');
+            const sourceFile = new ScriptParser().parse('/project/src/App.vue', text);
+
+            const names = typeAnalyzer.getNamesUsedOutside([findDeclaration(sourceFile, 'Status')], text);
+
+            expect(names.has('Status')).toBe(true);
+            expect(names.has('UserCard')).toBe(true);
+        });
+    });
+
+    describe('findInsertOffset', () => {
+        const movedFile = parse([
+            'import { Money } from "./money";',
+            'export interface OrderItem { price: Money }',
+            'export function total(items: OrderItem[]): number { return 0; }'
+        ]);
+        const orderItem = () => findDeclaration(movedFile, 'OrderItem');
+
+        const lineOf = (sourceFile: ts.SourceFile, offset: number | undefined) =>
+            offset === undefined ? undefined : sourceFile.getLineAndCharacterOfPosition(offset).line;
+
+        it('should group declarations with their kind, before closing statements', () => {
+            const destination = parse([
+                'import { Api } from "./api";',
+                '',
+                'export interface Order { id: string }',
+                '',
+                '/** Creates an order */',
+                'export function createOrder(): Order { return { id: "" }; }',
+                '',
+                'export default createOrder;',
+                'declare module "./api" {}'
+            ]);
+
+            expect(lineOf(destination, typeAnalyzer.findInsertOffset(destination, [orderItem()]))).toBe(4);
+        });
+
+        it('should insert after the declarations the moved ones use and before their users', () => {
+            const destination = parse([
+                'export type Currency = string;',
+                'export interface Money { amount: number; currency: Currency }',
+                'export const cart: OrderItem[] = [];',
+                'export interface Invoice { total: Money }'
+            ]);
+
+            expect(lineOf(destination, typeAnalyzer.findInsertOffset(destination, [orderItem()]))).toBe(2);
+        });
+
+        it('should append when nothing needs to follow the moved declarations', () => {
+            const destination = parse(['import { Api } from "./api";', 'export interface Order {}']);
+
+            expect(typeAnalyzer.findInsertOffset(destination, [orderItem()])).toBeUndefined();
+        });
+    });
+
+    describe('getNamespaceMembers', () => {
+        it('should collect the members used in values, types and JSDoc', () => {
+            const sourceFile = parse([
+                'import * as Models from "./models";',
+                'let user: Models.User;',
+                'const role = Models.Role.Admin;',
+                '/** @type {Models.Order} */',
+                'let order;'
+            ]);
+
+            expect(typeAnalyzer.getNamespaceMembers(sourceFile, 'Models')).toEqual(['User', 'Role', 'Order']);
+        });
+
+        it('should return undefined for a namespace used as a whole', () => {
+            const sourceFile = parse([
+                'import * as Models from "./models";',
+                'let user: Models.User;',
+                'register(Models);'
+            ]);
+
+            expect(typeAnalyzer.getNamespaceMembers(sourceFile, 'Models')).toBeUndefined();
+        });
+    });
+
+    describe('findImportTypes', () => {
+        it('should collect the import types of type annotations and JSDoc comments', () => {
+            const sourceFile = ts.createSourceFile('/project/src/app.js', [
+                '/** @type {import("./types").User} */',
+                'let user;',
+                '/** @typedef {import("./models").Order.Item} OrderItem */',
+                'let orders = /** @type {Array<import("./models").Order>} */ ([]);'
+            ].join('\n'), ts.ScriptTarget.Latest, true);
+
+            const importTypes = typeAnalyzer.findImportTypes(sourceFile);
+
+            expect(importTypes.map(importType => importType.getText())).toEqual([
+                'import("./types").User',
+                'import("./models").Order.Item',
+                'import("./models").Order'
+            ]);
+            expect(importTypes.map(importType => typeAnalyzer.getImportTypeName(importType)?.text)).toEqual(['User', 'Order', 'Order']);
+        });
+
+        it('should collect the import types of type annotations in TypeScript', () => {
+            const sourceFile = parse([
+                'let user: import("./types").User;',
+                'type Models = typeof import("./models");'
+            ]);
+
+            const importTypes = typeAnalyzer.findImportTypes(sourceFile);
+
+            expect(importTypes.map(importType => typeAnalyzer.getImportTypeName(importType)?.text)).toEqual(['User', undefined]);
+        });
+    });
+
+    describe('findNamespaceDependencies', () => {
+        it('should collect the namespaces the declarations reference, with every merged block', async () => {
+            const sourceFile = parse([
+                'namespace Models { export interface User { id: string } }',
+                'namespace Models { export const create = () => ({ id: "" }); }',
+                'declare namespace Api { interface Response {} }',
+                'namespace Unused { export interface Other {} }',
+                'export interface Order { user: Models.User; response: Api.Response }'
+            ]);
+
+            const namespaces = await typeAnalyzer.findNamespaceDependencies([findDeclaration(sourceFile, 'Order')]);
+
+            expect(namespaces.map(({ name, declarations, isValue }) => [name, declarations?.length, isValue]))
+                .toEqual([['Models', 2, true], ['Api', 1, false]]);
+        });
+
+        it('should treat namespaces of nothing but types as types', async () => {
+            const sourceFile = parse([
+                'namespace Models.Api { export interface User {} }',
+                'export const user: Models.Api.User = {};'
+            ]);
+
+            const namespaces = await typeAnalyzer.findNamespaceDependencies([findDeclaration(sourceFile, 'user')]);
+
+            expect(namespaces.map(({ name, isValue }) => [name, isValue])).toEqual([['Models', false]]);
+        });
+    });
+});
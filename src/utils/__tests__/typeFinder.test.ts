@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMemoryVscode, memoryWorkspace } from './test-utils';
+
+vi.mock('vscode', () => createMemoryVscode());
+
+import * as vscode from 'vscode';
+import { TypeFinder } from '../typeFinder';
+
+describe('TypeFinder', () => {
+    let typeFinder: TypeFinder;
+    const typesUri = vscode.Uri.file('/project/src/types.ts');
+    const typesFile = [
+        'import { Id } from \'./id\';',
+        '',
+        'export interface User { id: Id }',
+        'export type Role = \'admin\' | \'user\';',
+        'export enum Status { Active, Inactive }',
+        'export function isAdmin(role: Role) { return role === \'admin\'; }',
+        ''
+    ].join('\n');
+
+    /** Creates a selection from one offset of types.ts to another, a cursor if only one is given */
+    const select = (document: vscode.TextDocument, start: number, end = start) =>
+        new vscode.Selection(document.positionAt(start), document.positionAt(end));
+
+    beforeEach(() => {
+        memoryWorkspace.reset({ '/project/src/types.ts': typesFile });
+        typeFinder = new TypeFinder();
+    });
+
+    describe('findTypesAtSelections', () => {
+        it('should find the declaration a cursor is in', async () => {
+            const document = await vscode.workspace.openTextDocument(typesUri);
+
+            const types = await typeFinder.findTypesAtSelections(document, [select(document, typesFile.indexOf('Role ='))]);
+
+            expect(types.map(typeInfo => typeInfo.name)).toEqual(['Role']);
+        });
+
+        it('should find every declaration a range overlaps', async () => {
+            const document = await vscode.workspace.openTextDocument(typesUri);
+
+            const types = await typeFinder.findTypesAtSelections(document, [
+                select(document, typesFile.indexOf('id: Id'), typesFile.indexOf('Active'))
+            ]);
+
+            expect(types.map(typeInfo => typeInfo.name)).toEqual(['User', 'Role', 'Status']);
+        });
+
+        it('should find the declarations of every cursor once, in source order', async () => {
+            const document = await vscode.workspace.openTextDocument(typesUri);
+
+            const types = await typeFinder.findTypesAtSelections(document, [
+                select(document, typesFile.indexOf('isAdmin')),
+                select(document, typesFile.indexOf('User')),
+                select(document, typesFile.indexOf('id: Id'))
+            ]);
+
+            expect(types.map(typeInfo => typeInfo.name)).toEqual(['User', 'isAdmin']);
+        });
+
+        it('should find nothing for selections outside of any declaration', async () => {
+            const document = await vscode.workspace.openTextDocument(typesUri);
+
+            const types = await typeFinder.findTypesAtSelections(document, [select(document, typesFile.indexOf('\n\n') + 1)]);
+
+            expect(types).toEqual([]);
+        });
+    });
+
+    describe('findAllTypesInDocument', () => {
+        it('should list every top-level declaration in source order', async () => {
+            const document = await vscode.workspace.openTextDocument(typesUri);
+
+            const types = await typeFinder.findAllTypesInDocument(document);
+
+            expect(types.map(typeInfo => typeInfo.name)).toEqual(['User', 'Role', 'Status', 'isAdmin']);
+        });
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as ts from 'typescript';
+
+let files: Record<string, string> = {};
+
+vi.mock('vscode', () => ({
+    workspace: {
+        workspaceFolders: [{ uri: { fsPath: '/project' } }]
+    },
+    Uri: {
+        file: (fsPath: string) => ({ fsPath })
+    },
+    Location: class {
+        constructor(public uri: { fsPath: string }, public range: unknown) {}
+    },
+    Range: class {
+        constructor(public startLine: number, public startCharacter: number, public endLine: number, public endCharacter: number) {}
+    }
+}));
+
+vi.mock('../workspaceScanner', () => ({
+    WorkspaceScanner: vi.fn().mockImplementation(() => ({
+        findFiles: async () => Object.keys(files).map(fsPath => ({ fsPath })),
+        readFile: async (uri: { fsPath: string }) => files[uri.fsPath]
+    }))
+}));
+
+// Every file is outside any project, which uses the default compiler options
+vi.mock('../projectResolver', () => ({
+    ProjectResolver: vi.fn().mockImplementation(() => ({
+        getConfigPath: () => undefined
+    }))
+}));
+
+import { WorkspaceLanguageService } from '../workspaceLanguageService';
+
+describe('WorkspaceLanguageService', () => {
+    const { directoryExists } = ts.sys;
+
+    beforeEach(() => {
+        files = {
+            '/project/src/types.ts': 'export interface User { id: string }\n',
+            '/project/src/app.ts': 'import type { User } from \'./types\';\nexport const users: User[] = [];\n',
+            '/project/src/UserCard.vue': [
+                '<template><div>{{ user.id }}</div></template>',
+                '<script setup lang="ts">',
+                'import type { User } from \'./types\';',
+                'defineProps<{ user: User }>();',
+                '</script>',
+                ''
+            ].join('\n')
+        };
+        vi.spyOn(ts.sys, 'directoryExists').mockImplementation(dirPath => dirPath.startsWith('/project') || directoryExists(dirPath));
+    });
+
+    it('should find the references in TypeScript files and Vue components', async () => {
+        const languageService = new WorkspaceLanguageService();
+
+        const references = await languageService.findReferences({ fsPath: '/project/src/types.ts' } as any, 'export interface '.length);
+
+        expect(references.map(reference => [reference.uri.fsPath, (reference.range as any).startLine]).sort()).toEqual([
+            ['/project/src/UserCard.vue', 2],
+            ['/project/src/UserCard.vue', 3],
+            ['/project/src/app.ts', 0],
+            ['/project/src/app.ts', 1],
+            ['/project/src/types.ts', 0]
+        ]);
+    });
+
+    it('should find the references of a declaration in a Vue component', async () => {
+        files['/project/src/UserCard.vue'] = '<script lang="ts">\nexport interface Props { id: string }\n</script>\n';
+        files['/project/src/app.ts'] = 'import type { Props } from \'./UserCard.vue\';\nlet props: Props;\n';
+        const languageService = new WorkspaceLanguageService();
+
+        const references = await languageService.findReferences({ fsPath: '/project/src/UserCard.vue' } as any, files['/project/src/UserCard.vue'].indexOf('Props'));
+
+        expect(references.map(reference => reference.uri.fsPath).sort()).toEqual([
+            '/project/src/UserCard.vue',
+            '/project/src/app.ts',
+            '/project/src/app.ts'
+        ]);
+    });
+});
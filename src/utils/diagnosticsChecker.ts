@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import * as ts from 'typescript';
+import * as path from 'path';
+import { ProjectResolver } from './projectResolver';
+
+/**
+ * A type error found by the `DiagnosticsChecker`
+ */
+export interface CompileError {
+    /** Absolute path of the file containing the error */
+    filePath: string;
+    /** The 1-based line of the error */
+    line: number;
+    /** The TypeScript error code, e.g. 2304 for "Cannot find name" */
+    code: number;
+    message: string;
+}
+
+/**
+ * Lines a change moves from one file to another, whose errors move along with them
+ */
+export interface MovedLines {
+    /** Absolute path of the file the lines are moved out of */
+    filePath: string;
+    /** The first moved line, 1-based */
+    startLine: number;
+    /** The last moved line, 1-based */
+    endLine: number;
+    /** Absolute path of the file the lines are moved into */
+    destinationPath: string;
+}
+
+/** Files the checker can type-check, Vue components need Volar's language tools */
+const CHECKED_FILE = /\.(ts|tsx|mts|cts)$/;
+
+/**
+ * Type-checks files with a TypeScript `Program` per project, to find the errors a move introduces
+ * by comparing the errors before and after it.
+ *
+ * Each file is checked with the compiler options of its project's tsconfig.json. Open documents
+ * are read from the editor, including unsaved changes, everything else from disk. Files the
+ * checked files import are parsed once and reused by later checks, so only the checked files
+ * themselves are read again after the move. Checking yields to the event loop between projects
+ * and files, so the editor stays responsive while large projects are checked.
+ *
+ * @example
+ * ```typescript
+ * const checker = new DiagnosticsChecker();
+ * const before = await checker.collectErrors(uris);
+ * await transaction.commit();
+ * const newErrors = checker.findNewErrors(before, await checker.collectErrors(uris), movedLines);
+ * // [{ filePath: '/src/app.ts', line: 3, code: 2305, message: "Module './types' has no exported member 'User'." }]
+ * ```
+ */
+export class DiagnosticsChecker {
+    private projectResolver = new ProjectResolver();
+
+    /** Parsed files that aren't checked, such as the lib files, by language version and path */
+    private sourceFiles = new Map<string, ts.SourceFile>();
+
+    /**
+     * Type-checks files and collects their errors
+     * @param uris - The files to check. Vue components and files that don't exist are skipped.
+     */
+    public async collectErrors(uris: vscode.Uri[]): Promise<CompileError[]> {
+        const filesByConfig = new Map<string, string[]>();
+        for (const uri of uris) {
+            if (!CHECKED_FILE.test(uri.fsPath) || !ts.sys.fileExists(uri.fsPath)) continue;
+            const configPath = this.projectResolver.getConfigPath(uri.fsPath) || '';
+            filesByConfig.set(configPath, [...(filesByConfig.get(configPath) || []), uri.fsPath]);
+        }
+
+        const errors: CompileError[] = [];
+        for (const [configPath, filePaths] of filesByConfig) {
+            await this.yieldToEventLoop();
+            const options = { ...this.projectResolver.getCompilerOptions(configPath), noEmit: true };
+            const program = ts.createProgram(filePaths, options, this.createHost(options, filePaths));
+
+            for (const filePath of filePaths) {
+                // Type-checking a file is the expensive part, its program is only parsed so far
+                await this.yieldToEventLoop();
+                const sourceFile = program.getSourceFile(filePath);
+                if (!sourceFile) continue;
+
+                const diagnostics = [
+                    ...program.getSyntacticDiagnostics(sourceFile),
+                    ...program.getSemanticDiagnostics(sourceFile)
+                ];
+                for (const diagnostic of diagnostics) {
+                    if (diagnostic.category !== ts.DiagnosticCategory.Error) continue;
+                    errors.push({
+                        filePath,
+                        line: sourceFile.getLineAndCharacterOfPosition(diagnostic.start || 0).line + 1,
+                        code: diagnostic.code,
+                        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ')
+                    });
+                }
+            }
+        }
+        return errors;
+    }
+
+    /**
+     * Returns the errors found after a change that weren't there before it. Errors are matched by
+     * their file, code and message rather than their line, since the change shifts lines. Errors
+     * inside moved lines are expected in the file the lines were moved to.
+     * @param before - The errors before the change
+     * @param after - The errors after the change
+     * @param movedLines - The lines the change moved to other files, as they were before the change
+     */
+    public findNewErrors(before: CompileError[], after: CompileError[], movedLines: MovedLines[] = []): CompileError[] {
+        const getKey = (error: CompileError, filePath: string = error.filePath) =>
+            `${path.normalize(filePath)}:${error.code}:${error.message}`;
+
+        const unmatched = new Map<string, number>();
+        for (const error of before) {
+            const moved = movedLines.find(lines =>
+                path.normalize(lines.filePath) === path.normalize(error.filePath) &&
+                error.line >= lines.startLine && error.line <= lines.endLine
+            );
+            const key = getKey(error, moved?.destinationPath);
+            unmatched.set(key, (unmatched.get(key) || 0) + 1);
+        }
+
+        return after.filter(error => {
+            const key = getKey(error);
+            const count = unmatched.get(key) || 0;
+            if (count === 0) return true;
+            unmatched.set(key, count - 1);
+            return false;
+        });
+    }
+
+    /**
+     * Lets the extension host handle pending events, such as rendering progress, before checking on
+     */
+    private yieldToEventLoop(): Promise<void> {
+        return new Promise(resolve => setImmediate(resolve));
+    }
+
+    /**
+     * Creates a compiler host reading open documents from the editor and caching the files that
+     * aren't checked
+     * @param options - The compiler options of the program
+     * @param checkedPaths - The files being checked, which are always read again
+     */
+    private createHost(options: ts.CompilerOptions, checkedPaths: string[]): ts.CompilerHost {
+        const host = ts.createCompilerHost(options, true);
+        const readSourceFile = host.getSourceFile;
+        const checkedFiles = new Set(checkedPaths.map(filePath => path.normalize(filePath)));
+
+        host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+            const filePath = path.normalize(fileName);
+            const document = vscode.workspace.textDocuments.find(openDocument => openDocument.uri.fsPath === filePath);
+            if (document) {
+                return ts.createSourceFile(fileName, document.getText(), languageVersion, true);
+            }
+            if (checkedFiles.has(filePath)) {
+                return readSourceFile(fileName, languageVersion, onError, shouldCreateNewSourceFile);
+            }
+
+            // Projects targeting other versions, or module formats, parse the file differently
+            const key = `${JSON.stringify(languageVersion)}|${filePath}`;
+            let sourceFile = this.sourceFiles.get(key);
+            if (!sourceFile) {
+                sourceFile = readSourceFile(fileName, languageVersion, onError, shouldCreateNewSourceFile);
+                if (sourceFile) {
+                    this.sourceFiles.set(key, sourceFile);
+                }
+            }
+            return sourceFile;
+        };
+        return host;
+    }
+}
@@ -1,71 +1,193 @@
 import * as vscode from 'vscode';
-import * as ts from 'typescript';
+import * as path from 'path';
+import { TypeAnalyzer, TypeInfo } from './typeAnalyzer';
+import { ScriptParser } from './scriptParser';
 
 /**
  * Manages file operations for creating, updating, and deleting content in workspace files.
- * Uses VSCode's workspace edit API to perform file operations with proper undo/redo support.
+ * Operations are recorded into a caller-provided `WorkspaceEdit`, so a whole move can be
+ * applied at once with proper undo/redo support.
  */
 export class FileManager {
+    private typeAnalyzer = new TypeAnalyzer();
+    private scriptParser = new ScriptParser();
+
+    /**
+     * Checks whether a file exists
+     * @param uri - The file to check
+     */
+    public async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Returns a file next to another one named after a declaration, which doesn't exist yet
+     * @param siblingUri - The file whose directory the new file goes in
+     * @param name - The declaration's name, numbered as `User2.ts`, `User3.ts`... if `User.ts` exists
+     */
+    public async getNewFileUri(siblingUri: vscode.Uri, name: string): Promise<vscode.Uri> {
+        const directory = path.dirname(siblingUri.fsPath);
+        let uri = vscode.Uri.file(path.join(directory, `${name}.ts`));
+        for (let number = 2; await this.exists(uri); number++) {
+            uri = vscode.Uri.file(path.join(directory, `${name}${number}.ts`));
+        }
+        return uri;
+    }
+
     /**
      * Creates or updates a destination file with the provided content.
-     * If the file exists, appends the new content at the bottom with a newline separator.
-     * If the file doesn't exist, creates it with the provided content.
-     * 
+     * If the file exists, inserts the new content where the moved declarations belong (see
+     * `TypeAnalyzer.findInsertOffset`), or appends it at the bottom with a newline separator.
+     * If the file doesn't exist, creates it with the provided content and a final newline. An
+     * existing file is never overwritten, errors placing the content in it are thrown.
+     *
+     * @param edit - The workspace edit to record the operation in
      * @param destinationUri - The URI of the destination file to create or update
      * @param content - The content to write to the file
-     * @throws {Error} If the workspace edit fails to apply
+     * @param metadata - Optional metadata describing the edit in the refactor preview
+     * @param movedTypes - The declarations the content consists of, to place them in an existing file
      */
-    public async createDestinationFile(destinationUri: vscode.Uri, content: string): Promise<void> {
-        const edit = new vscode.WorkspaceEdit();
-        
-        try {
-            // Try to open existing file
-            const existingDocument = await vscode.workspace.openTextDocument(destinationUri);
-            const existingContent = existingDocument.getText();
-            
-            // Append new content at the bottom with a newline separator
-            const newContent = existingContent.trimEnd() + '\n\n' + content.trimStart();
-            
-            // Replace entire file content
-            const fullRange = new vscode.Range(
-                new vscode.Position(0, 0),
-                existingDocument.lineAt(existingDocument.lineCount - 1).range.end
-            );
-            edit.replace(destinationUri, fullRange, newContent);
-        } catch {
-            // File doesn't exist, create it
-            edit.createFile(destinationUri, { overwrite: true });
-            edit.insert(destinationUri, new vscode.Position(0, 0), content);
+    public async createDestinationFile(
+        edit: vscode.WorkspaceEdit,
+        destinationUri: vscode.Uri,
+        content: string,
+        metadata?: vscode.WorkspaceEditEntryMetadata,
+        movedTypes: TypeInfo[] = []
+    ): Promise<void> {
+        if (!await this.exists(destinationUri)) {
+            // Applying the edit fails rather than overwrite a file created in the meantime
+            edit.createFile(destinationUri, { overwrite: false }, metadata);
+            edit.insert(destinationUri, new vscode.Position(0, 0), content.trimEnd() + '\n', metadata);
+            return;
+        }
+
+        const existingDocument = await vscode.workspace.openTextDocument(destinationUri);
+        const existingContent = existingDocument.getText();
+
+        const insertOffset = movedTypes.length > 0
+            ? this.typeAnalyzer.findInsertOffset(this.scriptParser.parse(destinationUri.fsPath, existingContent), movedTypes)
+            : undefined;
+        if (insertOffset !== undefined) {
+            // Keep a blank line to the code above and below
+            const isAfterCode = existingContent.slice(0, insertOffset).trim() !== '' &&
+                !/\n[ \t]*\r?\n$/.test(existingContent.slice(0, insertOffset));
+            const position = existingDocument.positionAt(insertOffset);
+            edit.insert(destinationUri, position, (isAfterCode ? '\n' : '') + content.trim() + '\n\n', metadata);
+            return;
         }
-        
-        await vscode.workspace.applyEdit(edit);
+
+        // Append new content at the bottom with a newline separator. Only the trailing
+        // whitespace is replaced so import edits for the same file don't overlap.
+        const contentEnd = existingContent.trimEnd().length;
+        const appendRange = new vscode.Range(
+            existingDocument.positionAt(contentEnd),
+            existingDocument.positionAt(existingContent.length)
+        );
+        const separator = contentEnd > 0 ? '\n\n' : '';
+        edit.replace(destinationUri, appendRange, separator + content.trimStart() + '\n', metadata);
     }
 
     /**
-     * Deletes a TypeScript node from a source file.
-     * Uses the node's position information to determine the range to delete.
-     * 
-     * A TypeScript node represents a piece of TypeScript syntax in the Abstract Syntax Tree (AST).
-     * In this context, it refers to a type declaration like an interface, type alias, or enum.
-     * For example:
+     * Deletes declarations from a source file, given their ranges including their comments
+     * (see `TypeAnalyzer.getDeclarationRange`).
+     *
+     * Whole lines are deleted, so no indentation or empty line is left where a declaration was.
+     * Declarations separated only by blank lines are deleted together, and the blank lines that
+     * separated a declaration from its neighbours are collapsed so the source file doesn't
+     * accumulate empty lines:
      * ```typescript
-     * interface Person { ... }  // This entire interface declaration is a node
-     * type Status = "active" | "inactive";  // This type alias is a node
-     * enum Direction { ... }  // This enum declaration is a node
+     * interface Order { ... }
+     *
+     * interface User { ... }   // Deleting User leaves a single blank line
+     *
+     * interface Product { ... }
      * ```
-     * 
-     * @param sourceUri - The URI of the source file containing the node
-     * @param node - The TypeScript node to delete
-     * @throws {Error} If the file cannot be opened or the edit fails to apply
+     *
+     * @param edit - The workspace edit to record the deletion in
+     * @param sourceUri - The URI of the source file containing the declarations
+     * @param ranges - The offsets of each declaration
+     * @param metadata - Optional metadata describing the edit in the refactor preview
+     * @param replacement - Text left in place of the first declaration, e.g. a re-export stub
+     * @throws {Error} If the file cannot be opened
      */
-    public async deleteTypeFromSource(sourceUri: vscode.Uri, node: ts.Node): Promise<void> {
+    public async deleteTypeFromSource(
+        edit: vscode.WorkspaceEdit,
+        sourceUri: vscode.Uri,
+        ranges: { start: number; end: number }[],
+        metadata?: vscode.WorkspaceEditEntryMetadata,
+        replacement?: string
+    ): Promise<void> {
         const document = await vscode.workspace.openTextDocument(sourceUri);
-        const edit = new vscode.WorkspaceEdit();
-        
-        const start = document.positionAt(node.getStart());
-        const end = document.positionAt(node.getEnd());
-        
-        edit.delete(sourceUri, new vscode.Range(start, end));
-        await vscode.workspace.applyEdit(edit);
+        const text = document.getText();
+
+        const lineRanges = ranges
+            .map(range => this.expandToLines(text, range))
+            .sort((a, b) => a.start - b.start);
+        const merged: { start: number; end: number }[] = [];
+        for (const range of lineRanges) {
+            const previous = merged[merged.length - 1];
+            if (previous && text.slice(previous.end, range.start).trim() === '') {
+                previous.end = Math.max(previous.end, range.end);
+            } else {
+                merged.push({ ...range });
+            }
+        }
+
+        merged.forEach((range, index) => {
+            if (index === 0 && replacement) {
+                // The replacement takes the declaration's lines, so there are no blank lines to collapse
+                const lineBreak = /\r?\n$/.exec(text.slice(range.start, range.end))?.[0] || '';
+                const replacedRange = new vscode.Range(document.positionAt(range.start), document.positionAt(range.end));
+                edit.replace(sourceUri, replacedRange, replacement + lineBreak, metadata);
+                return;
+            }
+            const { start, end } = this.collapseBlankLines(text, range);
+            edit.delete(sourceUri, new vscode.Range(document.positionAt(start), document.positionAt(end)), metadata);
+        });
+    }
+
+    /**
+     * Expands a range to the whole lines it covers, unless other code shares those lines
+     */
+    private expandToLines(text: string, range: { start: number; end: number }): { start: number; end: number } {
+        const lineStart = text.lastIndexOf('\n', range.start - 1) + 1;
+        const restOfLine = /^[ \t]*(\r?\n|$)/.exec(text.slice(range.end));
+        if (text.slice(lineStart, range.start).trim() !== '' || !restOfLine) {
+            return range;
+        }
+        return { start: lineStart, end: range.end + restOfLine[0].length };
+    }
+
+    /**
+     * Extends a deleted range of whole lines over the blank lines around it that would otherwise
+     * double up: the blank lines after it if a blank line or the start of the file precedes it,
+     * and the blank lines before it if only blank lines follow it
+     */
+    private collapseBlankLines(text: string, range: { start: number; end: number }): { start: number; end: number } {
+        let { start, end } = range;
+        const isLineStart = start === 0 || text[start - 1] === '\n';
+        if (!isLineStart) {
+            return range;
+        }
+
+        const blankLinesAfter = /^([ \t]*\r?\n)*[ \t]*/.exec(text.slice(end))?.[0] || '';
+        const previousLineStart = text.lastIndexOf('\n', start - 2) + 1;
+        const isBlank = (lineStart: number, lineEnd: number) => text.slice(lineStart, lineEnd).trim() === '';
+
+        if (end + blankLinesAfter.length === text.length) {
+            // Nothing but whitespace follows, so the blank lines before would end the file
+            end = text.length;
+            while (start > 0 && isBlank(text.lastIndexOf('\n', start - 2) + 1, start)) {
+                start = text.lastIndexOf('\n', start - 2) + 1;
+            }
+        } else if (start === 0 || isBlank(previousLineStart, start)) {
+            end += blankLinesAfter.length - (/[ \t]*$/.exec(blankLinesAfter)?.[0].length || 0);
+        }
+        return { start, end };
     }
 }
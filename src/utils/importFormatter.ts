@@ -0,0 +1,375 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * How import and export declarations are written in a file
+ */
+export interface ImportFormat {
+    /** The quote around module specifiers */
+    quote: '"' | '\'';
+    /** Whether declarations end with a semicolon */
+    semicolon: boolean;
+    /** Whether single-line braces are padded with spaces, `{ A }` rather than `{A}` */
+    bracketSpacing: boolean;
+    /** Whether specifiers are kept in alphabetical order */
+    sortSpecifiers: boolean;
+    /** Indentation of specifiers in multi-line declarations */
+    indent: string;
+    /** Whether multi-line declarations end their last specifier with a comma */
+    trailingComma: boolean;
+    /** Line length beyond which declarations are wrapped onto one line per specifier */
+    printWidth: number;
+}
+
+/**
+ * The layout of one existing declaration's braces, kept when the declaration is rewritten
+ */
+interface BracesLayout {
+    multiline: boolean;
+    bracketSpacing: boolean;
+    indent: string;
+    trailingComma: boolean;
+    /** Whitespace before the closing brace of a multi-line declaration */
+    closing: string;
+}
+
+/**
+ * Formatting options read from the Prettier and EditorConfig files of a directory
+ */
+type FormatConfig = Partial<ImportFormat>;
+
+/** Prettier's line length, used when a file wraps its imports but no config sets one */
+const DEFAULT_PRINT_WIDTH = 80;
+
+/**
+ * Writes import and export declarations the way a file already writes them, so edits only show
+ * the specifiers that changed.
+ *
+ * The format is taken from the file's existing import and export declarations. Anything a file
+ * doesn't show, e.g. the indentation of wrapped imports in a file without any, is read from the
+ * nearest Prettier config (`.prettierrc`, `.prettierrc.json` or the `prettier` field of
+ * package.json) and `.editorconfig`, falling back to double quotes, semicolons and single-line
+ * declarations.
+ *
+ * @example
+ * ```typescript
+ * const formatter = new ImportFormatter();
+ * const format = formatter.getFormat(sourceFile); // file uses `import { a } from './a'`
+ * formatter.formatDeclaration('import', false, undefined, ['User'], './models', format);
+ * // Returns: "import { User } from './models'"
+ * ```
+ */
+export class ImportFormatter {
+    /** Formatting options of each directory's config files */
+    private configs = new Map<string, FormatConfig>();
+
+    /**
+     * Detects how a file writes its import and export declarations
+     * @param sourceFile - The parsed file
+     */
+    public getFormat(sourceFile: ts.SourceFile): ImportFormat {
+        const config = this.getConfig(path.dirname(sourceFile.fileName));
+        const text = sourceFile.getFullText();
+        const declarations: string[] = [];
+        for (const statement of sourceFile.statements) {
+            if (ts.isImportDeclaration(statement) || (ts.isExportDeclaration(statement) && !!statement.moduleSpecifier)) {
+                declarations.push(text.slice(statement.getStart(), statement.getEnd()));
+            }
+        }
+
+        const layouts = declarations.map(declaration => this.getBracesLayout(declaration))
+            .filter((layout): layout is BracesLayout => !!layout);
+        const multiline = layouts.find(layout => layout.multiline);
+        const singleLine = layouts.find(layout => !layout.multiline);
+        // Lists of a single specifier say nothing about the order
+        const specifierLists = declarations.map(declaration => this.getSpecifiers(declaration))
+            .filter(specifiers => specifiers.length > 1);
+        const quoted = declarations.map(declaration => /(["'])[^"'\n]*\1\s*;?\s*$/.exec(declaration)?.[1]).find(Boolean);
+        const semicolons = declarations.filter(declaration => declaration.trimEnd().endsWith(';')).length;
+
+        return {
+            quote: (quoted as ImportFormat['quote'] | undefined) ?? config.quote ?? '"',
+            semicolon: declarations.length > 0 ? semicolons * 2 >= declarations.length : config.semicolon ?? true,
+            bracketSpacing: singleLine?.bracketSpacing ?? config.bracketSpacing ?? true,
+            sortSpecifiers: specifierLists.every(specifiers => this.isSorted(specifiers)),
+            indent: multiline?.indent ?? config.indent ?? '  ',
+            trailingComma: multiline?.trailingComma ?? config.trailingComma ?? false,
+            printWidth: config.printWidth ?? (multiline ? DEFAULT_PRINT_WIDTH : Infinity)
+        };
+    }
+
+    /**
+     * Writes a declaration that has no existing text to follow
+     * @param keyword - `import` or `export` for re-exports
+     * @param isTypeOnly - Whether to write `import type` or `export type`
+     * @param defaultName - The default import, if any
+     * @param bindings - The named specifiers, or a namespace import such as `* as Models`
+     * @param moduleSpecifier - The module specifier without quotes
+     * @param format - The file's format
+     * @example
+     * // formatDeclaration('import', true, undefined, ['Order', 'User'], './models', format)
+     * // Returns: "import type { Order, User } from './models';"
+     */
+    public formatDeclaration(
+        keyword: 'import' | 'export',
+        isTypeOnly: boolean,
+        defaultName: string | undefined,
+        bindings: string[] | string,
+        moduleSpecifier: string,
+        format: ImportFormat
+    ): string {
+        const specifiers = typeof bindings === 'string' || !format.sortSpecifiers
+            ? bindings
+            : [...bindings].sort((a, b) => this.getName(a).localeCompare(this.getName(b)));
+        const prefix = `${keyword} ${isTypeOnly ? 'type ' : ''}${defaultName ? `${defaultName}${specifiers.length > 0 ? ', ' : ''}` : ''}`;
+        const suffix = ` from ${format.quote}${moduleSpecifier}${format.quote}${format.semicolon ? ';' : ''}`;
+
+        if (typeof specifiers === 'string') {
+            return prefix + specifiers + suffix;
+        }
+        if (specifiers.length === 0) {
+            return prefix.replace(/, $/, '') + suffix;
+        }
+        return prefix + this.formatBraces(specifiers, this.getDefaultLayout(format), prefix.length + suffix.length, format) + suffix;
+    }
+
+    /**
+     * Rewrites the default import and named specifiers of an existing declaration, keeping the rest
+     * as written: quotes, semicolon, and the spacing and wrapping of its braces
+     * @param declarationText - The declaration's current text
+     * @param keyword - `import`, or `export` for re-exports
+     * @param isTypeOnly - Whether the declaration is `import type` or `export type`
+     * @param defaultName - The default import to keep, if any
+     * @param specifiers - The specifiers to write between its braces, none to drop the braces
+     * @param format - The file's format, used when the declaration had no braces or grows too long
+     * @returns The declaration's new text
+     * @example
+     * // rewriteDeclaration("import {\n  Order,\n} from './models'", 'import', false, undefined, ['Order', 'User'], format)
+     * // Returns: "import {\n  Order,\n  User,\n} from './models'"
+     */
+    public rewriteDeclaration(
+        declarationText: string,
+        keyword: 'import' | 'export',
+        isTypeOnly: boolean,
+        defaultName: string | undefined,
+        specifiers: string[],
+        format: ImportFormat
+    ): string {
+        const layout = this.getBracesLayout(declarationText);
+        // Everything after the braces, or after the default import if there are none
+        const tail = layout
+            ? declarationText.slice(declarationText.indexOf('}', declarationText.indexOf('{')) + 1)
+            : declarationText.slice(/\s+from\s*["'][^"']*["'][^]*$/.exec(declarationText)?.index ?? declarationText.length);
+
+        const prefix = `${keyword} ${isTypeOnly ? 'type ' : ''}${defaultName ? `${defaultName}${specifiers.length > 0 ? ', ' : ''}` : ''}`;
+        if (specifiers.length === 0) {
+            return prefix.trimEnd() + tail;
+        }
+
+        const lineLength = prefix.length + tail.split('\n')[0].length;
+        return prefix + this.formatBraces(specifiers, layout ?? this.getDefaultLayout(format), lineLength, format) + tail;
+    }
+
+    /**
+     * Returns whether specifiers are in alphabetical order of their exported names
+     * @param specifiers - The specifiers' text, e.g. `type User as ApiUser`
+     */
+    public isSorted(specifiers: string[]): boolean {
+        const names = specifiers.map(specifier => this.getName(specifier));
+        return names.every((name, i) => i === 0 || names[i - 1].localeCompare(name) <= 0);
+    }
+
+    /**
+     * Writes the braces of a declaration in a layout. Single-line braces that make the declaration
+     * longer than the print width are wrapped onto one line per specifier, as the file wraps them.
+     * @param otherLength - Length of the declaration's text around the braces on the same line
+     * @param format - The file's format
+     */
+    private formatBraces(specifiers: string[], layout: BracesLayout, otherLength: number, format: ImportFormat): string {
+        const space = layout.bracketSpacing ? ' ' : '';
+        const singleLine = `{${space}${specifiers.join(', ')}${space}}`;
+        if (!layout.multiline && otherLength + singleLine.length <= format.printWidth) {
+            return singleLine;
+        }
+
+        const wrapped = layout.multiline ? layout : { ...this.getDefaultLayout(format), multiline: true };
+        const trailingComma = wrapped.trailingComma ? ',' : '';
+        return `{\n${specifiers.map(specifier => wrapped.indent + specifier).join(',\n')}${trailingComma}${wrapped.closing}}`;
+    }
+
+    /**
+     * Returns the layout of new braces in a file's format
+     */
+    private getDefaultLayout(format: ImportFormat): BracesLayout {
+        return {
+            multiline: false,
+            bracketSpacing: format.bracketSpacing,
+            indent: format.indent,
+            trailingComma: format.trailingComma,
+            closing: '\n'
+        };
+    }
+
+    /**
+     * Reads the layout of a declaration's braces
+     * @returns The layout, or undefined if the declaration has no braces
+     */
+    private getBracesLayout(declarationText: string): BracesLayout | undefined {
+        const open = declarationText.indexOf('{');
+        const close = declarationText.indexOf('}', open);
+        if (open === -1 || close === -1) {
+            return undefined;
+        }
+
+        const inner = declarationText.slice(open + 1, close);
+        const withoutTrailingComma = inner.replace(/,(\s*)$/, '$1');
+        return {
+            multiline: inner.includes('\n'),
+            bracketSpacing: inner.startsWith(' ') || inner.trim() === '',
+            indent: /\n([ \t]+)\S/.exec(inner)?.[1] ?? '  ',
+            trailingComma: /,\s*$/.test(inner),
+            closing: /\s*$/.exec(withoutTrailingComma)?.[0] || '\n'
+        };
+    }
+
+    /**
+     * Lists the specifiers between a declaration's braces
+     */
+    private getSpecifiers(declarationText: string): string[] {
+        const open = declarationText.indexOf('{');
+        const close = declarationText.indexOf('}', open);
+        if (open === -1 || close === -1) {
+            return [];
+        }
+        return declarationText.slice(open + 1, close).split(',').map(specifier => specifier.trim()).filter(Boolean);
+    }
+
+    /**
+     * Returns the exported name of a specifier, e.g. `User` for `type User as ApiUser`
+     */
+    private getName(specifier: string): string {
+        return specifier.replace(/^type\s+/, '').split(/\s+as\s+/)[0];
+    }
+
+    /**
+     * Reads the formatting options of the nearest Prettier and EditorConfig files, once per directory
+     */
+    private getConfig(directory: string): FormatConfig {
+        const cached = this.configs.get(directory);
+        if (cached) {
+            return cached;
+        }
+
+        const parent = path.dirname(directory);
+        const parentConfig = parent !== directory ? this.getConfig(parent) : {};
+        const config = { ...parentConfig, ...this.readEditorConfig(directory), ...this.readPrettierConfig(directory) };
+
+        this.configs.set(directory, config);
+        return config;
+    }
+
+    /**
+     * Reads a directory's Prettier config. Only JSON and flat YAML configs are read, since
+     * JavaScript configs would have to be executed.
+     */
+    private readPrettierConfig(directory: string): FormatConfig {
+        let options: Record<string, unknown> | undefined;
+        for (const fileName of ['.prettierrc', '.prettierrc.json', '.prettierrc.yaml', '.prettierrc.yml']) {
+            const text = this.readFile(path.join(directory, fileName));
+            if (text !== undefined) {
+                options = this.parseConfig(text);
+                break;
+            }
+        }
+        if (!options) {
+            const packageJson = this.parseConfig(this.readFile(path.join(directory, 'package.json')) ?? '');
+            if (packageJson?.prettier && typeof packageJson.prettier === 'object') {
+                options = packageJson.prettier as Record<string, unknown>;
+            }
+        }
+        if (!options) {
+            return {};
+        }
+
+        const config: FormatConfig = {
+            // Prettier's defaults apply to everything a config file leaves out
+            quote: options.singleQuote === true ? '\'' : '"',
+            semicolon: options.semi !== false,
+            bracketSpacing: options.bracketSpacing !== false,
+            trailingComma: options.trailingComma !== 'none',
+            printWidth: typeof options.printWidth === 'number' ? options.printWidth : DEFAULT_PRINT_WIDTH
+        };
+        if (options.useTabs === true) {
+            config.indent = '\t';
+        } else {
+            config.indent = ' '.repeat(typeof options.tabWidth === 'number' ? options.tabWidth : 2);
+        }
+        return config;
+    }
+
+    /**
+     * Reads the options of a directory's `.editorconfig` that apply to TypeScript files
+     */
+    private readEditorConfig(directory: string): FormatConfig {
+        const text = this.readFile(path.join(directory, '.editorconfig'));
+        if (text === undefined) {
+            return {};
+        }
+
+        const options: Record<string, string> = {};
+        let appliesToTypeScript = false;
+        for (const line of text.split(/\r?\n/)) {
+            const trimmed = line.trim();
+            const section = /^\[(.*)\]$/.exec(trimmed);
+            if (section) {
+                appliesToTypeScript = section[1] === '*' || /^\*\*?\/?\*?\.(\{[^}]*\bts\b[^}]*\}|ts)$/.test(section[1]);
+                continue;
+            }
+            const property = /^([\w-]+)\s*=\s*(.*)$/.exec(trimmed);
+            if (property && appliesToTypeScript) {
+                options[property[1].toLowerCase()] = property[2].trim().toLowerCase();
+            }
+        }
+
+        const config: FormatConfig = {};
+        if (options.indent_style === 'tab') {
+            config.indent = '\t';
+        } else if (/^\d+$/.test(options.indent_size || '')) {
+            config.indent = ' '.repeat(Number(options.indent_size));
+        }
+        if (/^\d+$/.test(options.max_line_length || '')) {
+            config.printWidth = Number(options.max_line_length);
+        }
+        if (options.quote_type === 'single' || options.quote_type === 'double') {
+            config.quote = options.quote_type === 'single' ? '\'' : '"';
+        }
+        return config;
+    }
+
+    /**
+     * Parses a JSON or flat YAML config
+     * @returns The options, or undefined if the text is neither
+     */
+    private parseConfig(text: string): Record<string, unknown> | undefined {
+        try {
+            const parsed = JSON.parse(text);
+            return parsed && typeof parsed === 'object' ? parsed : undefined;
+        } catch {
+            const options: Record<string, unknown> = {};
+            for (const line of text.split(/\r?\n/)) {
+                const option = /^(\w+)\s*:\s*["']?([^"'#]*?)["']?\s*(#.*)?$/.exec(line.trim());
+                if (!option) continue;
+                const value = option[2];
+                options[option[1]] = value === 'true' ? true : value === 'false' ? false : /^\d+$/.test(value) ? Number(value) : value;
+            }
+            return Object.keys(options).length > 0 ? options : undefined;
+        }
+    }
+
+    /**
+     * Reads a file if it exists
+     */
+    private readFile(filePath: string): string | undefined {
+        return ts.sys.fileExists(filePath) ? ts.sys.readFile(filePath) : undefined;
+    }
+}
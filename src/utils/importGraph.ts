@@ -0,0 +1,419 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import { PackageResolver } from './packageResolver';
+import { PathResolver } from './pathResolver';
+import { ProjectResolver } from './projectResolver';
+import { ScriptParser } from './scriptParser';
+import { WorkspaceScanner } from './workspaceScanner';
+
+/** Extensions of the files in the graph, stripped to look files up by their module path */
+const FILE_EXTENSION = /\.(ts|tsx|mts|cts|vue)$/;
+
+/** Extensions a relative module specifier may spell, e.g. `./user.js` for `user.ts` */
+const SPECIFIER_EXTENSION = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs|vue)$/;
+
+/**
+ * What a file declares and re-exports, to tell the names that only exist at compile time
+ */
+interface ModuleExports {
+    /** Names declared only by interfaces and type aliases */
+    types: Set<string>;
+    /** Names declared by anything else, such as classes, enums, functions and variables */
+    values: Set<string>;
+    /** Names re-exported from another file, with the file and the name they have there */
+    reExports: Map<string, { target: string; name: string }>;
+    /** Files whose exports are re-exported with `export *` */
+    starExports: string[];
+}
+
+/** The exports of a file before any of its statements are read */
+const emptyExports = (): ModuleExports => ({ types: new Set(), values: new Set(), reExports: new Map(), starExports: [] });
+
+/**
+ * The runtime imports between the workspace's files, used to find the import cycles a move would
+ * create. Only imports and re-exports that survive compilation are edges: `import type`,
+ * `export type` and `type` specifiers are erased and can't leave a value `undefined` while
+ * modules load, and so are imports binding nothing but interfaces and type aliases, which are
+ * followed through re-exports and `export *` to their declarations. Specifiers resolve to
+ * workspace files when relative, a path alias or the name of a workspace package the importing
+ * file can resolve, other packages are left out.
+ *
+ * @example
+ * ```typescript
+ * const graph = new ImportGraph();
+ * await graph.build();
+ * const planned = graph.clone();
+ * planned.addImport('/src/types.ts', '/src/models.ts', 'User');
+ * planned.findNewCycle(graph);
+ * // ['/src/types.ts', '/src/models.ts', '/src/enums.ts', '/src/types.ts']
+ * ```
+ */
+export class ImportGraph {
+    private packageResolver = new PackageResolver();
+    private projectResolver = new ProjectResolver();
+    private scriptParser = new ScriptParser();
+    private workspaceScanner = new WorkspaceScanner();
+
+    /** The names each file imports from each workspace file, `*` standing for the whole module */
+    private imports = new Map<string, Map<string, Set<string>>>();
+
+    /** What each file declares and re-exports */
+    private exports = new Map<string, ModuleExports>();
+
+    /** Workspace files by their path without extension, to resolve relative specifiers */
+    private modulePaths = new Map<string, string>();
+
+    /** Workspace files non-relative specifiers resolve to, per path resolver */
+    private aliasTargets = new Map<PathResolver, Map<string, string | undefined>>();
+
+    /**
+     * Reads the runtime imports of every workspace file, outside of ignored folders
+     */
+    public async build(): Promise<void> {
+        const files = (await this.workspaceScanner.findFiles('**/*.{ts,tsx,vue}'))
+            .filter(uri => !uri.fsPath.endsWith('.d.ts'));
+        files.forEach(uri => this.addFile(uri.fsPath));
+
+        for (const uri of files) {
+            const text = await this.workspaceScanner.readFile(uri);
+            this.setFile(uri.fsPath, this.scriptParser.parse(uri.fsPath, text));
+        }
+    }
+
+    /**
+     * Returns a copy of the graph, to plan changes on without altering this one
+     */
+    public clone(): ImportGraph {
+        const copy = new ImportGraph();
+        copy.packageResolver = this.packageResolver;
+        copy.projectResolver = this.projectResolver;
+        copy.modulePaths = new Map(this.modulePaths);
+        for (const [filePath, targets] of this.imports) {
+            copy.imports.set(filePath, new Map([...targets].map(([target, names]) => [target, new Set(names)])));
+        }
+        for (const [filePath, moduleExports] of this.exports) {
+            copy.exports.set(filePath, {
+                types: new Set(moduleExports.types),
+                values: new Set(moduleExports.values),
+                reExports: new Map(moduleExports.reExports),
+                starExports: [...moduleExports.starExports]
+            });
+        }
+        return copy;
+    }
+
+    /**
+     * Adds a file to the graph, without imports, so specifiers can resolve to it, e.g. a
+     * destination that doesn't exist yet
+     * @param filePath - Absolute path of the file
+     */
+    public addFile(filePath: string): void {
+        if (this.imports.has(filePath)) return;
+        this.imports.set(filePath, new Map());
+        this.exports.set(filePath, emptyExports());
+        this.modulePaths.set(filePath.replace(FILE_EXTENSION, ''), filePath);
+        // Aliases resolved before may now resolve to the new file
+        this.aliasTargets.clear();
+    }
+
+    /**
+     * Replaces the imports and declarations of a file with those of its parsed text
+     * @param filePath - Absolute path of the file
+     * @param sourceFile - The file's parsed text
+     */
+    public setFile(filePath: string, sourceFile: ts.SourceFile): void {
+        this.addFile(filePath);
+        this.imports.set(filePath, new Map());
+        this.exports.set(filePath, emptyExports());
+        this.addDeclarations(filePath, sourceFile);
+        this.addImports(filePath, sourceFile);
+    }
+
+    /**
+     * Moves declarations to another file, so imports of them from there are types or values like
+     * they were in the original file, and re-exports of them follow them
+     * @param fromPath - Absolute path of the file declaring them
+     * @param toPath - Absolute path of the file they move to
+     * @param names - The declarations' names, `default` for a default export
+     */
+    public moveDeclarations(fromPath: string, toPath: string, names: string[]): void {
+        this.addFile(toPath);
+        const from = this.exports.get(fromPath);
+        const to = this.exports.get(toPath)!;
+        if (!from) return;
+
+        for (const name of names) {
+            for (const kind of ['types', 'values'] as const) {
+                if (from[kind].delete(name)) {
+                    to[kind].add(name);
+                }
+            }
+        }
+        for (const moduleExports of this.exports.values()) {
+            for (const [exportedName, reExport] of moduleExports.reExports) {
+                if (reExport.target === fromPath && names.includes(reExport.name)) {
+                    moduleExports.reExports.set(exportedName, { target: toPath, name: reExport.name });
+                }
+            }
+        }
+    }
+
+    /**
+     * Adds the runtime imports and re-exports of some statements to a file's imports
+     * @param filePath - Absolute path of the file
+     * @param sourceFile - The parsed statements, e.g. a re-export added to the file
+     */
+    public addImports(filePath: string, sourceFile: ts.SourceFile): void {
+        for (const statement of sourceFile.statements) {
+            if (!ts.isImportDeclaration(statement) && !ts.isExportDeclaration(statement)) continue;
+            if (!statement.moduleSpecifier || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+
+            const target = this.resolve(statement.moduleSpecifier.text, filePath);
+            if (!target) continue;
+            for (const name of this.getRuntimeNames(statement)) {
+                this.addImport(filePath, target, name);
+            }
+            if (ts.isExportDeclaration(statement) && !statement.isTypeOnly) {
+                this.addReExports(filePath, target, statement);
+            }
+        }
+    }
+
+    /**
+     * Records that a file imports a name from another
+     * @param name - The imported name, `default` for default imports or `*` for the whole module
+     */
+    public addImport(fromPath: string, toPath: string, name: string): void {
+        this.addFile(fromPath);
+        const targets = this.imports.get(fromPath)!;
+        targets.set(toPath, (targets.get(toPath) || new Set()).add(name));
+    }
+
+    /**
+     * Removes a name a file imports from another, and the import once it has no names left
+     * @param name - The imported name, `default` for default imports or `*` for the whole module
+     */
+    public removeImport(fromPath: string, toPath: string, name: string): void {
+        const names = this.imports.get(fromPath)?.get(toPath);
+        if (!names) return;
+        names.delete(name);
+        if (names.size === 0) {
+            this.imports.get(fromPath)!.delete(toPath);
+        }
+    }
+
+    /**
+     * Resolves a module specifier to the graph's file it refers to
+     * @param moduleSpecifier - The specifier, relative, a path alias or a workspace package's name
+     * @param fromPath - Absolute path of the file containing the specifier
+     * @returns The file's path, or undefined for other packages and files outside the graph
+     */
+    public resolve(moduleSpecifier: string, fromPath: string): string | undefined {
+        if (moduleSpecifier.startsWith('.')) {
+            const modulePath = path.resolve(path.dirname(fromPath), moduleSpecifier).replace(SPECIFIER_EXTENSION, '');
+            return this.modulePaths.get(modulePath) || this.modulePaths.get(path.join(modulePath, 'index'));
+        }
+
+        const pathResolver = this.projectResolver.getPathResolver(fromPath);
+        let targets = this.aliasTargets.get(pathResolver);
+        if (!targets) {
+            targets = new Map();
+            this.aliasTargets.set(pathResolver, targets);
+        }
+        if (!targets.has(moduleSpecifier)) {
+            const filePaths = [...this.modulePaths.values()];
+            targets.set(moduleSpecifier,
+                filePaths.find(filePath => pathResolver.isImportPathFor(moduleSpecifier, fromPath, filePath)) ||
+                filePaths.find(filePath => this.isPackageSpecifierFor(moduleSpecifier, fromPath, filePath))
+            );
+        }
+        return targets.get(moduleSpecifier);
+    }
+
+    /**
+     * Finds a cycle running through an import this graph has and another graph doesn't, such as
+     * an import a planned move adds
+     * @param previous - The graph before the change, e.g. the one this graph was cloned from
+     * @returns The files of the cycle, from the importing file back to itself, or undefined
+     */
+    public findNewCycle(previous: ImportGraph): string[] | undefined {
+        for (const [fromPath, targets] of this.imports) {
+            for (const toPath of targets.keys()) {
+                if (toPath === fromPath || !this.isRuntimeImport(fromPath, toPath) || previous.isRuntimeImport(fromPath, toPath)) continue;
+                const cyclePath = this.findPath(toPath, fromPath);
+                if (cyclePath) {
+                    return [fromPath, ...cyclePath];
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Finds the shortest chain of imports leading from one file to another
+     * @returns The files of the chain, including both ends, or undefined if there is none
+     */
+    public findPath(fromPath: string, toPath: string): string[] | undefined {
+        const previous = new Map<string, string | undefined>([[fromPath, undefined]]);
+        const queue = [fromPath];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            if (current === toPath) {
+                const chain: string[] = [];
+                for (let file: string | undefined = current; file !== undefined; file = previous.get(file)) {
+                    chain.unshift(file);
+                }
+                return chain;
+            }
+            for (const target of this.imports.get(current)?.keys() || []) {
+                if (previous.has(target) || !this.isRuntimeImport(current, target)) continue;
+                previous.set(target, current);
+                queue.push(target);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks whether a file imports another at runtime, i.e. imports at least one name from it
+     * that isn't only a type
+     */
+    private isRuntimeImport(fromPath: string, toPath: string): boolean {
+        const names = this.imports.get(fromPath)?.get(toPath);
+        return !!names && [...names].some(name => name === '*' || this.getKind(toPath, name) !== 'type');
+    }
+
+    /**
+     * Finds whether a file's export is a type or a value, following re-exports to its declaration
+     * @returns Undefined if the declaration can't be found, e.g. in a package
+     */
+    private getKind(filePath: string, name: string, seen = new Set<string>()): 'type' | 'value' | undefined {
+        const moduleExports = this.exports.get(filePath);
+        if (!moduleExports || seen.has(filePath)) return undefined;
+        seen = new Set(seen).add(filePath);
+
+        if (moduleExports.values.has(name)) return 'value';
+        if (moduleExports.types.has(name)) return 'type';
+        const reExport = moduleExports.reExports.get(name);
+        if (reExport) return this.getKind(reExport.target, reExport.name, seen);
+        // `export *` doesn't re-export default exports
+        if (name === 'default') return undefined;
+        for (const target of moduleExports.starExports) {
+            const kind = this.getKind(target, name, seen);
+            if (kind) return kind;
+        }
+        return undefined;
+    }
+
+    /**
+     * Records the top-level declarations of a file as types or values, including the local names it
+     * exports under another name and the imports it exports again
+     */
+    private addDeclarations(filePath: string, sourceFile: ts.SourceFile): void {
+        const moduleExports = this.exports.get(filePath)!;
+        const imported = new Map<string, { target: string; name: string }>();
+        const localExports: [string, string][] = [];
+
+        for (const statement of sourceFile.statements) {
+            const isDefault = ts.canHaveModifiers(statement) &&
+                !!ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+            if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+                moduleExports.types.add(isDefault ? 'default' : statement.name.text);
+            } else if (
+                ts.isClassDeclaration(statement) || ts.isFunctionDeclaration(statement) ||
+                ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement)
+            ) {
+                if (isDefault || statement.name) moduleExports.values.add(isDefault ? 'default' : statement.name!.text);
+            } else if (ts.isVariableStatement(statement)) {
+                for (const declaration of statement.declarationList.declarations) {
+                    if (ts.isIdentifier(declaration.name)) moduleExports.values.add(declaration.name.text);
+                }
+            } else if (ts.isExportAssignment(statement)) {
+                moduleExports.values.add('default');
+            } else if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+                const namedBindings = statement.importClause?.namedBindings;
+                const target = this.resolve(statement.moduleSpecifier.text, filePath);
+                if (target && namedBindings && ts.isNamedImports(namedBindings)) {
+                    for (const element of namedBindings.elements) {
+                        imported.set(element.name.text, { target, name: (element.propertyName || element.name).text });
+                    }
+                }
+            } else if (
+                ts.isExportDeclaration(statement) && !statement.moduleSpecifier && !statement.isTypeOnly &&
+                statement.exportClause && ts.isNamedExports(statement.exportClause)
+            ) {
+                for (const element of statement.exportClause.elements) {
+                    localExports.push([element.name.text, (element.propertyName || element.name).text]);
+                }
+            }
+        }
+
+        // `export { User as Account }` and `import { User } from './user'; export { User }`
+        for (const [exportedName, localName] of localExports) {
+            if (imported.has(localName)) {
+                moduleExports.reExports.set(exportedName, imported.get(localName)!);
+            } else if (moduleExports.values.has(localName)) {
+                moduleExports.values.add(exportedName);
+            } else if (moduleExports.types.has(localName)) {
+                moduleExports.types.add(exportedName);
+            }
+        }
+    }
+
+    /**
+     * Records the names an `export ... from` declaration re-exports from a file
+     */
+    private addReExports(filePath: string, target: string, statement: ts.ExportDeclaration): void {
+        const moduleExports = this.exports.get(filePath)!;
+        if (!statement.exportClause) {
+            moduleExports.starExports.push(target);
+        } else if (ts.isNamespaceExport(statement.exportClause)) {
+            moduleExports.values.add(statement.exportClause.name.text);
+        } else {
+            for (const element of statement.exportClause.elements) {
+                if (element.isTypeOnly) continue;
+                moduleExports.reExports.set(element.name.text, { target, name: (element.propertyName || element.name).text });
+            }
+        }
+    }
+
+    /**
+     * Checks whether a specifier imports a file through the name of the workspace package containing it
+     */
+    private isPackageSpecifierFor(moduleSpecifier: string, fromPath: string, filePath: string): boolean {
+        const packageName = this.packageResolver.findPackage(filePath)?.name;
+        if (!packageName || (moduleSpecifier !== packageName && !moduleSpecifier.startsWith(packageName + '/'))) {
+            return false;
+        }
+        const specifier = this.packageResolver.getPackageSpecifier(fromPath, filePath)?.specifier;
+        return specifier === moduleSpecifier || specifier === moduleSpecifier.replace(SPECIFIER_EXTENSION, '');
+    }
+
+    /**
+     * Returns the names an import or re-export takes from its module at runtime, with `default`
+     * for default imports and `*` for namespace imports, side-effect imports and `export *`
+     */
+    private getRuntimeNames(statement: ts.ImportDeclaration | ts.ExportDeclaration): string[] {
+        if (ts.isExportDeclaration(statement)) {
+            if (statement.isTypeOnly) return [];
+            if (!statement.exportClause || !ts.isNamedExports(statement.exportClause)) return ['*'];
+            return statement.exportClause.elements
+                .filter(element => !element.isTypeOnly)
+                .map(element => (element.propertyName || element.name).text);
+        }
+
+        const importClause = statement.importClause;
+        if (!importClause) return ['*'];
+        if (importClause.isTypeOnly) return [];
+        const names = importClause.name ? ['default'] : [];
+        const namedBindings = importClause.namedBindings;
+        if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+            names.push('*');
+        } else if (namedBindings) {
+            names.push(...namedBindings.elements
+                .filter(element => !element.isTypeOnly)
+                .map(element => (element.propertyName || element.name).text));
+        }
+        return names;
+    }
+}
@@ -1,7 +1,14 @@
 import * as vscode from 'vscode';
 import * as ts from 'typescript';
 import * as path from 'path';
-import { PathResolver } from './pathResolver';
+import { ProjectResolver } from './projectResolver';
+import { PackageExport, PackageResolver } from './packageResolver';
+import { ImportFormat, ImportFormatter } from './importFormatter';
+import { TypeAnalyzer, TypeInfo } from './typeAnalyzer';
+import { ScriptParser } from './scriptParser';
+import { WorkspaceScanner } from './workspaceScanner';
+import { ReExportStubMode } from './reExportStubManager';
+import { ImportGraph } from './importGraph';
 
 export interface ImportChange {
     uri: vscode.Uri;
@@ -9,13 +16,100 @@ export interface ImportChange {
     newImportPath: string;
     typeName: string;
     isTypeOnly: boolean;
+    /** Whether the type is imported as the module's default export, `typeName` being the local name */
+    isDefault?: boolean;
+    /** The local name of a renamed import, e.g. `ApiUser` for `import { User as ApiUser }` */
+    alias?: string;
+    /** Whether the change targets an `export { ... } from` re-export instead of an import */
+    isReExport?: boolean;
+    /** Imports the module with `import * as namespaceName` instead of a named import */
+    namespaceName?: string;
+    /** A reference through the consumer's namespace import, e.g. `Models.User`, rewritten to use the new import */
+    qualifiedReference?: vscode.Range;
+    /** The module specifier inside an inline `import('./types').User` type, rewritten in place instead of adding an import */
+    importTypeSpecifier?: vscode.Range;
 }
 
+/**
+ * How consumers that use a moved type through a namespace import are updated
+ * - `named`: `Models.User` becomes `User`, imported by name from the destination
+ * - `namespace`: `Models.User` becomes `Account.User`, with `import * as Account` of the destination
+ */
+export type NamespaceImportStyle = 'named' | 'namespace';
+
+/**
+ * Whether generated imports of types use `import type`, from the `typeMover.importStyle` setting.
+ * Values always need a regular import, and imports consumers already have keep their style.
+ */
+export type ImportStyle = 'regular' | 'type';
+
 export interface Changes {
     importChanges: ImportChange[];
     typeContent: string;
 }
 
+/**
+ * A moved declaration whose name is already taken in a file the move adds it to
+ */
+export interface NameCollision {
+    /** The moved declaration */
+    typeInfo: TypeInfo;
+    /** The destination, or a consumer that would import the moved declaration next to another of its name */
+    uri: vscode.Uri;
+    /** The destination's own declaration of the name, if it has one rather than an import */
+    existing?: TypeInfo;
+    /** Whether the destination's declaration is structurally identical to the moved one, so they can be merged */
+    isIdentical?: boolean;
+    /** The consumer's import change that would bind the taken name */
+    change?: ImportChange;
+}
+
+/**
+ * Where a type is currently imported from in a file
+ */
+interface ExistingImport {
+    path: string;
+    isTypeOnly: boolean;
+    /** The local name of a default import */
+    defaultName?: string;
+    /** The local name of a renamed named import */
+    alias?: string;
+    /** Whether the type is re-exported with `export { ... } from` rather than imported */
+    isReExport?: boolean;
+    /** The namespace import the type is used through, e.g. `Models` for `Models.User` */
+    namespaceName?: string;
+    /** Offsets of the qualified reference, e.g. `Models.User`, when used through a namespace import */
+    qualifiedReference?: { start: number; end: number };
+    /** Offsets of an inline import type, e.g. `import('./types').User`, and of its module specifier's text */
+    importType?: { start: number; end: number; specifierStart: number; specifierEnd: number };
+}
+
+/**
+ * A file that re-exports everything of the source file with `export * from`
+ */
+interface StarExportBarrel {
+    uri: vscode.Uri;
+    /** Whether the barrel uses `export type * from` */
+    isTypeOnly: boolean;
+    /** The parsed barrel, whose existing exports determine how its new re-export is spelled */
+    sourceFile: ts.SourceFile;
+}
+
+/**
+ * An import the moved declarations need in their destination
+ */
+interface DestinationImport {
+    /** The module specifier, resolving from the destination */
+    moduleSpecifier: string;
+    isTypeOnly: boolean;
+    /** The local name of a default import */
+    defaultName?: string;
+    /** The local name of a namespace import */
+    namespaceName?: string;
+    /** Named imports, with their text as written, e.g. `type User as ApiUser` */
+    specifiers: { name: string; alias?: string; isTypeOnly: boolean; text: string }[];
+}
+
 /**
  * Represents an edit operation to be applied to a document
  */
@@ -25,12 +119,18 @@ interface ImportEdit {
 }
 
 export class ImportManager {
-    private pathResolver: PathResolver;
-
-    constructor() {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-        this.pathResolver = new PathResolver(workspaceRoot);
-    }
+    /** Provides each file's path resolver, so imports follow the `paths` of the importing file's project */
+    private projectResolver = new ProjectResolver();
+    /** Provides package-name specifiers for imports across workspace packages */
+    private packageResolver = new PackageResolver();
+    private typeAnalyzer = new TypeAnalyzer();
+    private scriptParser = new ScriptParser();
+    private workspaceScanner = new WorkspaceScanner();
+    private importFormatter = new ImportFormatter();
+    /** `export *` barrels per source and destination, so batch moves scan the workspace once */
+    private starExportBarrels = new Map<string, StarExportBarrel[]>();
+    /** The workspace's imports before the move, read once however many destinations are checked */
+    private importGraph?: ImportGraph;
 
     /**
      * Calculates the necessary import changes for moving a type to a new location
@@ -38,6 +138,8 @@ export class ImportManager {
      * @param sourceUri - The URI of the source file containing the type
      * @param destinationUri - The URI of the destination file where the type will be moved
      * @param references - Array of locations where the type is referenced
+     * @param movedTypes - Every declaration moving along, defaults to the type alone. The source file
+     *                     only imports the type back if code outside of them still uses it.
      * @returns Promise resolving to Changes object containing import changes and type content
      * @example
      * // Moving an interface from types.ts to models.ts
@@ -63,10 +165,11 @@ export class ImportManager {
      * // }
      */
     public async calculateChanges(
-        typeInfo: { name: string; node: ts.Node },
+        typeInfo: TypeInfo,
         sourceUri: vscode.Uri,
         destinationUri: vscode.Uri,
-        references: vscode.Location[]
+        references: vscode.Location[],
+        movedTypes: TypeInfo[] = [typeInfo]
     ): Promise<Changes> {
         console.log('[ImportManager] calculateChanges called with:', {
             typeName: typeInfo.name,
@@ -77,35 +180,43 @@ export class ImportManager {
 
         const changes: Changes = {
             importChanges: [],
-            typeContent: typeInfo.node.getText()
+            typeContent: this.typeAnalyzer.getDeclarationText(typeInfo)
         };
 
-        // Add import to source file for the moved type
+        // Add import to source file for the moved type, if the code left behind still uses it
         const sourceRefPath = sourceUri.fsPath;
         const destPath = destinationUri.fsPath;
-        const aliasPath = this.pathResolver.tryMatchPathAlias(destPath);
-        const newImportPath = aliasPath || this.pathResolver.resolveImportPath(sourceRefPath, destPath);
+        const importStyle = this.getImportStyle();
+        const sourceDocument = await vscode.workspace.openTextDocument(sourceUri);
 
-        changes.importChanges.push({
-            uri: sourceUri,
-            oldImportPath: '',  // No old import path since we're adding a new one
-            newImportPath,
-            typeName: typeInfo.name,
-            isTypeOnly: true  // Use type-only import for better type safety
-        });
+        if (this.typeAnalyzer.getNamesUsedOutside(movedTypes, sourceDocument.getText()).has(typeInfo.name)) {
+            changes.importChanges.push({
+                uri: sourceUri,
+                oldImportPath: '',  // No old import path since we're adding a new one
+                newImportPath: this.getImportPath(sourceRefPath, destPath, typeInfo.node.getSourceFile()),
+                typeName: typeInfo.name,
+                // Values need a regular import, types follow the configured import style
+                isTypeOnly: !typeInfo.isValue && importStyle === 'type',
+                isDefault: typeInfo.isDefaultExport
+            });
+        }
+
+        const namespaceImportStyle = vscode.workspace.getConfiguration('typeMover')
+            .get<NamespaceImportStyle>('namespaceImportStyle', 'named');
 
         // Calculate relative paths for each reference
         for (const ref of references) {
             const refDocument = await vscode.workspace.openTextDocument(ref.uri);
             const refText = refDocument.getText();
-            const refSourceFile = ts.createSourceFile(
-                ref.uri.fsPath,
-                refText,
-                ts.ScriptTarget.Latest,
-                true
-            );
+            const refSourceFile = this.scriptParser.parse(ref.uri.fsPath, refText);
 
-            const { path: oldImportPath, isTypeOnly } = this.findExistingImportPath(refSourceFile, typeInfo);
+            const {
+                path: oldImportPath, isTypeOnly, defaultName, alias, isReExport, namespaceName, qualifiedReference, importType
+            } = this.findExistingImportPath(
+                refSourceFile,
+                typeInfo,
+                refDocument.offsetAt(ref.range.start)
+            );
             if (!oldImportPath) continue;
 
             const refPath = ref.uri.fsPath;
@@ -117,26 +228,740 @@ export class ImportManager {
                 oldImportPath
             });
             
-            // Always try to use path alias first, fallback to relative path
-            const aliasPath = this.pathResolver.tryMatchPathAlias(destPath);
-            console.log('[ImportManager] Alias path result:', aliasPath);
-            
-            const newImportPath = aliasPath || this.pathResolver.resolveImportPath(refPath, destPath);
+            // The destination file no longer needs to import the type it now declares
+            const newImportPath = refPath === destPath ? '' : this.getImportPath(refPath, destPath, refSourceFile);
             console.log('[ImportManager] Final import path:', newImportPath);
 
+            // Inline import types only need their module specifier updated. In the destination
+            // itself, `import('./types').User` becomes a plain reference to the declaration.
+            if (importType) {
+                const toRange = (start: number, end: number) =>
+                    new vscode.Range(refDocument.positionAt(start), refDocument.positionAt(end));
+                changes.importChanges.push({
+                    uri: ref.uri,
+                    oldImportPath: newImportPath ? oldImportPath : '',
+                    newImportPath,
+                    typeName: typeInfo.name,
+                    isTypeOnly: true,
+                    importTypeSpecifier: newImportPath ? toRange(importType.specifierStart, importType.specifierEnd) : undefined,
+                    qualifiedReference: newImportPath ? undefined : toRange(importType.start, importType.end)
+                });
+                continue;
+            }
+
+            // The namespace import keeps providing the source's other exports, so it is left as-is
+            // and the qualified reference is pointed at a new import of the destination instead
+            if (namespaceName && qualifiedReference) {
+                const useNamespace = namespaceImportStyle === 'namespace' && newImportPath !== '';
+                const localName = useNamespace || newImportPath === ''
+                    ? typeInfo.name
+                    : this.getUnusedLocalName(refSourceFile, typeInfo.name, namespaceName);
+                changes.importChanges.push({
+                    uri: ref.uri,
+                    oldImportPath: '',
+                    newImportPath,
+                    typeName: typeInfo.name,
+                    isTypeOnly: isTypeOnly || (!typeInfo.isValue && importStyle === 'type'),
+                    namespaceName: useNamespace ? this.getNamespaceName(refSourceFile, newImportPath) : undefined,
+                    alias: localName !== typeInfo.name ? localName : undefined,
+                    qualifiedReference: new vscode.Range(
+                        refDocument.positionAt(qualifiedReference.start),
+                        refDocument.positionAt(qualifiedReference.end)
+                    )
+                });
+                continue;
+            }
+
             // Always preserve type imports if they were originally type imports
             changes.importChanges.push({
                 uri: ref.uri,
                 oldImportPath,
                 newImportPath,
-                typeName: typeInfo.name,
-                isTypeOnly: isTypeOnly
+                typeName: defaultName || typeInfo.name,
+                isTypeOnly: isTypeOnly,
+                isDefault: defaultName !== undefined,
+                alias,
+                isReExport
             });
         }
 
+        // `export *` barrels don't name the type, so they aren't among the references. Without an
+        // explicit re-export they would silently stop exposing the type once it leaves the source file.
+        // Moves leaving a re-export stub drop these, as the stub keeps the barrels exposing the type.
+        if (this.typeAnalyzer.isExported(typeInfo.node) && !typeInfo.isDefaultExport) {
+            for (const barrel of await this.findStarExportBarrels(sourceUri, destinationUri)) {
+                changes.importChanges.push({
+                    uri: barrel.uri,
+                    oldImportPath: '',
+                    newImportPath: this.getImportPath(barrel.uri.fsPath, destPath, barrel.sourceFile),
+                    typeName: typeInfo.name,
+                    isTypeOnly: barrel.isTypeOnly || !typeInfo.isValue,
+                    isReExport: true
+                });
+            }
+        }
+
         return changes;
     }
 
+    /**
+     * Reads the `typeMover.importStyle` setting
+     */
+    private getImportStyle(): ImportStyle {
+        return vscode.workspace.getConfiguration('typeMover').get<ImportStyle>('importStyle', 'regular') === 'type'
+            ? 'type'
+            : 'regular';
+    }
+
+    /**
+     * Returns the name a file imports a module's namespace under: the name of an existing
+     * `import * as` of the module, or one derived from the module's file name
+     * @example
+     * // getNamespaceName(sourceFile, '../models/user-account') returns 'UserAccount'
+     * // getNamespaceName(sourceFile, './models') returns 'Models', or 'Models2' if 'Models' is taken
+     */
+    private getNamespaceName(sourceFile: ts.SourceFile, importPath: string): string {
+        for (const statement of sourceFile.statements) {
+            const namedBindings = ts.isImportDeclaration(statement) ? statement.importClause?.namedBindings : undefined;
+            if (namedBindings && ts.isNamespaceImport(namedBindings) &&
+                ((statement as ts.ImportDeclaration).moduleSpecifier as ts.StringLiteral).text === importPath) {
+                return namedBindings.name.text;
+            }
+        }
+
+        return this.getUnusedLocalName(sourceFile, this.getModuleName(importPath));
+    }
+
+    /**
+     * Derives an identifier from a module's file name, or its folder's name for `index` files
+     * @example
+     * // getModuleName('../models/user-account') returns 'UserAccount'
+     */
+    private getModuleName(importPath: string): string {
+        let baseName = path.basename(importPath).replace(/\.(js|ts|tsx)$/, '');
+        if (baseName === 'index') {
+            baseName = path.basename(path.dirname(importPath));
+        }
+        return baseName
+            .split(/[^A-Za-z0-9]+/)
+            .filter(Boolean)
+            .map(part => part[0].toUpperCase() + part.slice(1))
+            .join('')
+            .replace(/^(?=\d)/, '_') || 'Module';
+    }
+
+    /**
+     * Returns a local name that doesn't clash with the file's top-level declarations and imports
+     * @param sourceFile - The file the name is used in
+     * @param name - The preferred name
+     * @param prefix - Prepended to the name if it is taken, e.g. the namespace `Models` for `ModelsUser`
+     */
+    private getUnusedLocalName(sourceFile: ts.SourceFile, name: string, prefix: string = ''): string {
+        const localNames = this.getLocalNames(sourceFile.statements);
+
+        if (!localNames.has(name)) {
+            return name;
+        }
+        const base = `${prefix}${name}`;
+        let candidate = base;
+        for (let i = 2; localNames.has(candidate); i++) {
+            candidate = `${base}${i}`;
+        }
+        return candidate;
+    }
+
+    /**
+     * Collects the names top-level statements bind, through declarations and imports
+     */
+    private getLocalNames(statements: readonly ts.Statement[]): Set<string> {
+        const localNames = new Set<string>();
+        for (const statement of statements) {
+            if (ts.isImportDeclaration(statement) && statement.importClause) {
+                const { name: defaultName, namedBindings } = statement.importClause;
+                if (defaultName) localNames.add(defaultName.text);
+                if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+                    localNames.add(namedBindings.name.text);
+                } else if (namedBindings) {
+                    namedBindings.elements.forEach(el => localNames.add(el.name.text));
+                }
+            }
+            const declarationName = this.typeAnalyzer.getDeclarationName(statement);
+            if (declarationName) localNames.add(declarationName);
+        }
+        return localNames;
+    }
+
+    /**
+     * Finds the workspace files that re-export the source file with `export * from` but not the
+     * destination file, and would therefore lose the types moved between them.
+     *
+     * @example
+     * // /src/models/index.ts:
+     * // export * from './user';
+     * // export * from './order';
+     * // findStarExportBarrels('/src/models/user.ts', '/src/models/account.ts') returns [/src/models/index.ts]
+     * // findStarExportBarrels('/src/models/user.ts', '/src/models/order.ts') returns []
+     *
+     * @param sourceUri - The URI of the file the types are moved out of
+     * @param destinationUri - The URI of the file the types are moved into
+     */
+    private async findStarExportBarrels(sourceUri: vscode.Uri, destinationUri: vscode.Uri): Promise<StarExportBarrel[]> {
+        const key = `${sourceUri.fsPath}|${destinationUri.fsPath}`;
+        const cached = this.starExportBarrels.get(key);
+        if (cached) return cached;
+
+        const files = await this.workspaceScanner.findFiles('**/*.{ts,tsx}');
+
+        const barrels: StarExportBarrel[] = [];
+        for (const uri of files) {
+            if (uri.fsPath === sourceUri.fsPath || uri.fsPath === destinationUri.fsPath) continue;
+
+            const text = await this.workspaceScanner.readFile(uri);
+            if (!text.includes('export *') && !text.includes('export type *')) continue;
+
+            const starExports = this.scriptParser.parse(uri.fsPath, text).statements.filter(
+                (statement): statement is ts.ExportDeclaration =>
+                    ts.isExportDeclaration(statement) && !statement.exportClause &&
+                    !!statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+            );
+            const pathResolver = this.projectResolver.getPathResolver(uri.fsPath);
+            const findStarExport = (targetPath: string) => starExports.find(statement =>
+                pathResolver.isImportPathFor((statement.moduleSpecifier as ts.StringLiteral).text, uri.fsPath, targetPath)
+            );
+
+            const sourceExport = findStarExport(sourceUri.fsPath);
+            if (sourceExport && !findStarExport(destinationUri.fsPath)) {
+                barrels.push({ uri, isTypeOnly: sourceExport.isTypeOnly, sourceFile: sourceExport.getSourceFile() });
+            }
+        }
+
+        this.starExportBarrels.set(key, barrels);
+        return barrels;
+    }
+
+    /**
+     * Calculates the import statements a new destination file needs for the declarations moved into it.
+     *
+     * Imports of the source file that the moved declarations rely on are copied over, with relative
+     * module specifiers rewritten so they resolve from the destination. Declarations that stay behind
+     * in the source file but are used by the moved ones are imported from the source file.
+     *
+     * @param movedTypes - The declarations being moved to the destination
+     * @param importedTypes - Declarations left in the source file that the moved ones reference
+     * @param sourceUri - The URI of the source file
+     * @param destinationUri - The URI of the destination file
+     * @returns The import statements, one per line, or an empty string if none are needed
+     * @example
+     * // Source file /src/order.ts:
+     * // import { Money } from './money';
+     * // interface OrderItem { price: Money }
+     * // interface Order { items: OrderItem[] }
+     * // Moving Order to /src/models/order.ts while leaving OrderItem behind returns:
+     * // import { Money } from '../money';
+     * // import { OrderItem } from '../order';
+     * // or `import type { OrderItem }` with the `type` import style. Statements are written
+     * // in the source file's format, since the moved code comes from there.
+     */
+    public calculateDestinationImports(
+        movedTypes: TypeInfo[],
+        importedTypes: TypeInfo[],
+        sourceUri: vscode.Uri,
+        destinationUri: vscode.Uri
+    ): string {
+        if (movedTypes.length === 0) return '';
+
+        const format = this.importFormatter.getFormat(movedTypes[0].node.getSourceFile());
+        return this.findDestinationImports(movedTypes, importedTypes, sourceUri, destinationUri)
+            .map(destinationImport => this.importFormatter.formatDeclaration(
+                'import',
+                destinationImport.isTypeOnly,
+                destinationImport.defaultName,
+                destinationImport.namespaceName
+                    ? `* as ${destinationImport.namespaceName}`
+                    : destinationImport.specifiers.map(specifier => specifier.text),
+                destinationImport.moduleSpecifier,
+                format
+            ))
+            .join('\n');
+    }
+
+    /**
+     * Calculates the imports an existing destination file needs for the declarations moved into it,
+     * as changes that merge into the file's import declarations of the same path. Names the file
+     * already imports or declares are skipped.
+     * @param movedTypes - The declarations being moved to the destination
+     * @param importedTypes - Declarations left in the source file that the moved ones reference
+     * @param sourceUri - The URI of the source file
+     * @param destinationUri - The URI of the existing destination file
+     * @example
+     * // Moving `interface Order { total: Money; currency: Currency }` into a destination with
+     * // import { Currency } from './money';
+     * // returns a change adding Money, so the destination imports:
+     * // import { Currency, Money } from './money';
+     */
+    public async calculateDestinationImportChanges(
+        movedTypes: TypeInfo[],
+        importedTypes: TypeInfo[],
+        sourceUri: vscode.Uri,
+        destinationUri: vscode.Uri
+    ): Promise<ImportChange[]> {
+        if (movedTypes.length === 0) return [];
+
+        const destinationDocument = await vscode.workspace.openTextDocument(destinationUri);
+        const destinationFile = this.scriptParser.parse(destinationUri.fsPath, destinationDocument.getText());
+        const boundNames = this.getLocalNames(destinationFile.statements);
+
+        const changes: ImportChange[] = [];
+        for (const destinationImport of this.findDestinationImports(movedTypes, importedTypes, sourceUri, destinationUri, destinationFile)) {
+            const change = { uri: destinationUri, oldImportPath: '', newImportPath: destinationImport.moduleSpecifier };
+            const { defaultName, namespaceName, isTypeOnly } = destinationImport;
+            if (defaultName && !boundNames.has(defaultName)) {
+                changes.push({ ...change, typeName: defaultName, isTypeOnly, isDefault: true });
+            }
+            if (namespaceName && !boundNames.has(namespaceName)) {
+                changes.push({ ...change, typeName: namespaceName, isTypeOnly, namespaceName });
+            }
+            for (const specifier of destinationImport.specifiers) {
+                if (boundNames.has(specifier.alias || specifier.name)) continue;
+                changes.push({
+                    ...change,
+                    typeName: specifier.name,
+                    alias: specifier.alias,
+                    isTypeOnly: isTypeOnly || specifier.isTypeOnly
+                });
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * Finds the moved declarations whose names are already taken where the move puts them: in the
+     * destination, by a declaration or an import of something else, and in consumers whose new
+     * import would bind a name the file already declares or imports.
+     * @param movedTypes - The declarations being moved
+     * @param sourceUri - The URI of the source file
+     * @param destinationUri - The URI of the destination file, which may not exist yet
+     * @param changes - The import changes calculated for the move
+     * @example
+     * // Moving User to './models', which already declares an identical `interface User`:
+     * // [{ typeInfo: User, uri: '/src/models.ts', existing: User of models.ts, isIdentical: true }]
+     */
+    public async findNameCollisions(
+        movedTypes: TypeInfo[],
+        sourceUri: vscode.Uri,
+        destinationUri: vscode.Uri,
+        changes: ImportChange[]
+    ): Promise<NameCollision[]> {
+        const collisions: NameCollision[] = [];
+        const movedNames = new Set(movedTypes.map(typeInfo => typeInfo.name));
+
+        let destinationFile: ts.SourceFile | undefined;
+        try {
+            const destinationDocument = await vscode.workspace.openTextDocument(destinationUri);
+            destinationFile = this.scriptParser.parse(destinationUri.fsPath, destinationDocument.getText());
+        } catch {
+            // A new destination file has nothing to collide with
+        }
+
+        if (destinationFile) {
+            const declarations = this.typeAnalyzer.getTopLevelDeclarations(destinationFile);
+            // Imports of the moved declarations from the source file are replaced by the declarations themselves
+            const pathResolver = this.projectResolver.getPathResolver(destinationUri.fsPath);
+            const importedNames = new Set<string>();
+            for (const statement of destinationFile.statements) {
+                if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+                if (pathResolver.isImportPathFor(statement.moduleSpecifier.text, destinationUri.fsPath, sourceUri.fsPath)) continue;
+                this.getLocalNames([statement]).forEach(name => importedNames.add(name));
+            }
+
+            for (const typeInfo of movedTypes) {
+                const existing = declarations.find(declaration => declaration.name === typeInfo.name);
+                if (existing) {
+                    const isIdentical = this.typeAnalyzer.isStructurallyIdentical(typeInfo.node, existing.node);
+                    collisions.push({ typeInfo, uri: destinationUri, existing, isIdentical });
+                } else if (importedNames.has(typeInfo.name)) {
+                    collisions.push({ typeInfo, uri: destinationUri });
+                }
+            }
+        }
+
+        // Only changes adding a binding can collide, rewritten imports keep the name they had
+        const addedBindings = changes.filter(change =>
+            change.newImportPath && change.oldImportPath === '' && movedNames.has(change.typeName) &&
+            !change.isReExport && !change.namespaceName && !change.importTypeSpecifier &&
+            change.uri.fsPath !== sourceUri.fsPath && change.uri.fsPath !== destinationUri.fsPath
+        );
+        for (const change of addedBindings) {
+            const document = await vscode.workspace.openTextDocument(change.uri);
+            const localNames = this.getLocalNames(this.scriptParser.parse(change.uri.fsPath, document.getText()).statements);
+            if (localNames.has(change.alias || change.typeName)) {
+                const typeInfo = movedTypes.find(moved => moved.name === change.typeName)!;
+                collisions.push({ typeInfo, uri: change.uri, change });
+            }
+        }
+        return collisions;
+    }
+
+    /**
+     * Resolves the collisions in consumers by importing the moved declarations under an alias
+     * derived from the destination's file name, e.g. `import { User as ModelsUser } from './models'`.
+     * When the file is named after the declaration, as `./models/user`, its folder's name is used.
+     * @param collisions - The collisions, as found by `findNameCollisions`. Those in the destination are ignored.
+     */
+    public async aliasCollidingImports(collisions: NameCollision[]): Promise<void> {
+        for (const { change } of collisions) {
+            if (!change) continue;
+
+            const document = await vscode.workspace.openTextDocument(change.uri);
+            const sourceFile = this.scriptParser.parse(change.uri.fsPath, document.getText());
+            let prefix = this.getModuleName(change.newImportPath);
+            if (prefix === change.typeName) {
+                prefix = this.getModuleName(path.dirname(change.newImportPath));
+            }
+            change.alias = this.getUnusedLocalName(sourceFile, change.typeName, prefix);
+        }
+    }
+
+    /**
+     * Checks whether a move would close a cycle of runtime imports, by applying its import changes
+     * to the workspace's import graph. Cycles can leave values such as enums `undefined` while
+     * their modules load, depending on which file of the cycle is imported first.
+     * @param changes - The import changes calculated for the move, including the destination's
+     * @param sourceUri - The URI of the source file
+     * @param destinationUri - The URI of the destination file
+     * @param destinationImports - The imports a destination that doesn't exist yet is created with
+     * @param reExportStub - The re-export stub left in the source file, if any
+     * @returns The files of the cycle, from a file the move makes import another back to itself,
+     *          or undefined if the move creates no cycle
+     * @example
+     * // Moving Order from types.ts, which keeps using it, to models.ts, which imports Status from types.ts:
+     * // ['/src/types.ts', '/src/models.ts', '/src/types.ts']
+     */
+    public async findImportCycle(
+        changes: ImportChange[],
+        sourceUri: vscode.Uri,
+        destinationUri: vscode.Uri,
+        destinationImports: string = '',
+        reExportStub: string = ''
+    ): Promise<string[] | undefined> {
+        if (!this.importGraph) {
+            this.importGraph = new ImportGraph();
+            await this.importGraph.build();
+        }
+
+        const graph = this.importGraph.clone();
+        const destPath = destinationUri.fsPath;
+        graph.addFile(destPath);
+        if (destinationImports) {
+            graph.setFile(destPath, this.scriptParser.parse(destPath, destinationImports));
+        }
+        if (reExportStub) {
+            graph.addImports(sourceUri.fsPath, this.scriptParser.parse(sourceUri.fsPath, reExportStub));
+        }
+        // Imports of moved interfaces and type aliases stay erased once they point at the destination
+        graph.moveDeclarations(sourceUri.fsPath, destPath, changes
+            .filter(change => !change.namespaceName && change.newImportPath &&
+                graph.resolve(change.newImportPath, change.uri.fsPath) === destPath)
+            .map(change => change.isDefault ? 'default' : change.typeName));
+
+        for (const change of changes) {
+            // Inline import types and `import type` leave nothing at runtime
+            if (change.importTypeSpecifier) continue;
+
+            const filePath = change.uri.fsPath;
+            const name = change.namespaceName ? '*' : change.isDefault ? 'default' : change.typeName;
+            const oldTarget = change.oldImportPath ? graph.resolve(change.oldImportPath, filePath) : undefined;
+            if (oldTarget) {
+                graph.removeImport(filePath, oldTarget, name);
+            }
+            const newTarget = change.newImportPath && !change.isTypeOnly ? graph.resolve(change.newImportPath, filePath) : undefined;
+            if (newTarget) {
+                graph.addImport(filePath, newTarget, name);
+            }
+        }
+
+        return graph.findNewCycle(this.importGraph);
+    }
+
+    /**
+     * Collects the imports the moved declarations need in their destination: the source file's
+     * imports they use, with relative specifiers rewritten for the destination, and the declarations
+     * left in the source file they reference, imported like any other file the destination imports
+     * (see `getImportPath`)
+     * @param destinationFile - The parsed destination, if it exists. A new destination spells its
+     *                          imports like the source file the moved code comes from.
+     */
+    private findDestinationImports(
+        movedTypes: TypeInfo[],
+        importedTypes: TypeInfo[],
+        sourceUri: vscode.Uri,
+        destinationUri: vscode.Uri,
+        destinationFile?: ts.SourceFile
+    ): DestinationImport[] {
+        const usedNames = this.typeAnalyzer.getUsedNames(
+            movedTypes.flatMap(typeInfo => this.typeAnalyzer.getDeclarationNodes(typeInfo))
+        );
+
+        const sourceFile = movedTypes[0].node.getSourceFile();
+        const sourcePath = sourceUri.fsPath;
+        const destPath = destinationUri.fsPath;
+        const destinationImports: DestinationImport[] = [];
+
+        ts.forEachChild(sourceFile, node => {
+            if (!ts.isImportDeclaration(node) || !node.importClause) return;
+
+            const importClause = node.importClause;
+            const defaultName = importClause.name && usedNames.has(importClause.name.text)
+                ? importClause.name.text
+                : undefined;
+            let namespaceName: string | undefined;
+            let specifiers: DestinationImport['specifiers'] = [];
+            if (importClause.namedBindings && ts.isNamespaceImport(importClause.namedBindings)) {
+                if (usedNames.has(importClause.namedBindings.name.text)) {
+                    namespaceName = importClause.namedBindings.name.text;
+                }
+            } else if (importClause.namedBindings) {
+                specifiers = importClause.namedBindings.elements
+                    .filter(el => usedNames.has(el.name.text))
+                    .map(el => ({
+                        name: this.getImportedName(el),
+                        alias: el.propertyName ? el.name.text : undefined,
+                        isTypeOnly: el.isTypeOnly,
+                        text: el.getText()
+                    }));
+            }
+            if (!defaultName && !namespaceName && specifiers.length === 0) return;
+
+            const moduleSpecifier = this.rewriteModuleSpecifier(
+                (node.moduleSpecifier as ts.StringLiteral).text,
+                sourcePath,
+                destPath
+            );
+            if (!moduleSpecifier) return;
+
+            destinationImports.push({ moduleSpecifier, isTypeOnly: importClause.isTypeOnly, defaultName, namespaceName, specifiers });
+        });
+
+        const referencedTypes = importedTypes.filter(typeInfo => usedNames.has(typeInfo.name));
+        if (referencedTypes.length > 0) {
+            const sourceImportPath = this.getImportPath(destPath, sourcePath, destinationFile || sourceFile);
+            const defaults = referencedTypes.filter(typeInfo => typeInfo.isDefaultExport);
+            const named = referencedTypes.filter(typeInfo => !typeInfo.isDefaultExport);
+            const useImportType = this.getImportStyle() === 'type';
+            const typeOnly = named.filter(typeInfo => useImportType && !typeInfo.isValue);
+            const values = named.filter(typeInfo => !typeOnly.includes(typeInfo));
+            const toSpecifier = (typeInfo: TypeInfo) => ({ name: typeInfo.name, isTypeOnly: false, text: typeInfo.name });
+
+            for (const typeInfo of defaults) {
+                destinationImports.push({ moduleSpecifier: sourceImportPath, isTypeOnly: false, defaultName: typeInfo.name, specifiers: [] });
+            }
+            if (values.length > 0) {
+                destinationImports.push({ moduleSpecifier: sourceImportPath, isTypeOnly: false, specifiers: values.map(toSpecifier) });
+            }
+            if (typeOnly.length > 0) {
+                destinationImports.push({ moduleSpecifier: sourceImportPath, isTypeOnly: true, specifiers: typeOnly.map(toSpecifier) });
+            }
+        }
+
+        return destinationImports;
+    }
+
+    /**
+     * Calculates the removal of the source file's imports that only the moved declarations used,
+     * since the destination imports those names now. Imports the remaining code still uses, and
+     * imports nothing used before the move, are left alone.
+     * @param movedTypes - The declarations moving out of the source file
+     * @param sourceUri - The URI of the source file
+     * @returns Changes removing each unused default, namespace or named import
+     * @example
+     * // import { Money, Currency } from './money';
+     * // interface Order { total: Money }
+     * // interface Cart { currency: Currency }
+     * // Moving Order returns a change removing `Money`, leaving:
+     * // import { Currency } from './money';
+     */
+    public async calculateSourceImportRemovals(movedTypes: TypeInfo[], sourceUri: vscode.Uri): Promise<ImportChange[]> {
+        if (movedTypes.length === 0) return [];
+
+        const sourceFile = movedTypes[0].node.getSourceFile();
+        const sourceDocument = await vscode.workspace.openTextDocument(sourceUri);
+        const movedNames = this.typeAnalyzer.getUsedNames(
+            movedTypes.flatMap(typeInfo => this.typeAnalyzer.getDeclarationNodes(typeInfo))
+        );
+        const remainingNames = this.typeAnalyzer.getNamesUsedOutside(movedTypes, sourceDocument.getText());
+        const isUnused = (name: string) => movedNames.has(name) && !remainingNames.has(name);
+
+        const changes: ImportChange[] = [];
+        for (const statement of sourceFile.statements) {
+            if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+
+            const importClause = statement.importClause;
+            const removal = {
+                uri: sourceUri,
+                oldImportPath: (statement.moduleSpecifier as ts.StringLiteral).text,
+                newImportPath: '',
+                isTypeOnly: importClause.isTypeOnly
+            };
+            if (importClause.name && isUnused(importClause.name.text)) {
+                changes.push({ ...removal, typeName: importClause.name.text, isDefault: true });
+            }
+
+            const namedBindings = importClause.namedBindings;
+            if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+                if (isUnused(namedBindings.name.text)) {
+                    changes.push({ ...removal, typeName: namedBindings.name.text, namespaceName: namedBindings.name.text });
+                }
+            } else if (namedBindings) {
+                for (const element of namedBindings.elements) {
+                    if (!isUnused(element.name.text)) continue;
+                    changes.push({
+                        ...removal,
+                        typeName: this.getImportedName(element),
+                        alias: element.propertyName ? element.name.text : undefined
+                    });
+                }
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * Writes the re-export stub a move leaves in the source file, so consumers outside the workspace
+     * keep importing the moved declarations from their old path. The stub is marked with a
+     * `Moved to` JSDoc, which `ReExportStubManager` finds it by once it can be removed.
+     * @param movedTypes - The declarations moving out of the source file
+     * @param sourceUri - The URI of the source file
+     * @param destinationUri - The URI of the destination file
+     * @param mode - Whether the stub is marked `@deprecated`
+     * @returns The stub, or an empty string if there is none: with the `off` mode, if none of the
+     *          declarations was exported, or in Vue files, which can't re-export from `<script setup>`
+     * @example
+     * // Moving `export interface User` and `export function createUser` from /src/types.ts
+     * // to /src/models/user.ts with the `deprecated` mode returns:
+     * // /** @deprecated Moved to './models/user' *\/
+     * // export { createUser } from './models/user';
+     * // /** @deprecated Moved to './models/user' *\/
+     * // export type { User } from './models/user';
+     */
+    public calculateReExportStub(
+        movedTypes: TypeInfo[],
+        sourceUri: vscode.Uri,
+        destinationUri: vscode.Uri,
+        mode: ReExportStubMode
+    ): string {
+        const exportedTypes = movedTypes.filter(typeInfo => this.typeAnalyzer.isExported(typeInfo.node));
+        if (mode === 'off' || exportedTypes.length === 0 || this.scriptParser.isVueFile(sourceUri.fsPath)) {
+            return '';
+        }
+
+        const sourceFile = exportedTypes[0].node.getSourceFile();
+        const importPath = this.getImportPath(sourceUri.fsPath, destinationUri.fsPath, sourceFile);
+        const format = this.importFormatter.getFormat(sourceFile);
+        const comment = `/** ${mode === 'deprecated' ? '@deprecated ' : ''}Moved to ${format.quote}${importPath}${format.quote} */`;
+        const exportedName = (typeInfo: TypeInfo) => typeInfo.isDefaultExport ? 'default' : typeInfo.name;
+
+        // Values need a regular re-export, types are re-exported with `export type`
+        const values = exportedTypes.filter(typeInfo => typeInfo.isValue).map(exportedName);
+        const types = exportedTypes.filter(typeInfo => !typeInfo.isValue).map(exportedName);
+        return [[values, false], [types, true]]
+            .filter(([names]) => (names as string[]).length > 0)
+            .map(([names, isTypeOnly]) => comment + '\n' + this.importFormatter.formatDeclaration(
+                'export', isTypeOnly as boolean, undefined, names as string[], importPath, format
+            ))
+            .join('\n');
+    }
+
+    /**
+     * Rewrites a module specifier taken from the source file so it resolves from the destination file.
+     * Non-relative specifiers (packages and path aliases) resolve the same from anywhere and are kept as-is.
+     *
+     * @param moduleSpecifier - The module specifier as written in the source file
+     * @param sourcePath - Absolute path of the source file
+     * @param destPath - Absolute path of the destination file
+     * @returns The rewritten specifier, or undefined if it points at the destination file itself
+     */
+    private rewriteModuleSpecifier(moduleSpecifier: string, sourcePath: string, destPath: string): string | undefined {
+        if (!moduleSpecifier.startsWith('.')) {
+            return moduleSpecifier;
+        }
+
+        if (this.projectResolver.getPathResolver(sourcePath).isImportPathFor(moduleSpecifier, sourcePath, destPath)) {
+            return undefined;
+        }
+
+        // The specifier keeps its extension, or lack of one, so it resolves the same way
+        const targetPath = path.resolve(path.dirname(sourcePath), moduleSpecifier);
+        let relativePath = path.relative(path.dirname(destPath), targetPath).split(path.sep).join('/');
+        if (!relativePath.startsWith('.')) {
+            relativePath = './' + relativePath;
+        }
+        return relativePath;
+    }
+
+    /**
+     * Computes the specifier a file imports another file with. Files of other workspace packages
+     * are imported through the package name if the package exports them. Otherwise the importing
+     * file's own project is used: path aliases take precedence, falling back to a relative path.
+     * Both are spelled like the importing file's existing imports, e.g. with `.js` extensions.
+     * @param fromPath - Absolute path of the importing file
+     * @param toPath - Absolute path of the imported file
+     * @param importingFile - The parsed importing file, if it exists
+     */
+    private getImportPath(fromPath: string, toPath: string, importingFile?: ts.SourceFile): string {
+        const packageSpecifier = this.packageResolver.getPackageSpecifier(fromPath, toPath)?.specifier;
+        if (packageSpecifier) {
+            return packageSpecifier;
+        }
+
+        const pathResolver = this.projectResolver.getPathResolver(fromPath);
+        const extensionStyle = pathResolver.getExtensionStyle(importingFile);
+        const aliasPath = pathResolver.tryMatchPathAlias(toPath, extensionStyle);
+        console.log('[ImportManager] Alias path result:', aliasPath);
+        return aliasPath || pathResolver.resolveImportPath(fromPath, toPath, extensionStyle);
+    }
+
+    /**
+     * Checks whether files of other workspace packages will import the destination file through a
+     * package that doesn't export it. Those imports fall back to path aliases or relative paths,
+     * which bypass the package's public entry points.
+     * @param importingUris - The files that will import the destination, e.g. the references of the moved types
+     * @param destinationUri - The destination file
+     * @returns The `exports` entry that would make the package export the destination, or
+     *          undefined if no import needs one
+     */
+    public findMissingPackageExport(importingUris: vscode.Uri[], destinationUri: vscode.Uri): PackageExport | undefined {
+        for (const uri of importingUris) {
+            const packageSpecifier = this.packageResolver.getPackageSpecifier(uri.fsPath, destinationUri.fsPath);
+            if (packageSpecifier && !packageSpecifier.specifier) {
+                return this.packageResolver.suggestExport(packageSpecifier.package, destinationUri.fsPath);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Records the edit adding an `exports` entry to a package.json. Import paths calculated
+     * afterwards import the exported file through the new entry.
+     * @param packageExport - The entry to add, from `findMissingPackageExport`
+     * @param edit - The workspace edit to record the package.json edit in
+     * @param metadata - Optional metadata describing the edit in the refactor preview
+     */
+    public async addPackageExport(
+        packageExport: PackageExport,
+        edit: vscode.WorkspaceEdit,
+        metadata?: vscode.WorkspaceEditEntryMetadata
+    ): Promise<void> {
+        const uri = vscode.Uri.file(packageExport.package.packageJsonPath);
+        const document = await vscode.workspace.openTextDocument(uri);
+        const text = document.getText();
+        edit.replace(
+            uri,
+            new vscode.Range(document.positionAt(0), document.positionAt(text.length)),
+            this.packageResolver.addExport(packageExport, text),
+            metadata
+        );
+    }
+
     /**
      * Finds the existing import path and type-only status for a type in a source file.
      * 
@@ -152,41 +977,222 @@ export class ImportManager {
      * // import type { Type2 } from "@/models";
      * // findExistingImportPath(sourceFile, { name: "Type2" }) returns { path: "@/models", isTypeOnly: true }
      * 
+     * // Renamed imports are matched on the exported name, and inline `type` modifiers count as type-only.
+     * // For a file containing:
+     * // import { type User as ApiUser, fetchUser } from "./api";
+     * // findExistingImportPath(sourceFile, { name: "User" }) returns { path: "./api", isTypeOnly: true, alias: "ApiUser" }
+     * 
+     * // Default exports can be imported under any name, so the reference position is used.
+     * // For a file containing:
+     * // import formatter from "./format";
+     * // findExistingImportPath(sourceFile, { name: "format", isDefaultExport: true }, offsetOfFormatter)
+     * // returns { path: "./format", isTypeOnly: false, defaultName: "formatter" }
+     * 
+     * // References inside re-exports are matched to the re-export.
+     * // For a file containing:
+     * // export type { User } from "./user";
+     * // findExistingImportPath(sourceFile, { name: "User" }, offsetOfUser)
+     * // returns { path: "./user", isTypeOnly: true, isReExport: true }
+     * 
+     * // References in inline import types, including JSDoc ones, return the import type.
+     * // For a file containing:
+     * // let user: import("./types").User;
+     * // findExistingImportPath(sourceFile, { name: "User" }, offsetOfUser)
+     * // returns { path: "./types", isTypeOnly: true, importType: offsetsOfImportType }
+     * 
+     * // References through a namespace import return the qualified reference.
+     * // For a file containing:
+     * // import * as Models from "./models";
+     * // let user: Models.User;
+     * // findExistingImportPath(sourceFile, { name: "User" }, offsetOfUser)
+     * // returns { path: "./models", isTypeOnly: false, namespaceName: "Models", qualifiedReference: offsetsOfModelsUser }
+     * 
      * @param refSourceFile - The TypeScript source file to search in
      * @param typeInfo - Object containing the type name to search for
      * @param typeInfo.name - The name of the type to find
-     * @param typeInfo.node - The AST node of the type (unused in this method)
-     * @returns Object containing the current import path and whether it's a type-only import
+     * @param referenceOffset - Offset of the reference in the file, used to find default imports
+     * @returns Object containing the current import path, whether it's a type-only import and the local
+     *          name if the type is imported under another name.
      *          Returns { path: '', isTypeOnly: false } if the type is not found
      */
-    private findExistingImportPath(refSourceFile: ts.SourceFile, typeInfo: { name: string; node: ts.Node }): { path: string; isTypeOnly: boolean } {
-        let result = { path: '', isTypeOnly: false };
+    private findExistingImportPath(
+        refSourceFile: ts.SourceFile,
+        typeInfo: TypeInfo,
+        referenceOffset?: number
+    ): ExistingImport {
+        let result: ExistingImport = { path: '', isTypeOnly: false };
+
+        // Re-exports and inline import types are found by the reference's position
+        const referencedImport = referenceOffset !== undefined
+            ? this.findReExport(refSourceFile, typeInfo, referenceOffset) || this.findImportType(refSourceFile, typeInfo, referenceOffset)
+            : undefined;
+        if (referencedImport) {
+            return referencedImport;
+        }
 
         ts.forEachChild(refSourceFile, node => {
             if (!ts.isImportDeclaration(node)) return;
 
+            const defaultImport = node.importClause?.name;
+            if (typeInfo.isDefaultExport && defaultImport && referenceOffset !== undefined &&
+                defaultImport.getStart() <= referenceOffset && referenceOffset <= defaultImport.getEnd()) {
+                result = {
+                    path: (node.moduleSpecifier as ts.StringLiteral).text,
+                    isTypeOnly: node.importClause?.isTypeOnly || false,
+                    defaultName: defaultImport.text
+                };
+                return;
+            }
+
+            const namedBindings = node.importClause?.namedBindings;
+            if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+                const qualifiedReference = referenceOffset !== undefined
+                    ? this.findQualifiedReference(refSourceFile, namedBindings.name.text, typeInfo.name, referenceOffset)
+                    : undefined;
+                if (!qualifiedReference) return;
+
+                result = {
+                    path: (node.moduleSpecifier as ts.StringLiteral).text,
+                    isTypeOnly: node.importClause?.isTypeOnly || false,
+                    namespaceName: namedBindings.name.text,
+                    qualifiedReference: { start: qualifiedReference.getStart(), end: qualifiedReference.getEnd() }
+                };
+                return;
+            }
+
             const namedImports = this.getNamedImports(node);
             if (!namedImports) return;
 
-            const hasType = namedImports.elements.some(el => el.name.text === typeInfo.name);
-            if (!hasType) return;
+            const element = namedImports.elements.find(el => this.getImportedName(el) === typeInfo.name);
+            if (!element) return;
 
             result = {
                 path: (node.moduleSpecifier as ts.StringLiteral).text,
-                isTypeOnly: node.importClause?.isTypeOnly || false
+                isTypeOnly: node.importClause?.isTypeOnly || element.isTypeOnly || false,
+                alias: element.propertyName ? element.name.text : undefined
             };
         });
 
         return result;
     }
 
+    /**
+     * Finds the `export { ... } from` re-export of a type at a reference's position
+     * @param refSourceFile - The TypeScript source file to search in
+     * @param typeInfo - The type being moved
+     * @param referenceOffset - Offset of the reference in the file
+     * @returns The re-exported path, or undefined if the reference isn't in a re-export
+     */
+    private findReExport(
+        refSourceFile: ts.SourceFile,
+        typeInfo: TypeInfo,
+        referenceOffset: number
+    ): ExistingImport | undefined {
+        const node = refSourceFile.statements.find(statement =>
+            statement.getStart() <= referenceOffset && referenceOffset <= statement.getEnd()
+        );
+        if (!node || !ts.isExportDeclaration(node) || !node.moduleSpecifier) return undefined;
+        if (!node.exportClause || !ts.isNamedExports(node.exportClause)) return undefined;
+
+        // A default export is re-exported as `export { default as format } from './format'`
+        const exportedName = typeInfo.isDefaultExport ? 'default' : typeInfo.name;
+        const element = node.exportClause.elements.find(el => this.getImportedName(el) === exportedName);
+        if (!element) return undefined;
+
+        return {
+            path: (node.moduleSpecifier as ts.StringLiteral).text,
+            isTypeOnly: node.isTypeOnly || element.isTypeOnly,
+            alias: element.propertyName ? element.name.text : undefined,
+            isReExport: true
+        };
+    }
+
+    /**
+     * Finds the inline import type, `import('./types').User` or `typeof import('./config').config`,
+     * whose imported name is at a reference's position
+     * @param refSourceFile - The TypeScript source file to search in
+     * @param typeInfo - The type being moved
+     * @param referenceOffset - Offset of the reference in the file
+     * @returns The import type's path and offsets, from the `import` keyword to the imported name,
+     *          or undefined if the reference isn't in an import type
+     */
+    private findImportType(
+        refSourceFile: ts.SourceFile,
+        typeInfo: TypeInfo,
+        referenceOffset: number
+    ): ExistingImport | undefined {
+        const exportedName = typeInfo.isDefaultExport ? 'default' : typeInfo.name;
+        for (const node of this.typeAnalyzer.findImportTypes(refSourceFile)) {
+            const name = this.typeAnalyzer.getImportTypeName(node);
+            if (!name || name.text !== exportedName) continue;
+            if (referenceOffset < name.getStart() || referenceOffset > name.getEnd()) continue;
+            if (!ts.isLiteralTypeNode(node.argument) || !ts.isStringLiteral(node.argument.literal)) continue;
+
+            const literal = node.argument.literal;
+            // `typeof import('./config').config` keeps its `typeof`
+            const importKeywordStart = refSourceFile.text.indexOf('import', node.getStart());
+            return {
+                path: literal.text,
+                isTypeOnly: true,
+                importType: {
+                    start: importKeywordStart,
+                    end: name.getEnd(),
+                    specifierStart: literal.getStart() + 1,
+                    specifierEnd: literal.getEnd() - 1
+                }
+            };
+        }
+        return undefined;
+    }
+
+    /**
+     * Finds the qualified reference, `Models.User` or `Models.createUser`, whose right-hand name is at an offset
+     * @param sourceFile - The file containing the reference
+     * @param namespaceName - The local name of the namespace import, e.g. `Models`
+     * @param name - The name accessed through the namespace, e.g. `User`
+     * @param offset - Offset of the reference's right-hand name
+     * @returns The qualified name or property access, or undefined if the reference isn't qualified by the namespace
+     */
+    private findQualifiedReference(
+        sourceFile: ts.SourceFile,
+        namespaceName: string,
+        name: string,
+        offset: number
+    ): ts.QualifiedName | ts.PropertyAccessExpression | undefined {
+        const findNode = (node: ts.Node): ts.Node | undefined =>
+            node.getStart() <= offset && offset < node.getEnd()
+                ? ts.forEachChild(node, findNode) || node
+                : undefined;
+        const identifier = ts.forEachChild(sourceFile, findNode);
+        if (!identifier || !ts.isIdentifier(identifier) || identifier.text !== name) return undefined;
+
+        const parent = identifier.parent;
+        if (ts.isQualifiedName(parent) && parent.right === identifier &&
+            ts.isIdentifier(parent.left) && parent.left.text === namespaceName) {
+            return parent;
+        }
+        if (ts.isPropertyAccessExpression(parent) && parent.name === identifier &&
+            ts.isIdentifier(parent.expression) && parent.expression.text === namespaceName) {
+            return parent;
+        }
+        return undefined;
+    }
+
     private getNamedImports(node: ts.ImportDeclaration): ts.NamedImports | null {
         const namedBindings = node.importClause?.namedBindings;
         return namedBindings && ts.isNamedImports(namedBindings) ? namedBindings : null;
     }
 
     /**
-     * Updates import statements in TypeScript files based on provided changes
+     * Returns the name an import or export specifier refers to, `User` for both `User` and `User as ApiUser`
+     */
+    private getImportedName(element: ts.ImportSpecifier | ts.ExportSpecifier): string {
+        return (element.propertyName || element.name).text;
+    }
+
+    /**
+     * Updates import statements in TypeScript files based on provided changes.
+     * All edits are applied together as a single workspace edit.
      * @param changes - The changes to apply to imports
      * @example
      * // Update imports after moving a type
@@ -205,17 +1211,49 @@ export class ImportManager {
      * // After:  import { UserType } from './models';
      */
     public async updateImports(changes: Changes): Promise<void> {
+        const edit = new vscode.WorkspaceEdit();
+        await this.addImportEdits(changes, edit);
+        await vscode.workspace.applyEdit(edit);
+    }
+
+    /**
+     * Records the import edits for the provided changes into a workspace edit without applying it.
+     * Changes are grouped per file, so several changes to the same file produce a single,
+     * non-overlapping set of edits against the file's current content.
+     * @param changes - The changes to apply to imports
+     * @param edit - The workspace edit to record the import edits in
+     * @param metadata - Optional metadata describing the edits in the refactor preview
+     * @example
+     * // Two types moved to './models' that user.ts imported from './types'
+     * // Before: import { Order, User } from './types';
+     * // After:  import { Order, User } from "./models";
+     */
+    public async addImportEdits(
+        changes: Changes,
+        edit: vscode.WorkspaceEdit,
+        metadata?: vscode.WorkspaceEditEntryMetadata
+    ): Promise<void> {
+        const changesByFile = new Map<string, ImportChange[]>();
         for (const change of changes.importChanges) {
-            const document = await vscode.workspace.openTextDocument(change.uri);
-            const edits = await this.calculateEditsForDocument(document, change);
-            await this.applyEdits(change.uri, edits);
+            const fileChanges = changesByFile.get(change.uri.fsPath) || [];
+            fileChanges.push(change);
+            changesByFile.set(change.uri.fsPath, fileChanges);
+        }
+
+        for (const fileChanges of changesByFile.values()) {
+            const uri = fileChanges[0].uri;
+            const document = await vscode.workspace.openTextDocument(uri);
+            const edits = await this.calculateEditsForDocument(document, fileChanges);
+            for (const editToApply of edits) {
+                edit.replace(uri, editToApply.range, editToApply.newText, metadata);
+            }
         }
     }
 
     /**
-     * Calculates the necessary edits for a document based on a single import change
+     * Calculates the necessary edits for a document based on all import changes targeting it
      * @param document - The document to calculate edits for
-     * @param change - The import change to apply
+     * @param changes - The import changes to apply to the document
      * @returns Array of edits to be applied
      * @example
      * // Example 1: Merging a type into an existing import
@@ -242,35 +1280,75 @@ export class ImportManager {
      */
     private async calculateEditsForDocument(
         document: vscode.TextDocument,
-        change: ImportChange
+        changes: ImportChange[]
     ): Promise<ImportEdit[]> {
-        const sourceFile = ts.createSourceFile(
-            document.fileName,
-            document.getText(),
-            ts.ScriptTarget.Latest,
-            true
-        );
+        const sourceFile = this.scriptParser.parse(document.fileName, document.getText());
 
+        // Inline import types are rewritten in place and don't affect the file's imports
+        const effectiveChanges = changes.filter(change =>
+            !change.importTypeSpecifier && change.oldImportPath !== change.newImportPath
+        );
         const editsToApply: ImportEdit[] = [];
-        let hasExistingImport = false;
+        const mergedChanges = new Set<ImportChange>();
+        const importStyle = this.getImportStyle();
+        const format = this.importFormatter.getFormat(sourceFile);
         let lastImportPos = 0;
+        let lastReExportPos = 0;
+
+        for (const change of changes) {
+            if (change.importTypeSpecifier && change.oldImportPath !== change.newImportPath) {
+                editsToApply.push({ range: change.importTypeSpecifier, newText: change.newImportPath });
+            }
+        }
+
+        // References through a namespace import, e.g. `Models.User`, are pointed at the new import
+        for (const change of changes) {
+            if (!change.qualifiedReference) continue;
+            editsToApply.push({
+                range: change.qualifiedReference,
+                newText: change.namespaceName
+                    ? `${change.namespaceName}.${change.typeName}`
+                    : change.alias || change.typeName
+            });
+        }
 
         ts.forEachChild(sourceFile, node => {
-            if (!ts.isImportDeclaration(node)) return;
+            const isReExport = ts.isExportDeclaration(node) && !!node.moduleSpecifier;
+            if (!ts.isImportDeclaration(node) && !isReExport) return;
 
-            lastImportPos = node.getEnd();
-            const importPath = (node.moduleSpecifier as ts.StringLiteral).text;
-            
-            if (importPath === change.oldImportPath) {
-                this.handleOldImportPath(node, document, change, editsToApply);
-            } else if (importPath === change.newImportPath) {
-                hasExistingImport = true;
-                this.handleNewImportPath(node, document, change, editsToApply);
+            if (isReExport) {
+                lastReExportPos = node.getEnd();
+            } else {
+                lastImportPos = node.getEnd();
+            }
+            const importPath = ((node as ts.ImportDeclaration | ts.ExportDeclaration).moduleSpecifier as ts.StringLiteral).text;
+
+            // Imports and re-exports of the same path are updated independently
+            const declarationChanges = effectiveChanges.filter(change => !!change.isReExport === isReExport);
+            const removedChanges = declarationChanges.filter(change => change.oldImportPath === importPath);
+            const addedChanges = declarationChanges.filter(change =>
+                change.newImportPath === importPath && !mergedChanges.has(change) &&
+                this.canMergeInto(node as ts.ImportDeclaration | ts.ExportDeclaration, change)
+            );
+            addedChanges.forEach(change => mergedChanges.add(change));
+
+            // An existing `import * as` of the path already provides namespace changes
+            const addedSpecifiers = addedChanges.filter(change => !change.namespaceName);
+            if (removedChanges.length === 0 && addedSpecifiers.length === 0) return;
+            if (ts.isImportDeclaration(node)) {
+                this.rewriteImportDeclaration(node, document, removedChanges, addedSpecifiers, importStyle, format, editsToApply);
+            } else {
+                this.rewriteExportDeclaration(node as ts.ExportDeclaration, document, removedChanges, addedSpecifiers, format, editsToApply);
             }
         });
 
-        if (!hasExistingImport) {
-            this.addNewImport(lastImportPos, document, change, editsToApply);
+        // An empty new import path means the type only needs to be removed,
+        // e.g. when the file the type is moved into used to import it
+        const newImports = effectiveChanges.filter(change => change.newImportPath && !mergedChanges.has(change));
+        if (newImports.length > 0) {
+            this.addNewImports(lastImportPos, lastReExportPos, document, newImports, format, editsToApply);
+        } else {
+            this.removeLeadingBlankLines(document, editsToApply);
         }
 
         // Sort edits from last to first to avoid position shifting
@@ -278,10 +1356,14 @@ export class ImportManager {
     }
 
     /**
-     * Handles modifications to the old import path, either removing the type or updating remaining types
+     * Rewrites an import declaration, removing the types that moved away from its path
+     * and merging in the types that moved to its path
      * @param node - The import declaration node
      * @param document - The document being modified
-     * @param change - The import change to apply
+     * @param removedChanges - Changes whose old import path is this declaration's path
+     * @param addedChanges - Changes whose new import path is this declaration's path
+     * @param importStyle - Whether added types get an inline `type` modifier in regular imports
+     * @param format - The file's import format, for declarations that grow too long for one line
      * @param edits - Array of edits to append to
      * @example
      * // When moving 'UserType' from './types' to './models'
@@ -290,102 +1372,323 @@ export class ImportManager {
      * // Or if it's the only type:
      * // Input:  import { UserType } from './types';
      * // Output: [Import statement removed]
+     * 
+     * // Quotes, semicolons and the wrapping of the braces are kept as written
+     * // Input:  import {\n  OtherType,\n  UserType,\n} from "./types"
+     * // Output: import {\n  OtherType,\n} from "./types"
+     * 
+     * // When moving 'UserType' to a file with existing imports
+     * // Input:  import { ExistingType } from './models';
+     * // Output: import { ExistingType, UserType } from './models';
+     * // Or with type-only imports:
+     * // Input:  import type { ExistingType } from './models';
+     * // Output: import type { ExistingType, UserType } from './models';
+     * 
+     * // Aliases, inline `type` modifiers and default imports are kept
+     * // Input:  import Api, { type UserType as ApiUser, fetchUser } from './api';
+     * // Output: import Api, { fetchUser } from './api';
      */
-    private handleOldImportPath(
+    private rewriteImportDeclaration(
         node: ts.ImportDeclaration,
         document: vscode.TextDocument,
-        change: ImportChange,
+        removedChanges: ImportChange[],
+        addedChanges: ImportChange[],
+        importStyle: ImportStyle,
+        format: ImportFormat,
         edits: ImportEdit[]
     ): void {
         const importClause = node.importClause;
-        if (!importClause?.namedBindings || !ts.isNamedImports(importClause.namedBindings)) return;
-
-        const elements = importClause.namedBindings.elements;
-        if (elements.length === 1 && elements[0].name.text === change.typeName) {
-            // Remove the entire import if it only contains our type
-            edits.push(this.createEdit(node.getStart(), node.getEnd(), '', document));
-        } else if (elements.some(el => el.name.text === change.typeName)) {
-            // Remove only the specific type
-            const remainingTypes = elements
-                .filter(el => el.name.text !== change.typeName)
-                .map(el => el.name.text)
-                .join(', ');
-            
-            const typeKeyword = (importClause.isTypeOnly || change.isTypeOnly) ? 'type ' : '';
-            const newImport = `import ${typeKeyword}{ ${remainingTypes} } from "${(node.moduleSpecifier as ts.StringLiteral).text}";`;
+        if (!importClause) return;
+
+        const namedImports = this.getNamedImports(node);
+        const removedNames = new Set(removedChanges.filter(change => !change.isDefault).map(change => change.typeName));
+        const removesDefault = removedChanges.some(change => change.isDefault && change.typeName === importClause.name?.text);
+        const namespaceBinding = importClause.namedBindings && ts.isNamespaceImport(importClause.namedBindings)
+            ? importClause.namedBindings
+            : undefined;
+        const removesNamespace = !!namespaceBinding &&
+            removedChanges.some(change => change.namespaceName === namespaceBinding.name.text);
+
+        const { specifiers, changed } = this.mergeSpecifiers(
+            namedImports ? namedImports.elements : [],
+            removedNames,
+            addedChanges,
+            !importClause.isTypeOnly && importStyle === 'type'
+        );
+        if (!changed && !removesDefault && !removesNamespace) return;
+
+        const defaultName = removesDefault ? undefined : importClause.name?.text;
+        const namespaceImport = namespaceBinding && !removesNamespace ? namespaceBinding.getText() : undefined;
+
+        if (!defaultName && specifiers.length === 0 && !namespaceImport) {
+            // Remove the entire import if it only contained moved types
+            edits.push(this.createRemovalEdit(node, document));
+            return;
+        }
+
+        const declarationText = document.getText().slice(node.getStart(), node.getEnd());
+        if (namespaceImport) {
+            // Only the default import of `import Api, * as Models` can change
+            const newImport = declarationText.replace(/^import\s+(type\s+)?[\w$]+\s*,\s*/, 'import $1');
             edits.push(this.createEdit(node.getStart(), node.getEnd(), newImport, document));
+            return;
         }
+
+        // Types are only merged into imports with a compatible type-only modifier,
+        // so the existing modifier is kept as-is
+        const newImport = this.importFormatter.rewriteDeclaration(
+            declarationText, 'import', importClause.isTypeOnly, defaultName, specifiers, format
+        );
+        edits.push(this.createEdit(node.getStart(), node.getEnd(), newImport, document));
     }
 
     /**
-     * Handles modifications to the new import path, merging the type into existing imports
-     * @param node - The import declaration node
+     * Rewrites an `export { ... } from` re-export, removing the types that moved away from its path
+     * and merging in the types that moved to its path
+     * @param node - The export declaration node
      * @param document - The document being modified
-     * @param change - The import change to apply
+     * @param removedChanges - Changes whose old import path is this declaration's path
+     * @param addedChanges - Changes whose new import path is this declaration's path
+     * @param format - The file's import format, for declarations that grow too long for one line
      * @param edits - Array of edits to append to
      * @example
-     * // When moving 'UserType' to a file with existing imports
-     * // Input:  import { ExistingType } from './models';
-     * // Output: import { ExistingType, UserType } from './models';
-     * // Or with type-only imports:
-     * // Input:  import type { ExistingType } from './models';
-     * // Output: import type { ExistingType, UserType } from './models';
+     * // When moving 'UserType' from './types' to './models'
+     * // Input:  export type { UserType, OtherType } from './types';
+     * // Output: export type { OtherType } from './types';
+     * // And in the same file:
+     * // Input:  export { ModelType } from './models';
+     * // Output: export { ModelType, type UserType } from './models';
      */
-    private handleNewImportPath(
-        node: ts.ImportDeclaration,
+    private rewriteExportDeclaration(
+        node: ts.ExportDeclaration,
         document: vscode.TextDocument,
-        change: ImportChange,
+        removedChanges: ImportChange[],
+        addedChanges: ImportChange[],
+        format: ImportFormat,
         edits: ImportEdit[]
     ): void {
-        const importClause = node.importClause;
-        if (!importClause?.namedBindings || !ts.isNamedImports(importClause.namedBindings)) return;
+        if (!node.exportClause || !ts.isNamedExports(node.exportClause)) return;
 
-        const elements = importClause.namedBindings.elements;
-        if (elements.some(el => el.name.text === change.typeName)) return;
+        const { specifiers, changed } = this.mergeSpecifiers(
+            node.exportClause.elements,
+            new Set(removedChanges.map(change => change.typeName)),
+            addedChanges,
+            // Re-exported types need the modifier with `isolatedModules`, whatever the import style
+            !node.isTypeOnly
+        );
+        if (!changed) return;
 
-        const existingTypes = elements.map(el => el.name.text);
-        existingTypes.push(change.typeName);
-        const sortedTypes = existingTypes.sort().join(', ');
+        if (specifiers.length === 0) {
+            edits.push(this.createRemovalEdit(node, document));
+            return;
+        }
 
-        // If either the existing import or the new import is type-only, 
-        // the merged import should be type-only to maintain type safety
-        const shouldBeTypeOnly = importClause.isTypeOnly || change.isTypeOnly;
-        const typeKeyword = shouldBeTypeOnly ? 'type ' : '';
-        const newImport = `import ${typeKeyword}{ ${sortedTypes} } from "${(node.moduleSpecifier as ts.StringLiteral).text}";`;
-        
-        const startPos = node.getStart();
-        const endPos = node.getEnd();
-        edits.push(this.createEdit(startPos, endPos, newImport, document));
+        const newExport = this.importFormatter.rewriteDeclaration(
+            document.getText().slice(node.getStart(), node.getEnd()), 'export', node.isTypeOnly, undefined, specifiers, format
+        );
+        edits.push(this.createEdit(node.getStart(), node.getEnd(), newExport, document));
     }
 
     /**
-     * Creates a new import statement when no existing import exists
+     * Computes the specifiers of a named import or export after removing and adding types.
+     * Remaining specifiers keep their text, so aliases and inline `type` modifiers survive.
+     * @param elements - The declaration's current specifiers
+     * @param removedNames - The exported names of the types to remove
+     * @param addedChanges - The changes to add to the declaration
+     * @param addTypeModifiers - Whether added type-only changes get an inline `type` modifier,
+     *                           false for `import type` and `export type` declarations
+     * @returns The specifiers' text and whether they changed. Added types are put in alphabetical
+     *          order if the declaration already is, and appended otherwise.
+     */
+    private mergeSpecifiers(
+        elements: readonly (ts.ImportSpecifier | ts.ExportSpecifier)[],
+        removedNames: Set<string>,
+        addedChanges: ImportChange[],
+        addTypeModifiers: boolean
+    ): { specifiers: string[]; changed: boolean } {
+        const remainingSpecifiers = elements
+            .filter(el => !removedNames.has(this.getImportedName(el)))
+            .map(el => ({ name: this.getImportedName(el), localName: el.name.text, text: el.getText() }));
+        const addedSpecifiers: typeof remainingSpecifiers = [];
+        for (const change of addedChanges) {
+            const localName = change.alias || change.typeName;
+            const isImported = [...remainingSpecifiers, ...addedSpecifiers]
+                .some(specifier => specifier.name === change.typeName && specifier.localName === localName);
+            if (isImported) continue;
+
+            // Types merged into a regular declaration keep their type-only status with an inline modifier
+            const typeModifier = change.isTypeOnly && addTypeModifiers ? 'type ' : '';
+            const alias = change.alias ? ` as ${change.alias}` : '';
+            addedSpecifiers.push({ name: change.typeName, localName, text: `${typeModifier}${change.typeName}${alias}` });
+        }
+
+        const isSorted = this.importFormatter.isSorted(remainingSpecifiers.map(specifier => specifier.text));
+        const specifiers = addedSpecifiers.length > 0 && isSorted
+            ? [...remainingSpecifiers, ...addedSpecifiers].sort((a, b) => a.name.localeCompare(b.name))
+            : [...remainingSpecifiers, ...addedSpecifiers];
+        return {
+            specifiers: specifiers.map(specifier => specifier.text),
+            changed: remainingSpecifiers.length !== elements.length || addedSpecifiers.length > 0
+        };
+    }
+
+    /**
+     * Checks whether a change can be merged into an existing import declaration.
+     * Default imports get their own statement, namespace imports can't be combined with named
+     * ones but provide namespace changes of the same name, and values can't be added to `import type` declarations since that would make them
+     * unusable at runtime.
+     * @param node - The existing import declaration, or re-export for re-export changes
+     * @param change - The change to merge
+     */
+    private canMergeInto(node: ts.ImportDeclaration | ts.ExportDeclaration, change: ImportChange): boolean {
+        if (change.namespaceName) {
+            const namedBindings = ts.isImportDeclaration(node) ? node.importClause?.namedBindings : undefined;
+            return !!namedBindings && ts.isNamespaceImport(namedBindings) && namedBindings.name.text === change.namespaceName;
+        }
+        if (ts.isExportDeclaration(node)) {
+            const hasNamedExports = !!node.exportClause && ts.isNamedExports(node.exportClause);
+            return hasNamedExports && (change.isTypeOnly || !node.isTypeOnly);
+        }
+
+        const importClause = node.importClause;
+        if (change.isDefault || !importClause) return false;
+        if (importClause.namedBindings && !this.getNamedImports(node)) return false;
+        if (importClause.isTypeOnly) {
+            // `import type Foo, { Bar }` is not valid TypeScript
+            return change.isTypeOnly && !importClause.name;
+        }
+        return true;
+    }
+
+    /**
+     * Creates new import statements for changes whose path isn't imported yet.
+     * Types imported from the same path are combined into one statement.
+     * Re-exports are added after the file's last re-export, or after its imports.
      * @param lastImportPos - Position of the last import in the file
+     * @param lastReExportPos - Position of the last `export ... from` in the file
      * @param document - The document being modified
-     * @param change - The import change to apply
+     * @param changes - The import changes to add
+     * @param format - The file's import format
      * @param edits - Array of edits to append to
      * @example
-     * // When adding a new type import to a file
+     * // When adding new type imports to a file
      * // Input:  [No existing import]
-     * // Output: import { UserType } from './models';
+     * // Output: import { UserType, OrderType } from './models';
      * // Or with type-only:
-     * // Output: import type { UserType } from './models';
+     * // Output: import type { UserType, OrderType } from './models';
+     * // Or for a default export:
+     * // Output: import formatDate from './format';
+     * // Or for a namespace import:
+     * // Output: import * as Models from './models';
+     * // Or for a re-export:
+     * // Output: export type { UserType } from './models';
      */
-    private addNewImport(
+    private addNewImports(
         lastImportPos: number,
+        lastReExportPos: number,
         document: vscode.TextDocument,
-        change: ImportChange,
+        changes: ImportChange[],
+        format: ImportFormat,
         edits: ImportEdit[]
     ): void {
-        const importStatement = change.isTypeOnly
-            ? `import type { ${change.typeName} } from "${change.newImportPath}";\n`
-            : `import { ${change.typeName} } from "${change.newImportPath}";\n`;
-
-        const pos = document.positionAt(lastImportPos).line + 1;
-        edits.push({
-            range: new vscode.Range(pos, 0, pos, 0),
-            newText: importStatement
-        });
+        const groups = new Map<string, { path: string; isTypeOnly: boolean; isReExport: boolean; names: string[] }>();
+        const defaultImports: string[] = [];
+        for (const change of changes) {
+            if (change.isDefault) {
+                defaultImports.push(this.importFormatter.formatDeclaration(
+                    'import', change.isTypeOnly, change.typeName, [], change.newImportPath, format
+                ) + '\n');
+                continue;
+            }
+            if (change.namespaceName) {
+                defaultImports.push(this.importFormatter.formatDeclaration(
+                    'import', change.isTypeOnly, undefined, `* as ${change.namespaceName}`, change.newImportPath, format
+                ) + '\n');
+                continue;
+            }
+
+            const isReExport = !!change.isReExport;
+            const key = `${change.newImportPath}|${change.isTypeOnly}|${isReExport}`;
+            const group = groups.get(key) || { path: change.newImportPath, isTypeOnly: change.isTypeOnly, isReExport, names: [] };
+            const specifier = change.alias ? `${change.typeName} as ${change.alias}` : change.typeName;
+            if (!group.names.includes(specifier)) {
+                group.names.push(specifier);
+            }
+            groups.set(key, group);
+        }
+
+        const toStatement = (group: { path: string; isTypeOnly: boolean; isReExport: boolean; names: string[] }) =>
+            this.importFormatter.formatDeclaration(
+                group.isReExport ? 'export' : 'import', group.isTypeOnly, undefined, group.names, group.path, format
+            ) + '\n';
+        const importStatements = [...new Set(defaultImports)].join('') + [...groups.values()]
+            .filter(group => !group.isReExport)
+            .map(toStatement)
+            .join('');
+        const reExportStatements = [...groups.values()]
+            .filter(group => group.isReExport)
+            .map(toStatement)
+            .join('');
+
+        // Without existing imports, insert at the top of the file, or of the script block in Vue files
+        const importLine = lastImportPos > 0
+            ? document.positionAt(lastImportPos).line + 1
+            : document.positionAt(this.scriptParser.getImportInsertOffset(document.fileName, document.getText())).line;
+        const reExportLine = lastReExportPos > 0
+            ? document.positionAt(lastReExportPos).line + 1
+            : importLine;
+
+        // Statements inserted at the same line share one edit to keep their order
+        const insertions = new Map<number, string>();
+        for (const [line, text] of [[importLine, importStatements], [reExportLine, reExportStatements]] as const) {
+            if (text) {
+                insertions.set(line, (insertions.get(line) || '') + text);
+            }
+        }
+        for (const [line, text] of insertions) {
+            edits.push({
+                range: new vscode.Range(line, 0, line, 0),
+                newText: text
+            });
+        }
+    }
+
+    /**
+     * Creates an edit removing a declaration, along with its line break if nothing else is on its line
+     * @param node - The declaration to remove
+     * @param document - The document being modified
+     */
+    private createRemovalEdit(node: ts.Node, document: vscode.TextDocument): ImportEdit {
+        const text = document.getText();
+        const lineStart = text.lastIndexOf('\n', node.getStart() - 1) + 1;
+        const rest = /^[ \t]*\r?\n/.exec(text.slice(node.getEnd()));
+        const ownsLine = rest && text.slice(lineStart, node.getStart()).trim() === '';
+        return this.createEdit(node.getStart(), node.getEnd() + (ownsLine ? rest[0].length : 0), '', document);
+    }
+
+    /**
+     * Extends the removals of the declarations at the top of a file over the blank lines following
+     * them, so the file doesn't start with a blank line once they are gone
+     * @param document - The document being modified
+     * @param edits - The edits of the document, whose removals are extended in place
+     * @example
+     * // Removing the import of Status, which moved into this file:
+     * // Input:  import { Status } from './types';\n\nexport class Order {}
+     * // Output: export class Order {}
+     */
+    private removeLeadingBlankLines(document: vscode.TextDocument, edits: ImportEdit[]): void {
+        const text = document.getText();
+        const blankLines = /^(?:[ \t]*\r?\n)*/;
+        const findRemoval = (offset: number) => edits.find(edit =>
+            edit.newText === '' && !edit.range.isEmpty && document.offsetAt(edit.range.start) === offset
+        );
+
+        let offset = blankLines.exec(text)![0].length;
+        for (let removal = findRemoval(offset); removal; removal = findRemoval(offset)) {
+            const end = document.offsetAt(removal.range.end);
+            offset = end + blankLines.exec(text.slice(end))![0].length;
+            removal.range = new vscode.Range(removal.range.start, document.positionAt(offset));
+        }
     }
 
     /**
@@ -421,29 +1724,4 @@ export class ImportManager {
             newText
         };
     }
-
-    /**
-     * Applies a set of edits to a document
-     * @param uri - The URI of the document to modify
-     * @param edits - The edits to apply
-     * @example
-     * // Applying multiple edits to a document
-     * await applyEdits(documentUri, [
-     *   {
-     *     range: new vscode.Range(0, 0, 0, 10),
-     *     newText: 'import { Type1 } from "./types";'
-     *   },
-     *   {
-     *     range: new vscode.Range(1, 0, 1, 15),
-     *     newText: 'import { Type2 } from "./models";'
-     *   }
-     * ]);
-     */
-    private async applyEdits(uri: vscode.Uri, edits: ImportEdit[]): Promise<void> {
-        const edit = new vscode.WorkspaceEdit();
-        for (const editToApply of edits) {
-            edit.replace(uri, editToApply.range, editToApply.newText);
-        }
-        await vscode.workspace.applyEdit(edit);
-    }
 }
@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+
+/**
+ * Raised when a move cannot be applied. Carries the file that caused the failure, if known.
+ */
+export class MoveTransactionError extends Error {
+    constructor(message: string, public readonly uri?: vscode.Uri) {
+        super(uri ? `${message} (${vscode.workspace.asRelativePath(uri)})` : message);
+        this.name = 'MoveTransactionError';
+    }
+}
+
+/**
+ * State of a file before the transaction was applied, used to restore it on failure
+ */
+interface FileSnapshot {
+    uri: vscode.Uri;
+    existed: boolean;
+    text: string;
+    isDirty: boolean;
+}
+
+/**
+ * Collects every edit of a move into a single `WorkspaceEdit` and applies it at once.
+ *
+ * Applying one composed edit means the whole move is a single undo step across all affected
+ * files. If applying or saving fails, every affected file is restored to its original content
+ * and files created by the move are deleted again.
+ *
+ * With `preview` enabled, every edit is recorded with metadata that requires confirmation, so
+ * VS Code shows its refactor preview and each file's change can be unchecked before applying.
+ *
+ * @example
+ * ```typescript
+ * const transaction = new MoveTransaction({ preview: true });
+ * const metadata = transaction.createMetadata('Update imports');
+ * await importManager.addImportEdits(changes, transaction.edit, metadata);
+ * const applied = await transaction.commit(); // false if the preview was discarded
+ * ```
+ */
+export class MoveTransaction {
+    /** The composed edit for every file touched by the move */
+    public readonly edit = new vscode.WorkspaceEdit();
+
+    /** Original state of each affected file, keyed by URI */
+    private snapshots = new Map<string, FileSnapshot>();
+
+    /** Whether the edit is shown in the refactor preview before it is applied */
+    private preview: boolean;
+
+    constructor(options: { preview?: boolean } = {}) {
+        this.preview = options.preview ?? false;
+    }
+
+    /**
+     * Creates the metadata to record edits with. Edits sharing a label are grouped together
+     * in the refactor preview.
+     *
+     * @param label - Human readable category of the edits, e.g. 'Update imports'
+     * @param description - Additional detail shown next to the label
+     */
+    public createMetadata(label: string, description?: string): vscode.WorkspaceEditEntryMetadata {
+        return {
+            label,
+            description,
+            needsConfirmation: this.preview
+        };
+    }
+
+    /**
+     * Creates the metadata to record edits that need the user's attention with, e.g. imports that
+     * create a cycle. The refactor preview is shown for the whole move, even if it is turned off.
+     *
+     * @param label - Human readable description of the problem, e.g. 'Update imports, creating an import cycle'
+     * @param description - Additional detail shown next to the label
+     */
+    public createWarningMetadata(label: string, description?: string): vscode.WorkspaceEditEntryMetadata {
+        this.preview = true;
+        return this.createMetadata(label, description);
+    }
+
+    /**
+     * Validates and applies the composed edit, then saves every changed document.
+     * Restores the workspace if any step fails.
+     *
+     * @returns False if the user discarded the refactor preview, true once the edit is applied
+     * @throws {MoveTransactionError} If the edit is invalid or could not be applied or saved
+     */
+    public async commit(): Promise<boolean> {
+        const uris = this.getAffectedUris();
+        await this.takeSnapshots(uris);
+        await this.validate();
+
+        let applied = false;
+        try {
+            applied = await vscode.workspace.applyEdit(this.edit, { isRefactoring: true });
+        } catch (error) {
+            const failedUri = await this.findUnappliedUri();
+            await this.rollback();
+            throw new MoveTransactionError(
+                `Failed to apply move: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                failedUri
+            );
+        }
+
+        const changedUris = await this.getChangedUris();
+        if (!applied) {
+            // Discarding the preview leaves every file untouched
+            if (this.preview && changedUris.length === 0) {
+                return false;
+            }
+            const failedUri = await this.findUnappliedUri();
+            await this.rollback();
+            throw new MoveTransactionError('Failed to apply move', failedUri);
+        }
+
+        // Files unchecked in the preview are unchanged and don't need saving
+        for (const uri of changedUris) {
+            const document = await vscode.workspace.openTextDocument(uri);
+            if (!await document.save()) {
+                await this.rollback();
+                throw new MoveTransactionError('Failed to save file', uri);
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Restores every affected file to the state it had before the transaction was applied
+     */
+    public async rollback(): Promise<void> {
+        const restoreEdit = new vscode.WorkspaceEdit();
+        const toSave: vscode.Uri[] = [];
+
+        for (const snapshot of this.snapshots.values()) {
+            if (!snapshot.existed) {
+                restoreEdit.deleteFile(snapshot.uri, { ignoreIfNotExists: true });
+                continue;
+            }
+
+            const document = await vscode.workspace.openTextDocument(snapshot.uri);
+            if (document.getText() === snapshot.text) continue;
+
+            const fullRange = new vscode.Range(
+                new vscode.Position(0, 0),
+                document.lineAt(document.lineCount - 1).range.end
+            );
+            restoreEdit.replace(snapshot.uri, fullRange, snapshot.text);
+            if (!snapshot.isDirty) {
+                toSave.push(snapshot.uri);
+            }
+        }
+
+        await vscode.workspace.applyEdit(restoreEdit);
+        for (const uri of toSave) {
+            const document = await vscode.workspace.openTextDocument(uri);
+            await document.save();
+        }
+    }
+
+    /**
+     * Returns the URIs of all files the composed edit touches
+     */
+    public getAffectedUris(): vscode.Uri[] {
+        return this.edit.entries().map(([uri]) => uri);
+    }
+
+    /**
+     * Returns the URIs of affected files whose content no longer matches their snapshot
+     */
+    private async getChangedUris(): Promise<vscode.Uri[]> {
+        const changed: vscode.Uri[] = [];
+        for (const snapshot of this.snapshots.values()) {
+            const text = await this.readCurrentText(snapshot.uri);
+            const unchanged = snapshot.existed ? text === snapshot.text : text === undefined;
+            if (!unchanged) {
+                changed.push(snapshot.uri);
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Reads a file's current content, or undefined if it doesn't exist
+     */
+    private async readCurrentText(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            return (await vscode.workspace.openTextDocument(uri)).getText();
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async takeSnapshots(uris: vscode.Uri[]): Promise<void> {
+        this.snapshots.clear();
+        for (const uri of uris) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                this.snapshots.set(uri.toString(), {
+                    uri,
+                    existed: true,
+                    text: document.getText(),
+                    isDirty: document.isDirty
+                });
+            } catch {
+                this.snapshots.set(uri.toString(), { uri, existed: false, text: '', isDirty: false });
+            }
+        }
+    }
+
+    /**
+     * Checks every file's edits before anything is applied, so failures can be attributed to a file
+     *
+     * @throws {MoveTransactionError} If a file is read-only or its edits are out of range or overlapping
+     */
+    private async validate(): Promise<void> {
+        for (const [uri, textEdits] of this.edit.entries()) {
+            const snapshot = this.snapshots.get(uri.toString());
+            if (!snapshot?.existed) continue;
+
+            if (vscode.workspace.fs.isWritableFileSystem(uri.scheme) === false) {
+                throw new MoveTransactionError('File is read-only', uri);
+            }
+
+            const document = await vscode.workspace.openTextDocument(uri);
+            // An insert at the start of another edit comes first, like the editor applies it, so an
+            // import added before a deleted declaration doesn't count as overlapping
+            const sorted = [...textEdits].sort((a, b) =>
+                a.range.start.compareTo(b.range.start) || a.range.end.compareTo(b.range.end)
+            );
+            for (let i = 0; i < sorted.length; i++) {
+                const range = sorted[i].range;
+                if (!document.validateRange(range).isEqual(range)) {
+                    throw new MoveTransactionError('Edit is outside of the file', uri);
+                }
+                if (i > 0 && sorted[i - 1].range.end.isAfter(range.start)) {
+                    throw new MoveTransactionError('Overlapping edits', uri);
+                }
+            }
+        }
+    }
+
+    /**
+     * Finds the first file whose edits did not take effect, i.e. that still matches its snapshot.
+     * Failures that can be attributed to a file are caught by `validate()` beforehand, so this is
+     * a best effort for errors `applyEdit` reports without a reason.
+     */
+    private async findUnappliedUri(): Promise<vscode.Uri | undefined> {
+        for (const snapshot of this.snapshots.values()) {
+            const text = await this.readCurrentText(snapshot.uri);
+            const unchanged = snapshot.existed ? text === snapshot.text : text === undefined;
+            if (unchanged) {
+                return snapshot.uri;
+            }
+        }
+        return undefined;
+    }
+}
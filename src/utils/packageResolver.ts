@@ -0,0 +1,295 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * A package of the workspace, read from its package.json
+ */
+export interface WorkspacePackage {
+    /** The package name, e.g. `@acme/shared` */
+    name: string;
+    /** Absolute path of the directory containing the package.json */
+    directory: string;
+    /** Absolute path of the package.json */
+    packageJsonPath: string;
+    /** The `exports` field, if the package restricts its entry points */
+    exports?: unknown;
+    /** The `types`, `typings` or `main` field, the entry point of packages without `exports` */
+    main?: string;
+    /** The names of the packages it depends on, in any of its dependency fields */
+    dependencies: string[];
+}
+
+/**
+ * How a file of another package is imported through the package name
+ */
+export interface PackageSpecifier {
+    /** The package containing the imported file */
+    package: WorkspacePackage;
+    /** The specifier, e.g. `@acme/shared` or `@acme/shared/user`, or undefined if the package doesn't export the file */
+    specifier?: string;
+}
+
+/**
+ * An `exports` entry to add so a package exports a file
+ */
+export interface PackageExport {
+    /** The package to add the entry to */
+    package: WorkspacePackage;
+    /** The subpath consumers import, e.g. `./user` */
+    subpath: string;
+    /** The exported file relative to the package directory, e.g. `./src/user.ts` */
+    target: string;
+}
+
+/** The package.json fields listing the packages a package can import */
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/** Extensions an `exports` target may use for a source file, longest first so `.d.ts` wins over `.ts` */
+const ENTRY_POINT_EXTENSIONS = /\.(d\.ts|d\.mts|d\.cts|ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+
+/**
+ * Generates package-name specifiers for imports across the packages of a pnpm, yarn or npm
+ * workspace, based on the `name`, `exports` and `types` fields of each package.json.
+ *
+ * Another package is only imported through its name if the importing file can resolve it: the
+ * importing file's package lists it as a dependency, or it is installed in a `node_modules`
+ * directory above the importing file. Nested packages that aren't dependencies, such as `e2e/` or
+ * `functions/` folders with a package.json of their own, are imported like any other file.
+ *
+ * A file is importable through its package name if
+ * - an `exports` entry (or one of its conditions) points at it, including `*` patterns
+ * - it is the `types`, `typings` or `main` entry point of a package without `exports`
+ * - it is any file of a package without `exports`, which allows deep imports
+ *
+ * Entry points are compared without their extensions, so `./src/user.ts`, `./src/user.js` and
+ * `./src/user.d.ts` all export `src/user.ts`. Entries pointing at build output such as
+ * `./dist/user.js` can't be traced back to their source file and don't count.
+ *
+ * @example
+ * ```typescript
+ * // packages/shared/package.json: { "name": "@acme/shared", "exports": { ".": "./src/index.ts", "./user": "./src/user.ts" } }
+ * // packages/app/package.json: { "name": "@acme/app", "dependencies": { "@acme/shared": "workspace:*" } }
+ * const packageResolver = new PackageResolver();
+ * packageResolver.getPackageSpecifier('/repo/packages/app/src/app.ts', '/repo/packages/shared/src/user.ts');
+ * // Returns: { package: { name: '@acme/shared', ... }, specifier: '@acme/shared/user' }
+ * ```
+ */
+export class PackageResolver {
+    /** The nearest named package of each directory, or null if it isn't in one */
+    private packages = new Map<string, WorkspacePackage | null>();
+
+    /**
+     * Finds the specifier a file imports a file of another package with
+     * @param fromPath - Absolute path of the importing file
+     * @param toPath - Absolute path of the imported file
+     * @returns The target package and specifier, or undefined if the imported file isn't in a named
+     *          package, the importing file is inside that package, e.g. a monorepo's root package,
+     *          or the importing file can't resolve the package
+     */
+    public getPackageSpecifier(fromPath: string, toPath: string): PackageSpecifier | undefined {
+        const targetPackage = this.findPackage(toPath);
+        if (!targetPackage || !path.relative(targetPackage.directory, fromPath).startsWith('..')) {
+            return undefined;
+        }
+        if (!this.canResolvePackage(fromPath, targetPackage)) {
+            return undefined;
+        }
+
+        const subpath = this.findExportedSubpath(targetPackage, toPath);
+        return {
+            package: targetPackage,
+            specifier: subpath === undefined ? undefined : targetPackage.name + subpath.slice(1)
+        };
+    }
+
+    /**
+     * Finds the nearest package.json with a `name` in the directory of a file or one of its parents
+     * @param filePath - Absolute path of the file
+     */
+    public findPackage(filePath: string): WorkspacePackage | undefined {
+        return this.findPackageInDirectory(path.dirname(filePath)) || undefined;
+    }
+
+    /**
+     * Suggests the `exports` entry that makes a package export a file, named after the file's
+     * path inside the package without a leading `src/`, e.g. `./user` for `./src/user.ts`
+     * @param workspacePackage - The package to export the file from
+     * @param filePath - Absolute path of the file
+     */
+    public suggestExport(workspacePackage: WorkspacePackage, filePath: string): PackageExport {
+        const relativePath = path.relative(workspacePackage.directory, filePath).split(path.sep).join('/');
+        const subpath = relativePath
+            .replace(ENTRY_POINT_EXTENSIONS, '')
+            .replace(/^src\//, '')
+            .replace(/\/index$/, '');
+
+        return {
+            package: workspacePackage,
+            subpath: `./${subpath}`,
+            target: `./${relativePath}`
+        };
+    }
+
+    /**
+     * Adds an `exports` entry to a package, so later specifiers use it
+     * @param packageExport - The entry to add
+     * @param packageJsonText - The current text of the package.json
+     * @returns The new text of the package.json, keeping its indentation
+     */
+    public addExport(packageExport: PackageExport, packageJsonText: string): string {
+        const packageJson = JSON.parse(packageJsonText);
+        const exportsField = packageJson.exports;
+
+        if (typeof exportsField === 'string' || Array.isArray(exportsField) || this.isConditions(exportsField)) {
+            // A single entry point is the same as an object with only `.`
+            packageJson.exports = { '.': exportsField, [packageExport.subpath]: packageExport.target };
+        } else {
+            packageJson.exports = { ...exportsField, [packageExport.subpath]: packageExport.target };
+        }
+        packageExport.package.exports = packageJson.exports;
+
+        const indent = /^[ \t]+(?=")/m.exec(packageJsonText)?.[0] || '  ';
+        const trailingNewline = packageJsonText.endsWith('\n') ? '\n' : '';
+        return JSON.stringify(packageJson, null, indent) + trailingNewline;
+    }
+
+    /**
+     * Checks whether a file can import a package by its name: its own package depends on it, or a
+     * `node_modules` directory of its directory or a parent has it, e.g. hoisted by the package manager
+     */
+    private canResolvePackage(fromPath: string, targetPackage: WorkspacePackage): boolean {
+        if (this.findPackage(fromPath)?.dependencies.includes(targetPackage.name)) {
+            return true;
+        }
+
+        let directory = path.dirname(fromPath);
+        while (true) {
+            if (ts.sys.fileExists(path.join(directory, 'node_modules', targetPackage.name, 'package.json'))) {
+                return true;
+            }
+            const parent = path.dirname(directory);
+            if (parent === directory) {
+                return false;
+            }
+            directory = parent;
+        }
+    }
+
+    /**
+     * Finds the subpath of a package's `exports` that points at a file
+     * @returns The subpath, e.g. `.` or `./user`, or undefined if the package doesn't export the file
+     */
+    private findExportedSubpath(workspacePackage: WorkspacePackage, filePath: string): string | undefined {
+        const modulePath = filePath.replace(ENTRY_POINT_EXTENSIONS, '');
+
+        if (workspacePackage.exports === undefined) {
+            const main = workspacePackage.main && path.resolve(workspacePackage.directory, workspacePackage.main);
+            if (main && main.replace(ENTRY_POINT_EXTENSIONS, '') === modulePath) {
+                return '.';
+            }
+            // Without `exports` every file of the package can be imported
+            const relativePath = path.relative(workspacePackage.directory, modulePath).split(path.sep).join('/');
+            return `./${relativePath.replace(/\/index$/, '')}`;
+        }
+
+        const exportsField = workspacePackage.exports;
+        const entries: [string, unknown][] = typeof exportsField === 'string' || Array.isArray(exportsField) || this.isConditions(exportsField)
+            ? [['.', exportsField]]
+            : Object.entries(exportsField as Record<string, unknown>);
+
+        for (const [subpath, value] of entries) {
+            for (const target of this.getTargets(value)) {
+                const targetPath = path.resolve(workspacePackage.directory, target).replace(ENTRY_POINT_EXTENSIONS, '');
+                if (!subpath.includes('*')) {
+                    if (targetPath === modulePath) {
+                        return subpath;
+                    }
+                    continue;
+                }
+
+                // `"./*": "./src/*.ts"` exports every file matching the target pattern
+                const [prefix, suffix] = targetPath.split('*');
+                if (suffix === undefined || !modulePath.startsWith(prefix) || !modulePath.endsWith(suffix)) continue;
+                const captured = modulePath.slice(prefix.length, modulePath.length - suffix.length);
+                if (captured) {
+                    return subpath.replace('*', captured);
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Lists the file targets of an `exports` value, through conditions such as `types` and
+     * `import` and fallback arrays. Excluded subpaths (`null`) have none.
+     */
+    private getTargets(value: unknown): string[] {
+        if (typeof value === 'string') {
+            return [value];
+        }
+        if (Array.isArray(value)) {
+            return value.flatMap(item => this.getTargets(item));
+        }
+        if (value && typeof value === 'object') {
+            return Object.values(value).flatMap(item => this.getTargets(item));
+        }
+        return [];
+    }
+
+    /**
+     * Checks whether an `exports` object maps conditions rather than subpaths,
+     * e.g. `{ "types": "./src/index.ts", "default": "./dist/index.js" }`
+     */
+    private isConditions(exportsField: unknown): boolean {
+        return !!exportsField && typeof exportsField === 'object' &&
+            Object.keys(exportsField).some(key => !key.startsWith('.'));
+    }
+
+    /**
+     * Finds the nearest named package of a directory, once per directory
+     */
+    private findPackageInDirectory(directory: string): WorkspacePackage | null {
+        const cached = this.packages.get(directory);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let workspacePackage: WorkspacePackage | null = null;
+        const packageJsonPath = path.join(directory, 'package.json');
+        const packageJson = this.readPackageJson(packageJsonPath);
+        if (packageJson && typeof packageJson.name === 'string') {
+            workspacePackage = {
+                name: packageJson.name,
+                directory,
+                packageJsonPath,
+                exports: packageJson.exports ?? undefined,
+                main: packageJson.types || packageJson.typings || packageJson.main,
+                dependencies: DEPENDENCY_FIELDS.flatMap(field => Object.keys(packageJson[field] || {}))
+            };
+        } else {
+            const parent = path.dirname(directory);
+            if (parent !== directory && path.basename(directory) !== 'node_modules') {
+                workspacePackage = this.findPackageInDirectory(parent);
+            }
+        }
+
+        this.packages.set(directory, workspacePackage);
+        return workspacePackage;
+    }
+
+    /**
+     * Reads and parses a package.json
+     * @returns The parsed content, or undefined if the file doesn't exist or isn't valid JSON
+     */
+    private readPackageJson(packageJsonPath: string): Record<string, any> | undefined {
+        if (!ts.sys.fileExists(packageJsonPath)) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(ts.sys.readFile(packageJsonPath) || '');
+        } catch (error) {
+            console.log('[PackageResolver] Error reading package.json:', packageJsonPath, error);
+            return undefined;
+        }
+    }
+}
@@ -2,6 +2,27 @@ import * as path from 'path';
 import * as ts from 'typescript';
 import * as vscode from 'vscode';
 
+/**
+ * How relative and aliased import paths spell the imported file
+ * - `none`: no extension, and `index` files are imported through their folder (`./models`)
+ * - `js`: the extension of the emitted JavaScript file (`./models/index.js`), as required by
+ *   `moduleResolution: node16/nodenext`
+ * - `ts`: the file's own extension (`./models/index.ts`), as allowed by `allowImportingTsExtensions`
+ */
+export type ExtensionStyle = 'none' | 'js' | 'ts';
+
+/** Extensions of the modules an import path can refer to, including declaration files */
+const MODULE_EXTENSION = /(\.d)?\.(ts|tsx|mts|cts)$|\.(js|jsx|mjs|cjs|vue)$/;
+
+/**
+ * A path alias with its targets resolved to absolute paths. Targets contain at most one `*`,
+ * which captures the part of the path the alias' own `*` stands for.
+ */
+interface PathAlias {
+    pattern: string;
+    targets: string[];
+}
+
 /**
  * Handles TypeScript path resolution and alias mapping based on tsconfig.json configuration.
  * This class is responsible for:
@@ -31,51 +52,112 @@ import * as vscode from 'vscode';
  * ```
  */
 export class PathResolver {
-    /** Base URL for resolving non-relative module names, from tsconfig.json */
-    private baseUrl: string | undefined;
-    
-    /** Path mapping configuration from tsconfig.json */
+    /** Path mapping configuration from tsconfig.json, including configs it extends */
     private paths: { [key: string]: string[] } | undefined;
-    
-    /** Directory containing the tsconfig.json file */
-    private configDir: string | undefined;
+
+    /** Path aliases from tsconfig.json, with targets resolved to absolute paths */
+    private tsconfigAliases: PathAlias[] = [];
+
+    /** Path aliases from the `typeMover.pathAliases` setting, with targets resolved to absolute paths */
+    private settingsAliases: PathAlias[] = [];
+
+    /** Compiler options from tsconfig.json, used to pick the extension style of import paths */
+    private compilerOptions: ts.CompilerOptions = {};
 
     /**
      * Creates a new PathResolver instance and loads TypeScript configuration.
      * 
      * @param workspaceRoot - The root directory of the workspace, used to locate tsconfig.json
+     * @param configPath - The tsconfig.json to use instead of the one configured for the workspace,
+     *                     e.g. the nearest config of a package in a monorepo
      * @example
      * ```typescript
      * const resolver = new PathResolver('/path/to/project');
+     * const packageResolver = new PathResolver('/path/to/project', '/path/to/project/packages/api/tsconfig.json');
+     * ```
+     */
+    constructor(workspaceRoot: string, configPath?: string) {
+        this.loadTsConfig(workspaceRoot, configPath);
+        this.loadSettingsAliases(workspaceRoot);
+    }
+
+    /**
+     * Loads the extra path aliases from the `typeMover.pathAliases` setting. They use the same
+     * format as tsconfig `paths`, with targets relative to the workspace root, and a single
+     * target may be given as a string.
+     *
+     * @example
+     * ```json
+     * {
+     *   "typeMover.pathAliases": {
+     *     "@models/*": "src/models/*",
+     *     "@shared/*": ["packages/shared/src/*"]
+     *   }
+     * }
      * ```
+     *
+     * @param workspaceRoot - The root directory of the workspace
+     * @internal
+     */
+    private loadSettingsAliases(workspaceRoot: string) {
+        if (!workspaceRoot) {
+            return;
+        }
+
+        const aliases = vscode.workspace.getConfiguration('typeMover', vscode.Uri.file(workspaceRoot)).get<unknown>('pathAliases');
+        if (!aliases || typeof aliases !== 'object' || Array.isArray(aliases)) {
+            return;
+        }
+
+        this.settingsAliases = this.resolveAliases(aliases as Record<string, unknown>, workspaceRoot);
+    }
+
+    /**
+     * Resolves the targets of `paths` entries to absolute paths, skipping invalid entries
+     * @param paths - The path mapping, each pattern with one target or a list of targets
+     * @param basePath - The directory targets are relative to
+     * @internal
      */
-    constructor(workspaceRoot: string) {
-        this.loadTsConfig(workspaceRoot);
+    private resolveAliases(paths: Record<string, unknown>, basePath: string): PathAlias[] {
+        const aliases: PathAlias[] = [];
+        for (const [pattern, targets] of Object.entries(paths)) {
+            const validTargets = (Array.isArray(targets) ? targets : [targets])
+                .filter((target): target is string => typeof target === 'string');
+            if (validTargets.length === 0) {
+                console.log('[PathResolver] Ignoring invalid path alias:', pattern);
+                continue;
+            }
+            aliases.push({ pattern, targets: validTargets.map(target => path.resolve(basePath, target)) });
+        }
+        return aliases;
     }
 
     /**
      * Loads and parses the TypeScript configuration from tsconfig.json.
      * The configuration is searched for in the following order:
-     * 1. Path specified in VSCode settings (typeRefactor.tsconfig)
-     * 2. Default tsconfig.json in the workspace root
+     * 1. The config path passed to the constructor
+     * 2. Path specified in VSCode settings (typeRefactor.tsconfig)
+     * 3. Default tsconfig.json in the workspace root
      * 
      * @param workspaceRoot - The root directory of the workspace
+     * @param explicitConfigPath - The config path passed to the constructor
      * @internal
      */
-    private loadTsConfig(workspaceRoot: string) {
+    private loadTsConfig(workspaceRoot: string, explicitConfigPath?: string) {
         if (!workspaceRoot) {
             console.log('[PathResolver] No workspace root provided');
             return;
         }
 
         // First try to get config path from settings
-        const config = vscode.workspace.getConfiguration('typeRefactor');
+        const config = vscode.workspace.getConfiguration('typeRefactor', vscode.Uri.file(workspaceRoot));
         const configRelativePath = config.get<string>('tsconfig');
         
         // Find the config file - either from settings or default location
-        const configPath = configRelativePath 
-            ? path.join(workspaceRoot, configRelativePath)
-            : ts.findConfigFile(workspaceRoot, ts.sys.fileExists, 'tsconfig.json');
+        const configPath = explicitConfigPath
+            || (configRelativePath
+                ? path.join(workspaceRoot, configRelativePath)
+                : ts.findConfigFile(workspaceRoot, ts.sys.fileExists, 'tsconfig.json'));
 
         if (!configPath || !ts.sys.fileExists(configPath)) {
             console.log('[PathResolver] No tsconfig.json found');
@@ -89,12 +171,21 @@ export class PathResolver {
                 return;
             }
 
-            // Store the directory containing tsconfig.json
-            this.configDir = path.dirname(configPath);
-            
-            // Set baseUrl and paths from the raw config
-            this.baseUrl = configFile.config.compilerOptions?.baseUrl || '.';
-            this.paths = configFile.config.compilerOptions?.paths;
+            // Parsing follows `extends` chains, so paths from a shared base config are included
+            const configDir = path.dirname(configPath);
+            const parsedConfig = ts.parseJsonConfigFileContent(configFile.config, ts.sys, configDir, undefined, configPath);
+            const options = parsedConfig.options as ts.CompilerOptions & { pathsBasePath?: string };
+            this.compilerOptions = options;
+            if (!options.paths) {
+                return;
+            }
+
+            // Without baseUrl, paths are relative to the config file that declares them
+            const pathsBase = options.baseUrl
+                ? path.resolve(configDir, options.baseUrl)
+                : options.pathsBasePath || configDir;
+            this.paths = options.paths;
+            this.tsconfigAliases = this.resolveAliases(options.paths, pathsBase);
         } catch (error) {
             console.log('[PathResolver] Error parsing tsconfig:', error);
         }
@@ -104,8 +195,10 @@ export class PathResolver {
      * Attempts to convert an absolute file path to its corresponding TypeScript path alias.
      * This is useful when refactoring imports to use path aliases instead of relative paths.
      * 
-     * The function uses the paths configuration from tsconfig.json to map file system paths
-     * to their corresponding import aliases.
+     * The function uses the paths configuration from tsconfig.json, including the configs it
+     * extends, to map file system paths to their corresponding import aliases. Every target of
+     * an alias is considered, wildcards may appear anywhere in a pattern (`@app/*\/types`), and
+     * when several aliases match, the most specific one is used.
      * 
      * @example
      * Given tsconfig.json:
@@ -135,53 +228,282 @@ export class PathResolver {
      * // Returns: undefined
      * ```
      * 
+     * Aliases from the `typeMover.pathAliases` setting take precedence over tsconfig.json, so they
+     * can override how a folder is imported without changing the project's configuration.
+     * 
      * @param absoluteFilePath - The absolute path to the file in the file system
-     * @returns The matched path alias without file extension, or undefined if no alias matches
+     * @param extensionStyle - How the path spells the file, defaults to the project's style
+     * @returns The matched path alias, or undefined if no alias matches
      * @throws Will not throw, returns undefined for any error cases
      */
-    public tryMatchPathAlias(absoluteFilePath: string): string | undefined {
-        if (!this.paths || !this.baseUrl || !this.configDir) {
-            console.log('[PathResolver] No paths, baseUrl or configDir configured');
-            return undefined;
-        }
-
-        // Resolve baseUrl relative to tsconfig.json location
-        const absoluteBaseUrl = path.resolve(this.configDir, this.baseUrl);
+    public tryMatchPathAlias(
+        absoluteFilePath: string,
+        extensionStyle: ExtensionStyle = this.getExtensionStyle()
+    ): string | undefined {
+        return this.findMostSpecificAlias(this.settingsAliases, absoluteFilePath, extensionStyle)
+            ?? this.findMostSpecificAlias(this.tsconfigAliases, absoluteFilePath, extensionStyle);
+    }
 
-        // Get path relative to baseUrl
-        const filePathFromBaseUrl = path.relative(absoluteBaseUrl, absoluteFilePath);
+    /**
+     * Finds the alias import path of a file among a set of aliases. Every target of every alias is
+     * tried, and the most specific match wins: an exact alias naming the file, otherwise the alias
+     * whose wildcard captures the shortest part of the path.
+     *
+     * @example
+     * ```typescript
+     * // With paths { "@/*": ["src/*"], "@app/*\/types": ["src/app/*\/types"] }
+     * findMostSpecificAlias(aliases, '/project/src/app/users/types.ts')
+     * // Returns: '@app/users/types' rather than '@/app/users/types'
+     * ```
+     *
+     * @param aliases - The aliases to match
+     * @param absoluteFilePath - The absolute path to the file
+     * @param extensionStyle - How wildcard matches spell the file. Exact aliases are used as-is.
+     * @returns The import path, or undefined if no alias matches
+     * @internal
+     */
+    private findMostSpecificAlias(
+        aliases: PathAlias[],
+        absoluteFilePath: string,
+        extensionStyle: ExtensionStyle
+    ): string | undefined {
+        const withoutExtension = absoluteFilePath.replace(MODULE_EXTENSION, '');
+        let best: { importPath: string; capturedLength: number; prefix: string } | undefined;
 
-        for (const [aliasPattern, aliasTargets] of Object.entries(this.paths)) {
-            // Handle path alias patterns (e.g., @/*)
-            const aliasPrefix = aliasPattern.replace(/\*$/, '');
-            const aliasTargetPath = aliasTargets[0].replace(/\*$/, ''); // Use first target
+        for (const { pattern, targets } of aliases) {
+            for (const target of targets) {
+                const wildcardIndex = target.indexOf('*');
+                if (wildcardIndex === -1) {
+                    // Exact aliases name a single file, e.g. `"@config": ["src/config.ts"]`
+                    if (!pattern.includes('*') && target.replace(MODULE_EXTENSION, '') === withoutExtension) {
+                        return pattern;
+                    }
+                    continue;
+                }
 
-            // Resolve target directory relative to tsconfig location
-            const absoluteAliasPath = path.resolve(absoluteBaseUrl, aliasTargetPath);
+                const prefix = target.slice(0, wildcardIndex);
+                const suffix = target.slice(wildcardIndex + 1);
+                // Targets may spell out the extension, e.g. `src/*.ts`
+                for (const candidate of [withoutExtension, absoluteFilePath]) {
+                    if (candidate.length < prefix.length + suffix.length) continue;
+                    if (!candidate.startsWith(prefix) || !candidate.endsWith(suffix)) continue;
 
-            if (absoluteFilePath.startsWith(absoluteAliasPath)) {
-                const relativeToAlias = path.relative(absoluteAliasPath, absoluteFilePath);
-                const importPath = `${aliasPrefix}${relativeToAlias}`.replace(/\.(ts|tsx|vue)$/, '');
-                return importPath;
+                    const captured = candidate.slice(prefix.length, candidate.length - suffix.length);
+                    if (!best || captured.length < best.capturedLength) {
+                        best = {
+                            importPath: pattern.replace('*', captured.split(path.sep).join('/')),
+                            capturedLength: captured.length,
+                            prefix: pattern.slice(0, pattern.indexOf('*'))
+                        };
+                    }
+                    break;
+                }
             }
         }
 
-        return undefined;
+        return best && this.formatImportPath(best.importPath, absoluteFilePath, extensionStyle, best.prefix);
     }
 
-    public resolveImportPath(fromPath: string, toPath: string): string {
+    /**
+     * Resolves the path one file imports another with: the path alias if one matches,
+     * otherwise the relative path.
+     *
+     * @example
+     * ```typescript
+     * // With `moduleResolution: nodenext`
+     * pathResolver.resolveImportPath('/project/src/app.ts', '/project/src/models/index.ts')
+     * // Returns: './models/index.js'
+     * ```
+     *
+     * @param fromPath - Absolute path of the importing file
+     * @param toPath - Absolute path of the imported file
+     * @param extensionStyle - How the path spells the file, defaults to the project's style
+     */
+    public resolveImportPath(
+        fromPath: string,
+        toPath: string,
+        extensionStyle: ExtensionStyle = this.getExtensionStyle()
+    ): string {
         // First try to resolve using path alias
-        const aliasPath = this.tryMatchPathAlias(toPath);
+        const aliasPath = this.tryMatchPathAlias(toPath, extensionStyle);
         if (aliasPath) {
             return aliasPath;
         }
 
         // Fall back to relative path if no alias matches
-        let relativePath = path.relative(path.dirname(fromPath), toPath);
+        let relativePath = path.relative(path.dirname(fromPath), toPath.replace(MODULE_EXTENSION, ''))
+            .split(path.sep).join('/');
         if (!relativePath.startsWith('.')) {
             relativePath = './' + relativePath;
         }
-        return relativePath;
+        return this.formatImportPath(relativePath, toPath, extensionStyle);
+    }
+
+    /**
+     * Determines how import paths written in a file spell the imported file. Files follow the
+     * style of their existing relative imports, so a file importing `./user.js` keeps doing so.
+     * Files without relative imports use the project's style:
+     * - `ts` with `allowImportingTsExtensions`
+     * - `js` with `moduleResolution` (or `module`) `node16` or `nodenext`, which require extensions
+     * - `none` otherwise
+     *
+     * @param sourceFile - The importing file, if it exists
+     */
+    public getExtensionStyle(sourceFile?: ts.SourceFile): ExtensionStyle {
+        const counts: Record<ExtensionStyle, number> = { none: 0, js: 0, ts: 0 };
+        for (const statement of sourceFile?.statements || []) {
+            if (!ts.isImportDeclaration(statement) && !ts.isExportDeclaration(statement)) continue;
+            const moduleSpecifier = statement.moduleSpecifier;
+            if (!moduleSpecifier || !ts.isStringLiteral(moduleSpecifier) || !moduleSpecifier.text.startsWith('.')) continue;
+
+            const specifier = moduleSpecifier.text;
+            if (/\.(js|jsx|mjs|cjs)$/.test(specifier)) {
+                counts.js++;
+            } else if (/\.(ts|tsx|mts|cts)$/.test(specifier)) {
+                counts.ts++;
+            } else if (!/\.\w+$/.test(specifier.replace(/^[./]+/, ''))) {
+                // Other extensions, e.g. `.vue` or `.css`, are spelled out in every style
+                counts.none++;
+            }
+        }
+
+        const styles = (Object.keys(counts) as ExtensionStyle[]).filter(style => counts[style] > 0)
+            .sort((a, b) => counts[b] - counts[a]);
+        if (styles.length > 0 && (styles.length === 1 || counts[styles[0]] > counts[styles[1]])) {
+            return styles[0];
+        }
+        return this.getProjectExtensionStyle();
+    }
+
+    /**
+     * Determines the extension style the project's compiler options require
+     * @internal
+     */
+    private getProjectExtensionStyle(): ExtensionStyle {
+        const { module, moduleResolution, allowImportingTsExtensions } = this.compilerOptions;
+        if (allowImportingTsExtensions) {
+            return 'ts';
+        }
+
+        const isNodeResolution = moduleResolution !== undefined
+            ? moduleResolution === ts.ModuleResolutionKind.Node16 || moduleResolution === ts.ModuleResolutionKind.NodeNext
+            : module !== undefined && (module === ts.ModuleKind.Node16 || module === ts.ModuleKind.NodeNext);
+        return isNodeResolution ? 'js' : 'none';
+    }
+
+    /**
+     * Spells an import path without extension in the given extension style. Vue files always
+     * keep their `.vue` extension. Folder imports of `index` files are only used without
+     * extensions, and only if no file next to the folder shares its name, which would be
+     * imported instead.
+     *
+     * @param importPath - The import path without extension, e.g. `./models/index` or `@/models/index`
+     * @param targetPath - Absolute path of the imported file
+     * @param extensionStyle - The extension style to use
+     * @param aliasPrefix - The part of the alias before its wildcard, which the path must keep
+     * @internal
+     */
+    private formatImportPath(
+        importPath: string,
+        targetPath: string,
+        extensionStyle: ExtensionStyle,
+        aliasPrefix: string = ''
+    ): string {
+        const extension = /(\.d)?\.\w+$/.exec(targetPath)?.[0] || '';
+        if (extension === '.vue') {
+            return importPath + extension;
+        }
+
+        if (extensionStyle === 'none') {
+            const folderPath = importPath.replace(/\/index$/, '');
+            if (folderPath === importPath || !folderPath.startsWith(aliasPrefix) || folderPath.length <= aliasPrefix.length) {
+                return importPath;
+            }
+            const folder = path.dirname(targetPath);
+            const isShadowed = ['.ts', '.tsx', '.d.ts', '.js'].some(ext => ts.sys.fileExists(folder + ext));
+            return isShadowed ? importPath : folderPath;
+        }
+
+        // Declaration files can't be imported with their own extension, only through their JavaScript file
+        if (extensionStyle === 'ts' && !extension.startsWith('.d.')) {
+            return importPath + extension;
+        }
+        const jsExtensions: Record<string, string> = {
+            '.tsx': this.compilerOptions.jsx === ts.JsxEmit.Preserve ? '.jsx' : '.js',
+            '.mts': '.mjs',
+            '.cts': '.cjs',
+            '.d.mts': '.mjs',
+            '.d.cts': '.cjs',
+            '.jsx': '.jsx',
+            '.mjs': '.mjs',
+            '.cjs': '.cjs'
+        };
+        return importPath + (jsExtensions[extension] || '.js');
+    }
+
+    /**
+     * Checks whether an import path written in one file refers to another file.
+     * Relative paths may omit the extension or point at a folder's `index` file, aliases
+     * are resolved through every alias whose pattern matches, not only the most specific one.
+     *
+     * @example
+     * ```typescript
+     * pathResolver.isImportPathFor('./models', '/project/src/app.ts', '/project/src/models/index.ts')
+     * // Returns: true
+     * // With paths { "@/*": ["src/*"], "@models/*": ["src/models/*"] }, both of these return true
+     * pathResolver.isImportPathFor('@models/user', '/project/src/app.ts', '/project/src/models/user.ts')
+     * pathResolver.isImportPathFor('@/models/user', '/project/src/app.ts', '/project/src/models/user.ts')
+     * ```
+     *
+     * @param importPath - The module specifier, relative or a path alias
+     * @param fromPath - Absolute path of the file containing the import
+     * @param targetPath - Absolute path of the file the import may refer to
+     */
+    public isImportPathFor(importPath: string, fromPath: string, targetPath: string): boolean {
+        const targetWithoutExtension = path.normalize(targetPath).replace(MODULE_EXTENSION, '');
+        const refersToTarget = (resolvedPath: string) => {
+            const withoutExtension = path.normalize(resolvedPath).replace(MODULE_EXTENSION, '');
+            return withoutExtension === targetWithoutExtension || path.join(withoutExtension, 'index') === targetWithoutExtension;
+        };
+
+        if (!importPath.startsWith('.')) {
+            return this.resolveAliasPaths(importPath).some(refersToTarget);
+        }
+        return refersToTarget(path.resolve(path.dirname(fromPath), importPath));
+    }
+
+    /**
+     * Lists the absolute paths an aliased import path may refer to, through every target of every
+     * alias whose pattern matches it. Paths of settings aliases come first.
+     *
+     * @example
+     * ```typescript
+     * // With paths { "@/*": ["src/*"], "@models/*": ["src/models/*", "generated/models/*"] }
+     * resolveAliasPaths('@models/user')
+     * // Returns: ['/project/src/models/user', '/project/generated/models/user']
+     * ```
+     *
+     * @param importPath - The module specifier, e.g. `@models/user`
+     * @returns The paths, as written in the targets, or an empty array for packages and unknown aliases
+     * @internal
+     */
+    private resolveAliasPaths(importPath: string): string[] {
+        const resolvedPaths: string[] = [];
+        for (const { pattern, targets } of [...this.settingsAliases, ...this.tsconfigAliases]) {
+            const wildcardIndex = pattern.indexOf('*');
+            let captured = '';
+            if (wildcardIndex === -1) {
+                if (importPath !== pattern) continue;
+            } else {
+                const prefix = pattern.slice(0, wildcardIndex);
+                const suffix = pattern.slice(wildcardIndex + 1);
+                if (importPath.length < prefix.length + suffix.length) continue;
+                if (!importPath.startsWith(prefix) || !importPath.endsWith(suffix)) continue;
+                captured = importPath.slice(prefix.length, importPath.length - suffix.length);
+            }
+            resolvedPaths.push(...targets.map(target => target.replace('*', captured)));
+        }
+        return resolvedPaths;
     }
 
     public shouldPreserveImportType(importPath: string, fromPath: string): boolean {
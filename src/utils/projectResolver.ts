@@ -0,0 +1,179 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import * as vscode from 'vscode';
+import { PathResolver } from './pathResolver';
+
+/**
+ * What a tsconfig.json contributes to finding a file's project
+ */
+interface ParsedProject {
+    /** Absolute paths of the files the config includes */
+    fileNames: Set<string>;
+    /** The config's project references */
+    references: readonly ts.ProjectReference[];
+    /** The config's compiler options, including those of configs it extends */
+    options: ts.CompilerOptions;
+}
+
+/**
+ * Finds the TypeScript project a file belongs to and provides the `PathResolver` for it, so
+ * every file's imports are computed with its own project's `paths` in monorepos and multi-root
+ * workspaces.
+ *
+ * A file's project is determined as follows:
+ * 1. The config set in `typeRefactor.tsconfig` for the file's workspace folder, if set explicitly
+ * 2. The nearest tsconfig.json in the file's directory or one of its parents
+ * 3. If that config is solution-style, the config among its `references` that includes the file
+ *
+ * Resolvers are cached per config file, so files of the same project share one resolver.
+ *
+ * @example
+ * ```typescript
+ * // Workspace with packages/api/tsconfig.json and packages/web/tsconfig.json
+ * const projectResolver = new ProjectResolver();
+ * projectResolver.getPathResolver('/repo/packages/web/src/app.ts');
+ * // Returns the resolver for packages/web/tsconfig.json
+ * ```
+ */
+export class ProjectResolver {
+    /** Resolvers per config file path, or per workspace root for files without a config */
+    private resolvers = new Map<string, PathResolver>();
+
+    /** The files and references of each parsed config, or null if it couldn't be read */
+    private parsedConfigs = new Map<string, ParsedProject | null>();
+
+    /**
+     * Returns the path resolver for the project a file belongs to
+     * @param filePath - Absolute path of the file
+     */
+    public getPathResolver(filePath: string): PathResolver {
+        const workspaceRoot = this.getWorkspaceRoot(filePath);
+        const configPath = this.findConfigFile(filePath, workspaceRoot);
+
+        const key = configPath || workspaceRoot;
+        let resolver = this.resolvers.get(key);
+        if (!resolver) {
+            resolver = new PathResolver(workspaceRoot, configPath);
+            this.resolvers.set(key, resolver);
+        }
+        return resolver;
+    }
+
+    /**
+     * Returns the tsconfig.json of the project a file belongs to
+     * @param filePath - Absolute path of the file
+     * @returns The config's path, or undefined if the file isn't part of a project
+     */
+    public getConfigPath(filePath: string): string | undefined {
+        return this.findConfigFile(filePath, this.getWorkspaceRoot(filePath));
+    }
+
+    /**
+     * Returns the compiler options of a project
+     * @param configPath - The project's tsconfig.json, or undefined for files outside any project
+     * @returns The options, or none if the config is missing or can't be read
+     */
+    public getCompilerOptions(configPath: string | undefined): ts.CompilerOptions {
+        return (configPath && this.parseConfig(configPath)?.options) || {};
+    }
+
+    /**
+     * Returns the root directory of a file's workspace folder, or of the first one for files outside the workspace
+     */
+    private getWorkspaceRoot(filePath: string): string {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        return workspaceFolder?.uri.fsPath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+    }
+
+    /**
+     * Finds the tsconfig.json of the project a file belongs to
+     * @param filePath - Absolute path of the file
+     * @param workspaceRoot - The root directory of the file's workspace folder
+     * @returns The config's path, or undefined if the file isn't part of a project
+     */
+    private findConfigFile(filePath: string, workspaceRoot: string): string | undefined {
+        if (workspaceRoot) {
+            const setting = vscode.workspace
+                .getConfiguration('typeRefactor', vscode.Uri.file(workspaceRoot))
+                .inspect<string>('tsconfig');
+            const configuredPath = setting?.workspaceFolderValue ?? setting?.workspaceValue ?? setting?.globalValue;
+            if (configuredPath) {
+                return path.join(workspaceRoot, configuredPath);
+            }
+        }
+
+        const nearestConfig = ts.findConfigFile(path.dirname(filePath), ts.sys.fileExists, 'tsconfig.json');
+        if (!nearestConfig) {
+            return undefined;
+        }
+        return this.findReferencedConfig(nearestConfig, filePath, new Set()) || nearestConfig;
+    }
+
+    /**
+     * Follows the `references` of a config to the project that includes a file. A solution-style
+     * config includes no files itself and only lists the projects of the repository.
+     * @param configPath - The config to start from
+     * @param filePath - Absolute path of the file
+     * @param visited - Configs already checked, to stop at circular references
+     * @returns The config including the file, or undefined if none does
+     */
+    private findReferencedConfig(configPath: string, filePath: string, visited: Set<string>): string | undefined {
+        if (visited.has(configPath)) {
+            return undefined;
+        }
+        visited.add(configPath);
+
+        const project = this.parseConfig(configPath);
+        if (!project) {
+            return undefined;
+        }
+        if (project.fileNames.has(path.normalize(filePath))) {
+            return configPath;
+        }
+
+        for (const reference of project.references) {
+            // References may name a config file or the directory containing one
+            const referencedConfig = reference.path.endsWith('.json')
+                ? reference.path
+                : path.join(reference.path, 'tsconfig.json');
+            const match = this.findReferencedConfig(path.normalize(referencedConfig), filePath, visited);
+            if (match) {
+                return match;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Parses a config, once per config file
+     * @returns The files the config includes and its references, or undefined if it can't be read
+     */
+    private parseConfig(configPath: string): ParsedProject | undefined {
+        const cached = this.parsedConfigs.get(configPath);
+        if (cached !== undefined) {
+            return cached || undefined;
+        }
+
+        let project: ParsedProject | null = null;
+        const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+        if (configFile.error) {
+            console.log('[ProjectResolver] Error reading tsconfig:', configPath);
+        } else {
+            const parsedConfig = ts.parseJsonConfigFileContent(
+                configFile.config,
+                ts.sys,
+                path.dirname(configPath),
+                undefined,
+                configPath
+            );
+            project = {
+                fileNames: new Set(parsedConfig.fileNames.map(fileName => path.normalize(fileName))),
+                references: parsedConfig.projectReferences || [],
+                options: parsedConfig.options
+            };
+        }
+
+        this.parsedConfigs.set(configPath, project);
+        return project || undefined;
+    }
+}
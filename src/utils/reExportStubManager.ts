@@ -0,0 +1,316 @@
+import * as vscode from 'vscode';
+import * as ts from 'typescript';
+import * as path from 'path';
+import { FileManager } from './fileManager';
+import { ImportFormatter } from './importFormatter';
+import { ProjectResolver } from './projectResolver';
+import { ScriptParser } from './scriptParser';
+import { TypeAnalyzer } from './typeAnalyzer';
+import { WorkspaceScanner } from './workspaceScanner';
+
+/**
+ * What a move leaves in the source file, from the `typeMover.reExportStub` setting
+ * - `off`: nothing, consumers the extension can't update break
+ * - `reExport`: a re-export of the moved declarations from the destination
+ * - `deprecated`: the same re-export, marked `@deprecated` so consumers see it should be replaced
+ */
+export type ReExportStubMode = 'off' | 'reExport' | 'deprecated';
+
+/**
+ * Matches the JSDoc marking an `export ... from` as a re-export stub left behind by a move,
+ * `/** Moved to './models/user' *\/` or `/** @deprecated Moved to './models/user' *\/`
+ */
+export const RE_EXPORT_STUB_COMMENT = /^\/\*\*\s*(@deprecated\s+)?Moved to\b/;
+
+/** Matches specifiers of a file's own or a parent folder, e.g. `'.'` or `'../..'` */
+const PARENT_SPECIFIER = /(['"])\.\.?(\/\.\.)*\/?\1/;
+
+/**
+ * A re-export stub found in the workspace
+ */
+export interface ReExportStub {
+    uri: vscode.Uri;
+    /** The stub's `export ... from` declaration */
+    node: ts.ExportDeclaration;
+    /** Offset of the stub's marker JSDoc, where the stub starts */
+    start: number;
+    /** The specifiers no workspace file imports through the stub anymore, e.g. `User` or `default` */
+    unusedNames: string[];
+    /**
+     * Files using the stub's file as a whole, which keeps every name: one with a namespace import
+     * used other than through its members, or a barrel with `export *` of the file used that way
+     */
+    wholeModuleUsers: vscode.Uri[];
+}
+
+/**
+ * How the workspace uses a module
+ */
+interface ModuleUsage {
+    /** The exported names files import or re-export from it */
+    names: Set<string>;
+    /** Paths of the files using it as a whole */
+    wholeModuleUsers: Set<string>;
+    /** Paths of the barrels re-exporting it with `export *`, whose consumers use its names as well */
+    barrels: Set<string>;
+}
+
+/**
+ * Finds the re-export stubs that moves leave in their source files, and removes them once the
+ * workspace no longer imports the moved declarations through them.
+ *
+ * A stub is an `export ... from` statement marked with a `Moved to` JSDoc. A name it re-exports
+ * is still used if any workspace file imports or re-exports it from the stub's file by name, uses
+ * it through a namespace import as `Types.User`, or in an inline `import('./types').User` type.
+ * Barrels re-exporting the file with `export *` are followed to the names their own consumers
+ * import. A namespace used as a whole, e.g. passed to a function, uses every name, and so does a
+ * barrel's. Consumers outside the workspace can't be checked, which is what deprecating the stub
+ * is for.
+ *
+ * @example
+ * ```typescript
+ * // /src/types.ts after moving User with the `deprecated` stub mode:
+ * // /** @deprecated Moved to './models/user' *\/
+ * // export type { User } from './models/user';
+ * const stubManager = new ReExportStubManager();
+ * const stubs = await stubManager.findStubs();
+ * // Once no workspace file imports User from './types' anymore:
+ * // [{ uri: '/src/types.ts', unusedNames: ['User'], ... }]
+ * await stubManager.addRemovalEdits(stubs, edit);
+ * ```
+ */
+export class ReExportStubManager {
+    private projectResolver = new ProjectResolver();
+    private scriptParser = new ScriptParser();
+    private typeAnalyzer = new TypeAnalyzer();
+    private workspaceScanner = new WorkspaceScanner();
+    private importFormatter = new ImportFormatter();
+    private fileManager = new FileManager();
+
+    /**
+     * Finds every re-export stub of the workspace, outside of ignored folders, along with the
+     * names the workspace doesn't import through it anymore
+     */
+    public async findStubs(): Promise<ReExportStub[]> {
+        const files = await this.workspaceScanner.findFiles('**/*.{ts,tsx,vue}');
+        const texts = new Map<string, string>();
+        const stubs: ReExportStub[] = [];
+
+        for (const uri of files) {
+            const text = await this.workspaceScanner.readFile(uri);
+            texts.set(uri.fsPath, text);
+            if (!text.includes('Moved to')) continue;
+
+            const sourceFile = this.scriptParser.parse(uri.fsPath, text);
+            for (const statement of sourceFile.statements) {
+                const start = this.getStubStart(statement);
+                if (start === undefined) continue;
+                stubs.push({ uri, node: statement as ts.ExportDeclaration, start, unusedNames: [], wholeModuleUsers: [] });
+            }
+        }
+        if (stubs.length === 0) return [];
+
+        const stubPaths = [...new Set(stubs.map(stub => stub.uri.fsPath))];
+        const usages = this.findUsages(texts, stubPaths);
+        for (const stub of stubs) {
+            const { names, wholeModuleUsers } = this.resolveUsage(usages, stub.uri.fsPath);
+            stub.wholeModuleUsers = files.filter(uri => wholeModuleUsers.has(uri.fsPath));
+            stub.unusedNames = wholeModuleUsers.size > 0
+                ? []
+                : this.getExportedNames(stub.node).filter(name => !names.has(name));
+        }
+        return stubs;
+    }
+
+    /**
+     * Records the removal of the unused names of stubs. Stubs without any used name are deleted
+     * along with their JSDoc, the others only lose the unused specifiers.
+     * @param stubs - The stubs, as found by `findStubs`
+     * @param edit - The workspace edit to record the removals in
+     * @param metadata - Optional metadata describing the edits in the refactor preview
+     */
+    public async addRemovalEdits(
+        stubs: ReExportStub[],
+        edit: vscode.WorkspaceEdit,
+        metadata?: vscode.WorkspaceEditEntryMetadata
+    ): Promise<void> {
+        const stubsByFile = new Map<string, ReExportStub[]>();
+        for (const stub of stubs.filter(stub => stub.unusedNames.length > 0)) {
+            stubsByFile.set(stub.uri.fsPath, [...(stubsByFile.get(stub.uri.fsPath) || []), stub]);
+        }
+
+        for (const fileStubs of stubsByFile.values()) {
+            const uri = fileStubs[0].uri;
+            const document = await vscode.workspace.openTextDocument(uri);
+            const format = this.importFormatter.getFormat(fileStubs[0].node.getSourceFile());
+
+            const deletedStubs = fileStubs.filter(stub => stub.unusedNames.length === this.getExportedNames(stub.node).length);
+            if (deletedStubs.length > 0) {
+                await this.fileManager.deleteTypeFromSource(
+                    edit,
+                    uri,
+                    deletedStubs.map(stub => ({ start: stub.start, end: stub.node.getEnd() })),
+                    metadata
+                );
+            }
+
+            for (const stub of fileStubs.filter(stub => !deletedStubs.includes(stub))) {
+                const exportClause = stub.node.exportClause as ts.NamedExports;
+                const specifiers = exportClause.elements
+                    .filter(element => !stub.unusedNames.includes(element.name.text))
+                    .map(element => element.getText());
+                const newText = this.importFormatter.rewriteDeclaration(
+                    stub.node.getText(), 'export', stub.node.isTypeOnly, undefined, specifiers, format
+                );
+                const range = new vscode.Range(document.positionAt(stub.node.getStart()), document.positionAt(stub.node.getEnd()));
+                edit.replace(uri, range, newText, metadata);
+            }
+        }
+    }
+
+    /**
+     * Returns where a stub starts, at its marker JSDoc
+     * @returns The offset, or undefined if the statement isn't a re-export stub
+     */
+    private getStubStart(statement: ts.Statement): number | undefined {
+        if (!ts.isExportDeclaration(statement) || !statement.moduleSpecifier ||
+            !statement.exportClause || !ts.isNamedExports(statement.exportClause)) {
+            return undefined;
+        }
+
+        const text = statement.getSourceFile().text;
+        const comments = ts.getLeadingCommentRanges(text, statement.getFullStart()) || [];
+        const marker = comments.find(comment => RE_EXPORT_STUB_COMMENT.test(text.slice(comment.pos, comment.end)));
+        return marker?.pos;
+    }
+
+    /**
+     * Returns the names a re-export exports, `ApiUser` for `export { User as ApiUser } from './user'`
+     */
+    private getExportedNames(node: ts.ExportDeclaration): string[] {
+        return (node.exportClause as ts.NamedExports).elements.map(element => element.name.text);
+    }
+
+    /**
+     * Collects how the workspace uses each stub file, and each barrel re-exporting one of them
+     * @param texts - The text of each workspace file, by path
+     * @param stubPaths - Absolute paths of the files containing stubs
+     */
+    private findUsages(texts: Map<string, string>, stubPaths: string[]): Map<string, ModuleUsage> {
+        const usages = new Map<string, ModuleUsage>();
+        const sourceFiles = new Map<string, ts.SourceFile>();
+
+        // Barrels found in one round are the modules whose consumers the next round looks for
+        for (let modulePaths = stubPaths; modulePaths.length > 0;) {
+            modulePaths.forEach(modulePath => usages.set(modulePath, { names: new Set(), wholeModuleUsers: new Set(), barrels: new Set() }));
+            const barrels = new Set<string>();
+            // Specifiers of a file end with its name, or with its folder's name for `index` files,
+            // which are also imported as `.` or `..`
+            const hints = modulePaths.map(modulePath => {
+                const name = path.basename(modulePath).replace(/\.\w+$/, '');
+                return name === 'index' ? path.basename(path.dirname(modulePath)) : name;
+            });
+            const hasIndex = modulePaths.some(modulePath => /^index\.\w+$/.test(path.basename(modulePath)));
+
+            for (const [filePath, text] of texts) {
+                if (!hints.some(hint => text.includes(hint)) && !(hasIndex && PARENT_SPECIFIER.test(text))) continue;
+
+                const sourceFile = sourceFiles.get(filePath) || this.scriptParser.parse(filePath, text);
+                sourceFiles.set(filePath, sourceFile);
+                const pathResolver = this.projectResolver.getPathResolver(filePath);
+                const findModulePath = (moduleSpecifier: string) => modulePaths.find(modulePath =>
+                    modulePath !== filePath && pathResolver.isImportPathFor(moduleSpecifier, filePath, modulePath)
+                );
+
+                for (const statement of sourceFile.statements) {
+                    if (!ts.isImportDeclaration(statement) && !ts.isExportDeclaration(statement)) continue;
+                    if (!statement.moduleSpecifier || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+                    const modulePath = findModulePath(statement.moduleSpecifier.text);
+                    if (!modulePath) continue;
+
+                    const usage = usages.get(modulePath)!;
+                    if (ts.isExportDeclaration(statement) && !statement.exportClause) {
+                        usage.barrels.add(filePath);
+                        barrels.add(filePath);
+                        continue;
+                    }
+                    const names = this.getImportedNames(statement);
+                    if (names) {
+                        names.forEach(name => usage.names.add(name));
+                    } else {
+                        usage.wholeModuleUsers.add(filePath);
+                    }
+                }
+
+                for (const importType of this.typeAnalyzer.findImportTypes(sourceFile)) {
+                    if (!ts.isLiteralTypeNode(importType.argument) || !ts.isStringLiteral(importType.argument.literal)) continue;
+                    const modulePath = findModulePath(importType.argument.literal.text);
+                    const name = this.typeAnalyzer.getImportTypeName(importType);
+                    if (modulePath && name) {
+                        usages.get(modulePath)!.names.add(name.text);
+                    } else if (modulePath) {
+                        usages.get(modulePath)!.wholeModuleUsers.add(filePath);
+                    }
+                }
+            }
+            modulePaths = [...barrels].filter(barrel => !usages.has(barrel));
+        }
+        return usages;
+    }
+
+    /**
+     * Combines how a module is used directly and through the barrels re-exporting it. A barrel
+     * used as a whole counts as a user of the whole module.
+     * @param usages - The usages, as collected by `findUsages`
+     * @param modulePath - Absolute path of the module
+     * @param visited - The modules already on the way, for barrels re-exporting each other
+     */
+    private resolveUsage(
+        usages: Map<string, ModuleUsage>,
+        modulePath: string,
+        visited = new Set<string>()
+    ): { names: Set<string>; wholeModuleUsers: Set<string> } {
+        const usage = usages.get(modulePath)!;
+        const names = new Set(usage.names);
+        const wholeModuleUsers = new Set(usage.wholeModuleUsers);
+        visited = new Set(visited).add(modulePath);
+
+        for (const barrel of usage.barrels) {
+            if (visited.has(barrel)) continue;
+            const barrelUsage = this.resolveUsage(usages, barrel, visited);
+            barrelUsage.names.forEach(name => names.add(name));
+            if (barrelUsage.wholeModuleUsers.size > 0) {
+                wholeModuleUsers.add(barrel);
+            }
+        }
+        return { names, wholeModuleUsers };
+    }
+
+    /**
+     * Returns the exported names an import or named re-export takes from its module, with
+     * `default` for default imports and the members a namespace import is used through
+     * @returns The names, or undefined if the statement uses the module as a whole, e.g. a
+     *          namespace passed to a function or `export * as Models`
+     */
+    private getImportedNames(statement: ts.ImportDeclaration | ts.ExportDeclaration): string[] | undefined {
+        if (ts.isExportDeclaration(statement)) {
+            if (!statement.exportClause || !ts.isNamedExports(statement.exportClause)) {
+                return undefined;
+            }
+            return statement.exportClause.elements.map(element => (element.propertyName || element.name).text);
+        }
+
+        const importClause = statement.importClause;
+        if (!importClause) return [];
+        const names = importClause.name ? ['default'] : [];
+        const namedBindings = importClause.namedBindings;
+        if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+            const members = this.typeAnalyzer.getNamespaceMembers(statement.getSourceFile(), namedBindings.name.text);
+            if (!members) return undefined;
+            names.push(...members);
+        } else if (namedBindings) {
+            names.push(...namedBindings.elements.map(element => (element.propertyName || element.name).text));
+        }
+        return names;
+    }
+}
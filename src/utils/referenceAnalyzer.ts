@@ -1,18 +1,48 @@
 import * as vscode from 'vscode';
 import * as ts from 'typescript';
+import { ScriptParser } from './scriptParser';
+import { ProjectResolver } from './projectResolver';
+import { TypeAnalyzer, TypeInfo } from './typeAnalyzer';
+import { WorkspaceScanner } from './workspaceScanner';
+import { WorkspaceLanguageService } from './workspaceLanguageService';
 
 export class ReferenceAnalyzer {
+    private scriptParser = new ScriptParser();
+    private typeAnalyzer = new TypeAnalyzer();
+    private workspaceScanner = new WorkspaceScanner();
+    private projectResolver = new ProjectResolver();
+    /** Shared by every lookup, so the workspace is only read once per analyzer */
+    private languageService = new WorkspaceLanguageService();
+
+    /**
+     * Finds every reference to the symbol at a position, including its declaration, with the
+     * extension's own language service. With `typeMover.useBuiltInReferenceProvider`, the editor's
+     * reference provider is asked first, and the language service is only used if it finds nothing.
+     * @param uri - The file containing the symbol
+     * @param position - The position of the symbol's name
+     */
     public async findReferences(
         uri: vscode.Uri,
         position: vscode.Position
     ): Promise<vscode.Location[]> {
-        const references = await vscode.commands.executeCommand<vscode.Location[]>(
-            'vscode.executeReferenceProvider',
-            uri,
-            position
-        );
+        const useBuiltIn = vscode.workspace.getConfiguration('typeMover').get<boolean>('useBuiltInReferenceProvider', false);
+        if (useBuiltIn) {
+            try {
+                const references = await vscode.commands.executeCommand<vscode.Location[]>(
+                    'vscode.executeReferenceProvider',
+                    uri,
+                    position
+                );
+                if (references && references.length > 0) {
+                    return references;
+                }
+            } catch (error) {
+                console.log('[ReferenceAnalyzer] Reference provider failed, using the language service:', error);
+            }
+        }
 
-        return references || [];
+        const document = await vscode.workspace.openTextDocument(uri);
+        return this.mergeReferences(await this.languageService.findReferences(uri, document.offsetAt(position)));
     }
 
     public async findImportReferences(
@@ -20,12 +50,7 @@ export class ReferenceAnalyzer {
         typeName: string
     ): Promise<vscode.Location[]> {
         const document = await vscode.workspace.openTextDocument(uri);
-        const sourceFile = ts.createSourceFile(
-            document.fileName,
-            document.getText(),
-            ts.ScriptTarget.Latest,
-            true
-        );
+        const sourceFile = this.scriptParser.parse(document.fileName, document.getText());
 
         const locations: vscode.Location[] = [];
 
@@ -35,7 +60,8 @@ export class ReferenceAnalyzer {
                 if (importClause && importClause.namedBindings) {
                     if (ts.isNamedImports(importClause.namedBindings)) {
                         for (const element of importClause.namedBindings.elements) {
-                            if (element.name.text === typeName) {
+                            // `import { User as ApiUser }` imports `User`
+                            if ((element.propertyName || element.name).text === typeName) {
                                 locations.push(
                                     new vscode.Location(
                                         uri,
@@ -58,6 +84,59 @@ export class ReferenceAnalyzer {
         return locations;
     }
 
+    /**
+     * Finds inline import types of a declaration across the workspace, in type annotations such as
+     * `let user: import('./types').User` and in JSDoc comments such as `@type {import('./types').User}`.
+     * The reference provider may not report these, in JavaScript files in particular.
+     *
+     * @param declarationUri - The file declaring the type
+     * @param typeInfo - The declared type
+     * @returns The locations of the imported names, e.g. `User` in `import('./types').User`
+     */
+    public async findImportTypeReferences(
+        declarationUri: vscode.Uri,
+        typeInfo: TypeInfo
+    ): Promise<vscode.Location[]> {
+        const exportedName = typeInfo.isDefaultExport ? 'default' : typeInfo.name;
+        const files = await this.workspaceScanner.findFiles('**/*.{ts,tsx,js,jsx,mjs,cjs,vue}');
+
+        const locations: vscode.Location[] = [];
+        for (const uri of files) {
+            const text = await this.workspaceScanner.readFile(uri);
+            if (!text.includes('import(') || !text.includes(exportedName)) continue;
+
+            const sourceFile = this.scriptParser.parse(uri.fsPath, text);
+            for (const importType of this.typeAnalyzer.findImportTypes(sourceFile)) {
+                const name = this.typeAnalyzer.getImportTypeName(importType);
+                const argument = importType.argument;
+                if (!name || name.text !== exportedName) continue;
+                if (!ts.isLiteralTypeNode(argument) || !ts.isStringLiteral(argument.literal)) continue;
+                if (!this.projectResolver.getPathResolver(uri.fsPath).isImportPathFor(argument.literal.text, uri.fsPath, declarationUri.fsPath)) continue;
+
+                const document = await vscode.workspace.openTextDocument(uri);
+                locations.push(new vscode.Location(
+                    uri,
+                    new vscode.Range(document.positionAt(name.getStart()), document.positionAt(name.getEnd()))
+                ));
+            }
+        }
+
+        return locations;
+    }
+
+    /**
+     * Combines reference lists, dropping locations found more than once
+     */
+    public mergeReferences(...referenceLists: vscode.Location[][]): vscode.Location[] {
+        const seen = new Set<string>();
+        return referenceLists.flat().filter(location => {
+            const key = `${location.uri.fsPath}:${location.range.start.line}:${location.range.start.character}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+
     public async validateReferences(references: vscode.Location[]): Promise<string[]> {
         const errors: string[] = [];
         const config = vscode.workspace.getConfiguration('typeMover');
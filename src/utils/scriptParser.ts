@@ -0,0 +1,125 @@
+import * as ts from 'typescript';
+
+/**
+ * A `<script>` block of a Vue single-file component
+ */
+export interface ScriptBlock {
+    /** Offset of the block's content in the `.vue` file, right after the opening tag */
+    start: number;
+    /** Offset of the end of the block's content, right before the closing tag */
+    end: number;
+    /** The `lang` attribute, `js` if absent */
+    lang: string;
+    /** Whether this is a `<script setup>` block */
+    setup: boolean;
+}
+
+/**
+ * Parses TypeScript, JavaScript and Vue single-file component documents into TypeScript source files.
+ *
+ * For `.vue` files only the `<script>` and `<script setup>` blocks are parsed. Everything outside
+ * them (template, style and the script tags themselves) is blanked out with whitespace while line
+ * breaks are kept, so every offset in the resulting source file is also the offset in the `.vue`
+ * document. Edits calculated from the AST can therefore be applied to the `.vue` file unchanged.
+ *
+ * @example
+ * ```typescript
+ * const parser = new ScriptParser();
+ * const sourceFile = parser.parse('/src/components/UserCard.vue', document.getText());
+ * // sourceFile.statements contains the imports and declarations of the script blocks,
+ * // e.g. `interface Props { user: User }` used in `defineProps<Props>()`
+ * ```
+ */
+export class ScriptParser {
+    /**
+     * Parses a document's text into a source file whose offsets match the document
+     * @param fileName - The document's file name, used to detect Vue files
+     * @param text - The document's full text
+     */
+    public parse(fileName: string, text: string): ts.SourceFile {
+        if (!this.isVueFile(fileName)) {
+            return ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+        }
+
+        const blocks = this.extractScriptBlocks(text);
+        const isTsx = blocks.some(block => block.lang === 'tsx' || block.lang === 'jsx');
+        return ts.createSourceFile(
+            fileName,
+            this.getScriptText(text, blocks),
+            ts.ScriptTarget.Latest,
+            true,
+            isTsx ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+        );
+    }
+
+    /**
+     * Checks whether a file is a Vue single-file component
+     */
+    public isVueFile(fileName: string): boolean {
+        return fileName.endsWith('.vue');
+    }
+
+    /**
+     * Finds the `<script>` blocks of a Vue single-file component
+     * @param text - The full text of the `.vue` file
+     */
+    public extractScriptBlocks(text: string): ScriptBlock[] {
+        const blocks: ScriptBlock[] = [];
+        const scriptPattern = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+
+        let match: RegExpExecArray | null;
+        while ((match = scriptPattern.exec(text)) !== null) {
+            const attributes = match[1];
+            // Self-closing `<script src="..." />` tags have no content
+            if (attributes.trimEnd().endsWith('/')) continue;
+
+            const start = match.index + match[0].indexOf('>') + 1;
+            const langMatch = /\blang\s*=\s*["']([^"']+)["']/.exec(attributes);
+            blocks.push({
+                start,
+                end: start + match[2].length,
+                lang: langMatch ? langMatch[1] : 'js',
+                setup: /(^|\s)setup(\s|=|$)/.test(attributes)
+            });
+        }
+
+        return blocks;
+    }
+
+    /**
+     * Returns the offset new imports are inserted at when a document has no imports yet:
+     * the start of the line after the opening `<script setup>` tag (or `<script>` tag) for
+     * Vue files, the start of the file otherwise
+     * @param fileName - The document's file name
+     * @param text - The document's full text
+     */
+    public getImportInsertOffset(fileName: string, text: string): number {
+        if (!this.isVueFile(fileName)) {
+            return 0;
+        }
+
+        const blocks = this.extractScriptBlocks(text);
+        const block = blocks.find(b => b.setup) || blocks[0];
+        if (!block) {
+            return 0;
+        }
+
+        const lineBreak = text.indexOf('\n', block.start);
+        return lineBreak === -1 || lineBreak >= block.end ? block.start : lineBreak + 1;
+    }
+
+    /**
+     * Blanks out everything outside the script blocks, keeping line breaks so offsets are preserved
+     */
+    private getScriptText(text: string, blocks: ScriptBlock[]): string {
+        const blank = (segment: string) => segment.replace(/[^\r\n]/g, ' ');
+
+        let result = '';
+        let position = 0;
+        for (const block of blocks) {
+            result += blank(text.slice(position, block.start)) + text.slice(block.start, block.end);
+            position = block.end;
+        }
+        return result + blank(text.slice(position));
+    }
+}
@@ -1,27 +1,165 @@
 import * as ts from 'typescript';
 import * as vscode from 'vscode';
+import { ScriptParser } from './scriptParser';
+
+/**
+ * A top-level declaration that can be moved: a type, interface or enum, or a function,
+ * class or `const`/`let` variable.
+ */
+export type MovableDeclaration =
+    | ts.InterfaceDeclaration
+    | ts.TypeAliasDeclaration
+    | ts.EnumDeclaration
+    | ts.FunctionDeclaration
+    | ts.ClassDeclaration
+    | ts.VariableStatement;
 
 export interface TypeInfo {
     name: string;
     node: ts.Node;
     dependencies: string[];
+    /** All nodes making up the declaration, e.g. every signature of an overloaded function. Defaults to `[node]` */
+    declarations?: ts.Node[];
+    /** Whether the declaration produces a runtime value and can't be imported with `import type` */
+    isValue?: boolean;
+    /** Whether the declaration is the module's `export default` */
+    isDefaultExport?: boolean;
 }
 
 export class TypeAnalyzer {
+    private scriptParser = new ScriptParser();
+
+    /**
+     * Collects the names a declaration references. Qualified references are reduced to their
+     * leftmost name, so `Models.User` depends on `Models`, the namespace or import providing it.
+     * @param typeInfo - The declaration to analyze
+     */
     public async analyzeDependencies(typeInfo: TypeInfo): Promise<string[]> {
         const dependencies: string[] = [];
         const visitor = (node: ts.Node) => {
+            let typeName: string | undefined;
             if (ts.isTypeReferenceNode(node)) {
-                const typeName = node.typeName.getText();
-                if (!dependencies.includes(typeName)) {
-                    dependencies.push(typeName);
-                }
+                typeName = this.getEntityRoot(node.typeName);
+            } else if (ts.isExpressionWithTypeArguments(node)) {
+                // Heritage clauses, e.g. `interface Admin extends User`
+                typeName = this.getEntityRoot(node.expression);
+            } else if (ts.isTypeQueryNode(node)) {
+                // `typeof defaultConfig`
+                typeName = this.getEntityRoot(node.exprName);
+            } else if (ts.isIdentifier(node) && this.isValueReference(node)) {
+                // Values used in function bodies and initializers, e.g. `formatDate(order.date)`
+                typeName = node.text;
+            }
+            if (typeName && !dependencies.includes(typeName)) {
+                dependencies.push(typeName);
+            }
+
+            // Type references and heritage clauses are fully handled above
+            if (!ts.isTypeReferenceNode(node) && !ts.isTypeQueryNode(node)) {
+                ts.forEachChild(node, visitor);
             }
-            ts.forEachChild(node, visitor);
         };
 
-        ts.forEachChild(typeInfo.node, visitor);
-        return dependencies;
+        for (const declaration of this.getDeclarationNodes(typeInfo)) {
+            ts.forEachChild(declaration, visitor);
+        }
+        return dependencies.filter(dependency => dependency !== typeInfo.name);
+    }
+
+    /**
+     * Computes the transitive closure of declarations in the same file that a type depends on.
+     *
+     * @example
+     * // For a file containing:
+     * // interface Order { items: OrderItem[] }
+     * // interface OrderItem { product: Product }
+     * // interface Product { id: string }
+     * // findLocalDependencies(orderInfo) returns [OrderItem, Product]
+     *
+     * @param typeInfo - The type whose local dependencies should be collected
+     * @returns The declarations the type depends on, directly or transitively, in source order
+     */
+    public async findLocalDependencies(typeInfo: TypeInfo): Promise<TypeInfo[]> {
+        const sourceFile = typeInfo.node.getSourceFile();
+        const localTypes = new Map<string, TypeInfo>();
+        for (const info of this.getTopLevelDeclarations(sourceFile)) {
+            if (!localTypes.has(info.name)) {
+                localTypes.set(info.name, info);
+            }
+        }
+
+        const visited = new Set<string>([typeInfo.name]);
+        const queue: TypeInfo[] = [typeInfo];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            current.dependencies = await this.analyzeDependencies(current);
+
+            for (const dependency of current.dependencies) {
+                const localType = localTypes.get(dependency);
+                if (!localType || visited.has(dependency)) continue;
+
+                visited.add(dependency);
+                queue.push(localType);
+            }
+        }
+
+        return [...localTypes.values()].filter(info => info.name !== typeInfo.name && visited.has(info.name));
+    }
+
+    /**
+     * Collects the namespaces of the declarations' file that the declarations reference, e.g.
+     * `Models` for `user: Models.User`. Namespaces can't be moved, so they are imported from the
+     * source file like the dependencies left behind.
+     * @param typeInfos - Declarations of one file
+     * @returns An entry per namespace, spanning every block it is merged from
+     */
+    public async findNamespaceDependencies(typeInfos: TypeInfo[]): Promise<TypeInfo[]> {
+        if (typeInfos.length === 0) return [];
+
+        const dependencies = new Set<string>();
+        for (const typeInfo of typeInfos) {
+            (await this.analyzeDependencies(typeInfo)).forEach(name => dependencies.add(name));
+        }
+
+        const namespaces = new Map<string, ts.ModuleDeclaration[]>();
+        for (const statement of typeInfos[0].node.getSourceFile().statements) {
+            if (!ts.isModuleDeclaration(statement) || !ts.isIdentifier(statement.name)) continue;
+            const name = statement.name.text;
+            if (dependencies.has(name)) {
+                namespaces.set(name, [...(namespaces.get(name) || []), statement]);
+            }
+        }
+
+        return [...namespaces].map(([name, declarations]) => ({
+            name,
+            node: declarations[0],
+            dependencies: [],
+            declarations,
+            isValue: declarations.some(declaration => this.isInstantiated(declaration)),
+            isDefaultExport: false
+        }));
+    }
+
+    /**
+     * Checks whether a declaration carries the `export` modifier
+     * @param node - The declaration to check
+     */
+    public isExported(node: ts.Node): boolean {
+        return this.hasModifier(node, ts.SyntaxKind.ExportKeyword);
+    }
+
+    /**
+     * Checks whether a declaration also produces a runtime value and therefore cannot
+     * be imported with `import type`
+     * @param node - The declaration to check
+     */
+    public isValueDeclaration(node: ts.Node): boolean {
+        return (
+            ts.isEnumDeclaration(node) ||
+            ts.isFunctionDeclaration(node) ||
+            ts.isClassDeclaration(node) ||
+            ts.isVariableStatement(node)
+        );
     }
 
     public isTypeNode(node: ts.Node): node is ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration {
@@ -32,35 +170,411 @@ export class TypeAnalyzer {
         );
     }
 
+    /**
+     * Checks whether a node is a declaration that can be moved to another file
+     * @param node - The node to check
+     */
+    public isMovableDeclaration(node: ts.Node): node is MovableDeclaration {
+        return this.isTypeNode(node) || this.isValueDeclaration(node);
+    }
+
+    /**
+     * Returns the name a declaration is imported by, or undefined for anonymous declarations
+     * such as `export default function () {}` and destructured variables
+     * @param node - The declaration to name
+     */
+    public getDeclarationName(node: ts.Node): string | undefined {
+        if (ts.isVariableStatement(node)) {
+            const declarations = node.declarationList.declarations;
+            // Only single, plainly named variables can be moved, e.g. `export const config = {}`
+            if (declarations.length !== 1 || !ts.isIdentifier(declarations[0].name)) return undefined;
+            return declarations[0].name.text;
+        }
+        if (this.isMovableDeclaration(node) && 'name' in node && node.name && ts.isIdentifier(node.name)) {
+            return node.name.text;
+        }
+        return undefined;
+    }
+
     public getTypeInfo(node: ts.Node): TypeInfo | undefined {
-        if (!this.isTypeNode(node)) {
+        if (!this.isMovableDeclaration(node)) {
+            return undefined;
+        }
+
+        const name = this.getDeclarationName(node);
+        if (!name) {
             return undefined;
         }
 
         return {
-            name: node.name.text,
+            name,
             node: node,
-            dependencies: []
+            dependencies: [],
+            declarations: [node],
+            isValue: this.isValueDeclaration(node),
+            isDefaultExport: this.hasModifier(node, ts.SyntaxKind.DefaultKeyword)
+        };
+    }
+
+    /**
+     * Collects the movable top-level declarations of a file. Function overloads are
+     * grouped into a single entry spanning every signature and the implementation.
+     *
+     * @example
+     * // For a file containing:
+     * // export function parse(value: string): Date;
+     * // export function parse(value: number): Date;
+     * // export function parse(value: string | number): Date { ... }
+     * // getTopLevelDeclarations(sourceFile) returns one TypeInfo named 'parse' with three declarations
+     *
+     * @param sourceFile - The file to collect declarations from
+     */
+    public getTopLevelDeclarations(sourceFile: ts.SourceFile): TypeInfo[] {
+        const result: TypeInfo[] = [];
+        sourceFile.statements.forEach((statement, index) => {
+            const info = this.getTypeInfo(statement);
+            if (!info) return;
+
+            // Overload signatures are always directly followed by the next signature or the implementation
+            const previous = result[result.length - 1];
+            const previousNodes = previous ? this.getDeclarationNodes(previous) : [];
+            const isOverload = previous !== undefined &&
+                ts.isFunctionDeclaration(statement) &&
+                ts.isFunctionDeclaration(previous.node) &&
+                previous.name === info.name &&
+                previousNodes[previousNodes.length - 1] === sourceFile.statements[index - 1];
+
+            if (isOverload) {
+                previous.declarations = [...previousNodes, statement];
+                previous.isDefaultExport = previous.isDefaultExport || info.isDefaultExport;
+            } else {
+                result.push(info);
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Returns all nodes making up a declaration, in source order
+     * @param typeInfo - The declaration
+     */
+    public getDeclarationNodes(typeInfo: TypeInfo): ts.Node[] {
+        return typeInfo.declarations && typeInfo.declarations.length > 0
+            ? typeInfo.declarations
+            : [typeInfo.node];
+    }
+
+    /**
+     * Returns the offsets a declaration occupies in its file, including the comments that belong
+     * to it: JSDoc and line comments such as `// eslint-disable-next-line` directly above it, and
+     * comments following it on its last line. Comments separated from it by a blank line, such as
+     * section headers, and comments ending the previous statement's line stay where they are.
+     * @param typeInfo - The declaration
+     * @example
+     * // For a file containing:
+     * // // Models
+     * //
+     * // /** A registered user *\/
+     * // interface User { id: string } // keep in sync with the API
+     * // the range starts at `/** A registered user` and ends after `// keep in sync with the API`
+     */
+    public getDeclarationRange(typeInfo: TypeInfo): { start: number; end: number } {
+        const nodes = this.getDeclarationNodes(typeInfo);
+        const text = nodes[0].getSourceFile().text;
+
+        let end = nodes[nodes.length - 1].getEnd();
+        for (const comment of ts.getTrailingCommentRanges(text, end) || []) {
+            end = comment.end;
+        }
+        return { start: this.getAttachedCommentStart(nodes[0]), end };
+    }
+
+    /**
+     * Finds where declarations moving into an existing file go, in order of precedence:
+     * - after the file's imports and the declarations the moved ones use
+     * - before the statements using the moved declarations, and before the statements that
+     *   conventionally end a file: `export default` and `export =` expressions, `export { ... }`
+     *   lists, and `declare module` and `declare global` blocks
+     * - right after the last declaration of the same kind, grouping interfaces and types,
+     *   functions, classes, enums and variables with their kind
+     * - as late as possible otherwise
+     *
+     * @param destinationFile - The parsed destination file
+     * @param movedTypes - The declarations moving into it
+     * @returns The offset of the start of the line to insert the declarations at, or undefined
+     *          to append them at the end of the file
+     * @example
+     * // For a destination containing:
+     * // import { Money } from './money';
+     * // export interface Order { total: Money }
+     * // export function createOrder(): Order { ... }
+     * // export default createOrder;
+     * // moving `interface OrderItem` returns the start of the `createOrder` line
+     */
+    public findInsertOffset(destinationFile: ts.SourceFile, movedTypes: TypeInfo[]): number | undefined {
+        const statements = destinationFile.statements;
+        const movedNames = new Set(movedTypes.map(typeInfo => typeInfo.name));
+        const usedNames = this.getUsedNames(movedTypes.flatMap(typeInfo => this.getDeclarationNodes(typeInfo)));
+
+        let lower = 0;
+        statements.forEach((statement, index) => {
+            const name = this.getDeclarationName(statement);
+            if (ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement) || (name && usedNames.has(name))) {
+                lower = index + 1;
+            }
+        });
+
+        let upper = statements.length;
+        while (upper > lower && this.isClosingStatement(statements[upper - 1])) {
+            upper--;
+        }
+        for (let index = lower; index < upper; index++) {
+            if ([...this.getUsedNames([statements[index]])].some(name => movedNames.has(name))) {
+                upper = index;
+                break;
+            }
+        }
+
+        let insertIndex = upper;
+        const kind = this.getDeclarationKind(movedTypes[0].node);
+        for (let index = upper - 1; index >= lower; index--) {
+            if (this.getDeclarationKind(statements[index]) === kind) {
+                insertIndex = index + 1;
+                break;
+            }
+        }
+        // Depending on declarations of the file matters more than preceding its users
+        insertIndex = Math.max(insertIndex, lower);
+
+        if (insertIndex >= statements.length) {
+            return undefined;
+        }
+        const start = this.getAttachedCommentStart(statements[insertIndex]);
+        return destinationFile.text.lastIndexOf('\n', start - 1) + 1;
+    }
+
+    /**
+     * Returns the source text of a declaration, from its first to its last node, with its comments
+     * @param typeInfo - The declaration
+     * @param exported - Whether the text must export the declaration, adding `export` to every
+     *                   node of a declaration that isn't exported yet
+     * @example
+     * // For `/** A user *\/ interface User { id: string }`
+     * getDeclarationText(userInfo, true); // '/** A user *\/ export interface User { id: string }'
+     */
+    public getDeclarationText(typeInfo: TypeInfo, exported: boolean = false): string {
+        const { start, end } = this.getDeclarationRange(typeInfo);
+        let text = typeInfo.node.getSourceFile().text.slice(start, end);
+        if (!exported || this.isExported(typeInfo.node)) {
+            return text;
+        }
+
+        // From last to first, so the offsets of earlier overloads stay valid
+        const positions = this.getDeclarationNodes(typeInfo).map(node => this.getExportPosition(node) - start);
+        for (const position of positions.reverse()) {
+            text = text.slice(0, position) + 'export ' + text.slice(position);
+        }
+        return text;
+    }
+
+    /**
+     * Checks whether two declarations of the same name describe the same type, ignoring comments,
+     * formatting, modifiers and the order of interface members. Only interfaces, type aliases and
+     * enums can be identical, functions, classes and variables never are.
+     * @example
+     * // `interface User { id: string; name: string }` and
+     * // `export interface User { name: string; /** Key *\/ id: string }` are identical
+     */
+    public isStructurallyIdentical(a: ts.Node, b: ts.Node): boolean {
+        const printer = ts.createPrinter({ removeComments: true });
+        // Printing without the source text normalizes literals, so `'a'` and `"a"` print alike
+        const print = (node: ts.Node | undefined) =>
+            node ? printer.printNode(ts.EmitHint.Unspecified, node, undefined as unknown as ts.SourceFile) : '';
+        const printAll = (nodes: readonly ts.Node[] | undefined) => (nodes || []).map(print);
+
+        if (ts.isInterfaceDeclaration(a) && ts.isInterfaceDeclaration(b)) {
+            const shape = (node: ts.InterfaceDeclaration) => JSON.stringify([
+                printAll(node.typeParameters),
+                printAll(node.heritageClauses),
+                printAll(node.members).sort()
+            ]);
+            return shape(a) === shape(b);
+        }
+        if (ts.isTypeAliasDeclaration(a) && ts.isTypeAliasDeclaration(b)) {
+            const shape = (node: ts.TypeAliasDeclaration) => JSON.stringify([printAll(node.typeParameters), print(node.type)]);
+            return shape(a) === shape(b);
+        }
+        if (ts.isEnumDeclaration(a) && ts.isEnumDeclaration(b)) {
+            const isConst = (node: ts.EnumDeclaration) => this.hasModifier(node, ts.SyntaxKind.ConstKeyword);
+            return isConst(a) === isConst(b) &&
+                JSON.stringify(printAll(a.members)) === JSON.stringify(printAll(b.members));
+        }
+        return false;
+    }
+
+    /**
+     * Returns where `export` goes in a declaration: before its other modifiers but after its
+     * decorators, e.g. before `abstract` in `@Injectable() abstract class Service`
+     * @param node - The declaration
+     */
+    public getExportPosition(node: ts.Node): number {
+        const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+        if (modifiers && modifiers.length > 0) {
+            return modifiers[0].getStart();
+        }
+        const decorators = ts.canHaveDecorators(node) ? ts.getDecorators(node) : undefined;
+        if (decorators && decorators.length > 0) {
+            const lastDecorator = decorators[decorators.length - 1];
+            const keyword = node.getChildren().find(child => child.getStart() >= lastDecorator.getEnd());
+            return keyword ? keyword.getStart() : node.getStart();
+        }
+        return node.getStart();
+    }
+
+    /**
+     * Collects every identifier inside some nodes and their JSDoc comments
+     * @param nodes - The nodes to search, e.g. the declarations of a moved type
+     */
+    public getUsedNames(nodes: ts.Node[]): Set<string> {
+        const names = new Set<string>();
+        const visit = (node: ts.Node) => {
+            if (ts.isIdentifier(node)) {
+                names.add(node.text);
+            }
+            // The parser attaches JSDoc comments to the node following them, and `forEachChild` skips them
+            (node as ts.Node & { jsDoc?: ts.JSDoc[] }).jsDoc?.forEach(visit);
+            ts.forEachChild(node, visit);
+        };
+        nodes.forEach(visit);
+        return names;
+    }
+
+    /**
+     * Collects the names the code of a file still uses once some declarations moved out of it,
+     * i.e. the identifiers outside its imports and those declarations. Property names and locals
+     * that merely share a name count too, so a name missing from the result is surely unused.
+     *
+     * The template of a Vue single-file component can use the names of its `<script setup>`, so
+     * its words count too, with `<user-card>` counting as `UserCard`.
+     *
+     * @param movedTypes - The declarations moving out of their file
+     * @param sourceText - The full text of the file, which for Vue files includes the template
+     * @example
+     * // For a file containing:
+     * // import { Money } from './money';
+     * // interface Order { total: Money }
+     * // interface Cart { order: Order }
+     * // Moving Order returns a set with `Cart` and `Order`, but not `Money`
+     */
+    public getNamesUsedOutside(movedTypes: TypeInfo[], sourceText?: string): Set<string> {
+        const sourceFile = movedTypes[0].node.getSourceFile();
+        const movedNodes = new Set(movedTypes.flatMap(typeInfo => this.getDeclarationNodes(typeInfo)));
+        const names = this.getUsedNames(sourceFile.statements.filter(statement =>
+            !ts.isImportDeclaration(statement) && !movedNodes.has(statement)
+        ));
+
+        if (sourceText !== undefined && this.scriptParser.isVueFile(sourceFile.fileName)) {
+            let templateText = sourceText;
+            for (const block of this.scriptParser.extractScriptBlocks(sourceText).reverse()) {
+                templateText = templateText.slice(0, block.start) + templateText.slice(block.end);
+            }
+            for (const word of templateText.match(/[A-Za-z_$][\w$-]*/g) || []) {
+                names.add(word);
+                names.add(word.replace(/(^|-)(\w)/g, (_, __, letter: string) => letter.toUpperCase()));
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Collects the inline import types of a file, `import('./types').User` in type annotations
+     * as well as in JSDoc comments such as `@type {import('./types').User}` and `@typedef`
+     * @param sourceFile - The file to search
+     */
+    public findImportTypes(sourceFile: ts.SourceFile): ts.ImportTypeNode[] {
+        const importTypes: ts.ImportTypeNode[] = [];
+        const visit = (node: ts.Node) => {
+            if (ts.isImportTypeNode(node)) {
+                importTypes.push(node);
+            }
+            // The parser attaches JSDoc comments to the node following them, and `forEachChild` skips them
+            (node as ts.Node & { jsDoc?: ts.JSDoc[] }).jsDoc?.forEach(visit);
+            ts.forEachChild(node, visit);
         };
+        visit(sourceFile);
+        return importTypes;
+    }
+
+    /**
+     * Returns the name an import type imports: `User` for `import('./types').User.Address`
+     * @param node - The import type
+     * @returns The identifier, or undefined for `import('./types')` without a qualifier
+     */
+    public getImportTypeName(node: ts.ImportTypeNode): ts.Identifier | undefined {
+        let name: ts.EntityName | undefined = node.qualifier;
+        while (name && ts.isQualifiedName(name)) {
+            name = name.left;
+        }
+        return name;
+    }
+
+    /**
+     * Collects the members a file uses of a namespace import, `User` for `Models.User`
+     * @param sourceFile - The file containing the namespace import
+     * @param namespaceName - The local name of the namespace, e.g. `Models` for `import * as Models`
+     * @returns The members' names, or undefined if the namespace is used as a whole, e.g. passed
+     *          to a function or indexed with `Models[name]`
+     */
+    public getNamespaceMembers(sourceFile: ts.SourceFile, namespaceName: string): string[] | undefined {
+        const members = new Set<string>();
+        let isUsedAsWhole = false;
+        const visit = (node: ts.Node) => {
+            if (ts.isIdentifier(node) && node.text === namespaceName && !ts.isNamespaceImport(node.parent)) {
+                const parent = node.parent;
+                if (ts.isPropertyAccessExpression(parent) && parent.expression === node) {
+                    members.add(parent.name.text);
+                } else if (ts.isQualifiedName(parent) && parent.left === node) {
+                    members.add(parent.right.text);
+                } else if (!(ts.isPropertyAccessExpression(parent) && parent.name === node) &&
+                    !(ts.isQualifiedName(parent) && parent.right === node)) {
+                    isUsedAsWhole = true;
+                }
+            }
+            (node as ts.Node & { jsDoc?: ts.JSDoc[] }).jsDoc?.forEach(visit);
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+        return isUsedAsWhole ? undefined : [...members];
+    }
+
+    /**
+     * Checks whether a file has an `export default`, either on a declaration or as an
+     * `export default expression` statement
+     * @param uri - The file to check
+     * @returns False if the file doesn't exist
+     */
+    public async hasDefaultExport(uri: vscode.Uri): Promise<boolean> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const sourceFile = this.scriptParser.parse(uri.fsPath, document.getText());
+
+            return sourceFile.statements.some(statement =>
+                (ts.isExportAssignment(statement) && !statement.isExportEquals) ||
+                this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+            );
+        } catch {
+            return false;
+        }
     }
 
     public async validateMove(typeInfo: TypeInfo, destinationUri: vscode.Uri): Promise<string | undefined> {
         try {
             const destinationDoc = await vscode.workspace.openTextDocument(destinationUri);
             const sourceText = destinationDoc.getText();
-            const sourceFile = ts.createSourceFile(
-                destinationUri.fsPath,
-                sourceText,
-                ts.ScriptTarget.Latest,
-                true
-            );
+            const sourceFile = this.scriptParser.parse(destinationUri.fsPath, sourceText);
 
-            let hasConflict = false;
-            ts.forEachChild(sourceFile, node => {
-                if (this.isTypeNode(node) && node.name.text === typeInfo.name) {
-                    hasConflict = true;
-                }
-            });
+            const hasConflict = this.getTopLevelDeclarations(sourceFile)
+                .some(declaration => declaration.name === typeInfo.name);
 
             if (hasConflict) {
                 return `Type '${typeInfo.name}' already exists in destination file`;
@@ -71,4 +585,102 @@ export class TypeAnalyzer {
             return `Failed to validate move: ${error instanceof Error ? error.message : 'Unknown error'}`;
         }
     }
+
+    /**
+     * Returns the leftmost name of a possibly qualified reference: `Models` for `Models.User`,
+     * which is the declaration or import the reference depends on
+     */
+    private getEntityRoot(name: ts.EntityName | ts.Expression): string {
+        if (ts.isQualifiedName(name)) {
+            return this.getEntityRoot(name.left);
+        }
+        if (ts.isPropertyAccessExpression(name)) {
+            return this.getEntityRoot(name.expression);
+        }
+        return name.getText();
+    }
+
+    /**
+     * Returns where a node starts including its JSDoc and the line comments directly above it,
+     * but not comments separated from it by a blank line or ending the previous statement's line
+     */
+    private getAttachedCommentStart(node: ts.Node): number {
+        const text = node.getSourceFile().text;
+        let start = node.getStart();
+        const leadingComments = ts.getLeadingCommentRanges(text, node.getFullStart()) || [];
+        for (let i = leadingComments.length - 1; i >= 0; i--) {
+            const comment = leadingComments[i];
+            const isSeparated = (text.slice(comment.end, start).match(/\n/g) || []).length > 1;
+            const endsPreviousLine = node.getFullStart() > 0 && !text.slice(node.getFullStart(), comment.pos).includes('\n');
+            if (isSeparated || endsPreviousLine) break;
+            start = comment.pos;
+        }
+        return start;
+    }
+
+    /**
+     * Checks whether a statement conventionally ends a file, such as `export default App`
+     */
+    private isClosingStatement(statement: ts.Statement): boolean {
+        return ts.isExportAssignment(statement) ||
+            ts.isModuleDeclaration(statement) ||
+            (ts.isExportDeclaration(statement) && !statement.moduleSpecifier);
+    }
+
+    /**
+     * Returns the kind of declaration a statement is, with interfaces and type aliases sharing one,
+     * or undefined for statements that aren't movable declarations
+     */
+    private getDeclarationKind(node: ts.Node): ts.SyntaxKind | undefined {
+        if (!this.isMovableDeclaration(node)) return undefined;
+        return ts.isTypeAliasDeclaration(node) ? ts.SyntaxKind.InterfaceDeclaration : node.kind;
+    }
+
+    private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+        return ts.canHaveModifiers(node) &&
+            (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+    }
+
+    /**
+     * Checks whether a namespace exists at runtime, which takes more than types and ambient declarations
+     */
+    private isInstantiated(node: ts.ModuleDeclaration): boolean {
+        if (this.hasModifier(node, ts.SyntaxKind.DeclareKeyword) || !node.body) return false;
+        // `namespace Models.Api {}` nests the namespaces
+        if (ts.isModuleDeclaration(node.body)) return this.isInstantiated(node.body);
+        return ts.isModuleBlock(node.body) && node.body.statements.some(statement =>
+            ts.isModuleDeclaration(statement)
+                ? this.isInstantiated(statement)
+                : !ts.isInterfaceDeclaration(statement) && !ts.isTypeAliasDeclaration(statement)
+        );
+    }
+
+    /**
+     * Checks whether an identifier refers to a value, as opposed to naming a declaration
+     * or a property
+     */
+    private isValueReference(node: ts.Identifier): boolean {
+        const parent = node.parent;
+        if (!parent) return false;
+
+        const isNameOfParent = (
+            ts.isPropertyAccessExpression(parent) ||
+            ts.isPropertyAssignment(parent) ||
+            ts.isPropertyDeclaration(parent) ||
+            ts.isPropertySignature(parent) ||
+            ts.isMethodDeclaration(parent) ||
+            ts.isMethodSignature(parent) ||
+            ts.isParameter(parent) ||
+            ts.isVariableDeclaration(parent) ||
+            ts.isFunctionDeclaration(parent) ||
+            ts.isClassDeclaration(parent) ||
+            ts.isEnumMember(parent)
+        ) && parent.name === node;
+
+        return !isNameOfParent &&
+            !(ts.isQualifiedName(parent) && parent.right === node) &&
+            !ts.isTypeParameterDeclaration(parent) &&
+            !ts.isLabeledStatement(parent) &&
+            !ts.isBreakOrContinueStatement(parent);
+    }
 }
@@ -1,51 +1,57 @@
 import * as vscode from 'vscode';
-import * as ts from 'typescript';
-import { TypeInfo } from './typeAnalyzer';
+import { TypeAnalyzer, TypeInfo } from './typeAnalyzer';
+import { ScriptParser } from './scriptParser';
 
 export class TypeFinder {
-    private isTypeNode(node: ts.Node): node is ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration {
-        return (
-            ts.isInterfaceDeclaration(node) ||
-            ts.isTypeAliasDeclaration(node) ||
-            ts.isEnumDeclaration(node)
-        );
-    }
+    private typeAnalyzer = new TypeAnalyzer();
+    private scriptParser = new ScriptParser();
 
     public async findTypeAtSelection(
         document: vscode.TextDocument,
         selection: vscode.Selection
     ): Promise<TypeInfo | undefined> {
-        const sourceFile = ts.createSourceFile(
-            document.fileName,
-            document.getText(),
-            ts.ScriptTarget.Latest,
-            true
-        );
+        const sourceFile = this.scriptParser.parse(document.fileName, document.getText());
 
         const offset = document.offsetAt(selection.start);
-        let selectedNode: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration | undefined;
 
-        const visit = (node: ts.Node) => {
-            if (node.getStart() <= offset && node.getEnd() >= offset) {
-                if (this.isTypeNode(node)) {
-                    selectedNode = node;
-                    return;
-                }
-            }
-            ts.forEachChild(node, visit);
-        };
+        // Only top-level declarations can be moved to another module
+        return this.typeAnalyzer.getTopLevelDeclarations(sourceFile).find(typeInfo => {
+            const nodes = this.typeAnalyzer.getDeclarationNodes(typeInfo);
+            return nodes[0].getStart() <= offset && nodes[nodes.length - 1].getEnd() >= offset;
+        });
+    }
 
-        ts.forEachChild(sourceFile, visit);
+    /**
+     * Finds every declaration touched by the given selections. A cursor selects the declaration
+     * it is in, a range selects every declaration it overlaps. Each declaration is returned once,
+     * in source order.
+     * @param document - The document to search in
+     * @param selections - The editor's selections, e.g. from multiple cursors
+     */
+    public async findTypesAtSelections(
+        document: vscode.TextDocument,
+        selections: readonly vscode.Selection[]
+    ): Promise<TypeInfo[]> {
+        const declarations = await this.findAllTypesInDocument(document);
+
+        return declarations.filter(typeInfo => {
+            const nodes = this.typeAnalyzer.getDeclarationNodes(typeInfo);
+            const start = nodes[0].getStart();
+            const end = nodes[nodes.length - 1].getEnd();
+            return selections.some(selection =>
+                document.offsetAt(selection.start) <= end && document.offsetAt(selection.end) >= start
+            );
+        });
+    }
 
-        if (!selectedNode) {
-            return undefined;
-        }
+    /**
+     * Lists every movable top-level declaration in a document, in source order
+     * @param document - The document to search in
+     */
+    public async findAllTypesInDocument(document: vscode.TextDocument): Promise<TypeInfo[]> {
+        const sourceFile = this.scriptParser.parse(document.fileName, document.getText());
 
-        return {
-            name: selectedNode.name.text,
-            node: selectedNode,
-            dependencies: []
-        };
+        return this.typeAnalyzer.getTopLevelDeclarations(sourceFile);
     }
 
     public async findTypeInFile(
@@ -53,33 +59,9 @@ export class TypeFinder {
         typeName: string
     ): Promise<TypeInfo | undefined> {
         const document = await vscode.workspace.openTextDocument(uri);
-        const sourceFile = ts.createSourceFile(
-            document.fileName,
-            document.getText(),
-            ts.ScriptTarget.Latest,
-            true
-        );
-
-        let foundNode: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration | undefined;
-
-        const visit = (node: ts.Node) => {
-            if (this.isTypeNode(node) && node.name.text === typeName) {
-                foundNode = node;
-                return;
-            }
-            ts.forEachChild(node, visit);
-        };
-
-        ts.forEachChild(sourceFile, visit);
-
-        if (!foundNode) {
-            return undefined;
-        }
+        const sourceFile = this.scriptParser.parse(document.fileName, document.getText());
 
-        return {
-            name: typeName,
-            node: foundNode,
-            dependencies: []
-        };
+        return this.typeAnalyzer.getTopLevelDeclarations(sourceFile)
+            .find(typeInfo => typeInfo.name === typeName);
     }
 }
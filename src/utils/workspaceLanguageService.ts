@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import * as ts from 'typescript';
+import * as path from 'path';
+import { ProjectResolver } from './projectResolver';
+import { ScriptParser } from './scriptParser';
+import { WorkspaceScanner } from './workspaceScanner';
+
+/**
+ * Vue components are given to the language service as `UserCard.vue.ts`, which is also where
+ * TypeScript looks for an import of `./UserCard.vue`
+ */
+const VUE_SCRIPT_SUFFIX = '.ts';
+
+/**
+ * The language service of one project, with the workspace files belonging to it
+ */
+interface ProjectService {
+    service: ts.LanguageService;
+    /** Script file names of the project's workspace files, Vue components with their `.ts` suffix */
+    fileNames: string[];
+}
+
+/**
+ * Finds references with TypeScript language services of its own, one per project of the
+ * workspace, independent of the editor's TypeScript server. The editor's reference provider
+ * returns nothing or partial results while the server is loading, for Vue components without
+ * Volar, and for files outside of any open project.
+ *
+ * Every workspace file outside of `typeMover.ignoredFolders` is read once and belongs to the
+ * project of its tsconfig.json, whose compiler options the service uses. Vue components are read
+ * through their `<script>` blocks, so offsets in them match the `.vue` file. References are only
+ * reported in workspace files, not in ignored folders or packages.
+ *
+ * @example
+ * ```typescript
+ * const languageService = new WorkspaceLanguageService();
+ * const references = await languageService.findReferences(document.uri, document.offsetAt(position));
+ * // Locations of `User` in /src/types.ts, /src/app.ts and /src/components/UserCard.vue
+ * ```
+ */
+export class WorkspaceLanguageService {
+    private projectResolver = new ProjectResolver();
+    private scriptParser = new ScriptParser();
+    private workspaceScanner = new WorkspaceScanner();
+
+    /** The script text of each workspace file, by script file name */
+    private scripts = new Map<string, string>();
+
+    /** The language services by config path, an empty string for files outside any project */
+    private projects?: Map<string, ProjectService>;
+
+    /**
+     * Finds every reference to the symbol at an offset, including its declaration
+     * @param uri - The file containing the symbol, a TypeScript, JavaScript or Vue file
+     * @param offset - The offset of the symbol's name in the file
+     */
+    public async findReferences(uri: vscode.Uri, offset: number): Promise<vscode.Location[]> {
+        const projects = await this.getProjects();
+        const fileName = this.getScriptFileName(uri.fsPath);
+
+        const locations: vscode.Location[] = [];
+        for (const { service, fileNames } of projects.values()) {
+            // Other projects see the file if they include it or import it
+            if (!fileNames.includes(fileName) && !service.getProgram()?.getSourceFile(fileName)) continue;
+
+            for (const symbol of service.findReferences(fileName, offset) || []) {
+                for (const reference of symbol.references) {
+                    const sourceFile = this.scripts.has(reference.fileName)
+                        ? service.getProgram()?.getSourceFile(reference.fileName)
+                        : undefined;
+                    if (!sourceFile) continue;
+
+                    const start = sourceFile.getLineAndCharacterOfPosition(reference.textSpan.start);
+                    const end = sourceFile.getLineAndCharacterOfPosition(reference.textSpan.start + reference.textSpan.length);
+                    locations.push(new vscode.Location(
+                        vscode.Uri.file(this.getFilePath(reference.fileName)),
+                        new vscode.Range(start.line, start.character, end.line, end.character)
+                    ));
+                }
+            }
+        }
+        return locations;
+    }
+
+    /**
+     * Reads the workspace files and creates the language service of each project, once
+     */
+    private async getProjects(): Promise<Map<string, ProjectService>> {
+        if (this.projects) {
+            return this.projects;
+        }
+
+        const fileNamesByConfig = new Map<string, string[]>();
+        for (const uri of await this.workspaceScanner.findFiles('**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs,vue}')) {
+            const fileName = this.getScriptFileName(uri.fsPath);
+            const text = await this.workspaceScanner.readFile(uri);
+            this.scripts.set(fileName, this.scriptParser.isVueFile(uri.fsPath)
+                ? this.scriptParser.parse(uri.fsPath, text).text
+                : text);
+
+            const configPath = this.projectResolver.getConfigPath(uri.fsPath) || '';
+            fileNamesByConfig.set(configPath, [...(fileNamesByConfig.get(configPath) || []), fileName]);
+        }
+
+        this.projects = new Map();
+        for (const [configPath, fileNames] of fileNamesByConfig) {
+            const options = configPath
+                ? this.projectResolver.getCompilerOptions(configPath)
+                : { allowJs: true, jsx: ts.JsxEmit.Preserve };
+            const currentDirectory = configPath
+                ? path.dirname(configPath)
+                : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || ts.sys.getCurrentDirectory();
+            this.projects.set(configPath, {
+                service: ts.createLanguageService(this.createHost(fileNames, options, currentDirectory)),
+                fileNames
+            });
+        }
+        return this.projects;
+    }
+
+    /**
+     * Creates the host of a project's language service, serving the workspace files read by the
+     * scan and everything else, such as packages and lib files, from disk
+     */
+    private createHost(
+        fileNames: string[],
+        options: ts.CompilerOptions,
+        currentDirectory: string
+    ): ts.LanguageServiceHost {
+        const readFile = (fileName: string) => this.scripts.get(fileName) ?? ts.sys.readFile(fileName);
+        return {
+            getCompilationSettings: () => options,
+            getScriptFileNames: () => fileNames,
+            // The workspace is read once, so every script stays at its first version
+            getScriptVersion: () => '0',
+            getScriptSnapshot: fileName => {
+                const text = readFile(fileName);
+                return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+            },
+            getCurrentDirectory: () => currentDirectory,
+            getDefaultLibFileName: compilerOptions => ts.getDefaultLibFilePath(compilerOptions),
+            fileExists: fileName => this.scripts.has(fileName) || ts.sys.fileExists(fileName),
+            readFile,
+            readDirectory: ts.sys.readDirectory,
+            directoryExists: ts.sys.directoryExists,
+            getDirectories: ts.sys.getDirectories,
+            realpath: ts.sys.realpath
+        };
+    }
+
+    /**
+     * Returns the name the language services know a file by, with forward slashes like TypeScript's
+     * own file names and `UserCard.vue.ts` for Vue components
+     */
+    private getScriptFileName(filePath: string): string {
+        const fileName = filePath.replace(/\\/g, '/');
+        return this.scriptParser.isVueFile(fileName) ? fileName + VUE_SCRIPT_SUFFIX : fileName;
+    }
+
+    /**
+     * Returns the path of the file a language service's script file name stands for
+     */
+    private getFilePath(fileName: string): string {
+        return fileName.endsWith('.vue' + VUE_SCRIPT_SUFFIX) ? fileName.slice(0, -VUE_SCRIPT_SUFFIX.length) : fileName;
+    }
+}
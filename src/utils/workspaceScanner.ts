@@ -0,0 +1,41 @@
+import * as vscode from 'vscode';
+
+/**
+ * Finds and reads workspace files for analyses the language service's references don't cover,
+ * such as `export *` barrels, skipping the folders configured in `typeMover.ignoredFolders`.
+ *
+ * @example
+ * ```typescript
+ * const scanner = new WorkspaceScanner();
+ * for (const uri of await scanner.findFiles('**\/*.{ts,tsx}')) {
+ *     const text = await scanner.readFile(uri);
+ * }
+ * ```
+ */
+export class WorkspaceScanner {
+    /**
+     * Finds the workspace files matching a glob pattern, outside of ignored folders
+     * @param include - The glob pattern, e.g. `**\/*.{ts,tsx}`
+     */
+    public async findFiles(include: string): Promise<vscode.Uri[]> {
+        const config = vscode.workspace.getConfiguration('typeMover');
+        const ignoredFolders = config.get<string[]>('ignoredFolders', ['node_modules', 'dist']);
+        const exclude = ignoredFolders.length > 0
+            ? `{${ignoredFolders.map(folder => `**/${folder}/**`).join(',')}}`
+            : undefined;
+
+        return vscode.workspace.findFiles(include, exclude);
+    }
+
+    /**
+     * Reads a file's text, including unsaved changes if it is open in the editor
+     * @param uri - The file to read
+     */
+    public async readFile(uri: vscode.Uri): Promise<string> {
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === uri.fsPath);
+        if (openDocument) {
+            return openDocument.getText();
+        }
+        return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    }
+}